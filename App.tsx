@@ -1,33 +1,72 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { IDEType, ProjectState, FileEntry, WorkflowRun, WorkflowStatus, TerminalInstance, TerminalTheme, Task } from './types';
-import { NeonButton, GlassCard, TechLoader, StatusDot, WorkflowBadge, TerminalTab, TaskItem } from './components/UiverseElements';
-import { analyzeCode, chatWithAI } from './services/gemini';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { IDEType, ProjectState, FileEntry, WorkflowRun, WorkflowRunRecord, WorkflowStatus, WorkflowTrigger, TerminalInstance, TerminalProfile, TerminalTheme, LogLevel, Task, EditorBuffer, EditorSelection, WorkspaceSummary, ImportSummary, CompilationResult, Diagnostic, CompiledContract, DeployedContract, Hex, SandboxAccount, SandboxTxResult, AISettings, AuditIssueStatus, CodeAnalysis, ChatMessage, ChatContextItem, EditReview, TestCase, GasReport, AccountSource, NetworkAccount, NetworkConfig, NetworkContract, InteractionResult, DeploymentRecord } from './types';
+import { NeonButton, GlassCard, TechLoader, StatusDot, WorkflowBadge, TerminalTab, EditorTab, TaskItem } from './components/UiverseElements';
+import { CodeEditor } from './components/CodeEditor';
+import { FileExplorer } from './components/FileExplorer';
+import { WorkflowCard } from './components/WorkflowCard';
+import { TerminalColors, TerminalLogToolbar } from './components/TerminalLog';
+import { NewTerminalButton, TerminalPane } from './components/TerminalPane';
+import { AISettingsPanel } from './components/AISettingsPanel';
+import { ChatComposer } from './components/ChatComposer';
+import { Markdown } from './components/Markdown';
+import { DiffReview } from './components/DiffReview';
+import { AuditReportCard } from './components/AuditReportCard';
+import { WorkspaceSwitcher, SaveStatus } from './components/WorkspaceSwitcher';
+import { ProblemsPanel } from './components/ProblemsPanel';
+import { DeployRunPanel } from './components/DeployRunPanel';
+import { TestExplorer } from './components/TestExplorer';
+import { GasReportPanel } from './components/GasReportPanel';
+import { StorageLayoutPanel } from './components/StorageLayoutPanel';
+import { NetworkHealth, NetworksPanel } from './components/NetworksPanel';
+import { DeployConfirmDialog } from './components/DeployConfirmDialog';
+import { InteractionPanel } from './components/InteractionPanel';
+import { analyzeCode, chatWithAI, streamChat, configureAI, getAISettings, AI_PROVIDERS, DEFAULT_AI_SETTINGS } from './services/ai';
+import { compileSolidity, solidityFiles, writeArtifacts, ARTIFACTS_DIR } from './services/compiler';
+import { deployContract, callContract, resetSandbox, getSandboxAccounts } from './services/evmSandbox';
+import { AbiFunction, abiConstructor, formatValue, isReadOnly } from './services/abi';
+import { loadWorkflows, syncWorkflowRuns, executeWorkflow } from './services/workflows';
+import { registerCommands, completeLine, ShellHost, ShellSession } from './services/commands';
+import { BUILTIN_COMMANDS, runCommandLine, promptFor } from './services/shell';
+import { appendLog, createLogEntry, filterLogs, plainText, writeLogFile, DEFAULT_SCROLLBACK, EMPTY_LOG_FILTER, LogFilter, LogOptions } from './services/terminalLog';
+import { createTerminal, terminalPrompt, DEFAULT_TERMINAL_HEIGHT, MIN_TERMINAL_HEIGHT, TERMINAL_PROFILES } from './services/terminalProfiles';
+import { createRepl, Repl, REPL_HELP } from './services/nodeRepl';
+import { chatTurns, createChatMessage, createChatThread, threadTitle, updateChatMessage, upsertThread } from './services/chat';
+import { contextLabel, estimateTokens, fitContext, mentionCandidates, resolveContext, ContextSources, REPLY_RESERVE_TOKENS } from './services/chatContext';
+import { SYSTEM_INSTRUCTION } from './services/aiProvider';
+import { diffLines, applyHunks } from './services/diff';
+import { addAuditReport, auditDiagnostics, createAuditReport, latestReport, mergeAnalysis, setAuditIssueStatus } from './services/audit';
+import { analyzeSolidity, StaticAnalysis } from './services/solidityAnalyzer';
+import { callFunction, DEFAULT_NETWORKS, DeploymentPlan, hasInjectedWallet, isLocalChain, listAccounts, LOCAL_NETWORK, planDeployment, probeNetwork, sendDeployment, sendFunction } from './services/networks';
+import { readDeployments, recordDeployment, registryPath } from './services/deployments';
+import { addGasReport, buildGasReport, compareGasReports, GasSample } from './services/gasReport';
+import { discoverTests, formatTestResult, isRunnable, mergeDiscovered, runJsTests, runSolidityTests } from './services/testRunner';
+import { importZip, importFolder, exportZip, downloadBlob } from './services/archive';
+import { findFile, findByPath, pathOf, indexFiles, updateFile, uniqueName, findParent, collectIds, createId, inferLanguage, validateName, insertEntry, removeEntry, renameEntry, moveEntry, isDescendantOf, ensureFolderPath, upsertFile } from './services/fileTree';
+import { DEFAULT_WORKSPACE_ID, listWorkspaces, loadWorkspace, saveWorkspace, deleteWorkspace, getActiveWorkspaceId, setActiveWorkspaceId, loadAISettings, saveAISettings } from './services/persistence';
+import { createBuffer, applyEdit, undo, redo, markSaved, isDirty, caretPosition, offsetOf } from './services/editorBuffer';
 
 const INITIAL_FILES: FileEntry[] = [
   { 
     id: '1', name: 'contracts', type: 'folder', children: [
-      { id: '2', name: 'Storage.sol', type: 'file', language: 'solidity', content: '// SPDX-License-Identifier: MIT\npragma solidity ^0.8.0;\n\ncontract Storage {\n    uint256 public val;\n    function store(uint256 x) public {\n        val = x;\n    }\n}' },
+      { id: '2', name: 'Storage.sol', type: 'file', language: 'solidity', isOpen: true, content: '// SPDX-License-Identifier: MIT\npragma solidity ^0.8.0;\n\ncontract Storage {\n    uint256 public val;\n    function store(uint256 x) public {\n        val = x;\n    }\n}' },
       { id: '3', name: 'Token.sol', type: 'file', language: 'solidity', content: 'contract Token { mapping(address=>uint) balances; }' }
     ]
   },
   { id: '4', name: '.github', type: 'folder', children: [
     { id: '5', name: 'workflows', type: 'folder', children: [
       { id: '6', name: 'main.yml', type: 'file', language: 'yaml', content: 'name: CI\non: [push]\njobs:\n  build:\n    runs-on: ubuntu-latest\n    steps:\n      - uses: actions/checkout@v2\n      - name: Run Tests\n        run: npm test' },
-      { id: '8', name: 'deploy.yml', type: 'file', language: 'yaml', content: 'name: CD\non: [manual]\njobs:\n  deploy:\n    runs-on: ubuntu-latest\n    steps:\n      - uses: actions/checkout@v2\n      - name: Deploy to Mainnet\n        run: hardhat deploy' }
+      { id: '8', name: 'deploy.yml', type: 'file', language: 'yaml', content: 'name: CD\non: [workflow_dispatch]\njobs:\n  build:\n    runs-on: ubuntu-latest\n    steps:\n      - uses: actions/checkout@v2\n      - name: Compile Contracts\n        run: compile\n  deploy:\n    needs: build\n    runs-on: ubuntu-latest\n    steps:\n      - name: Deploy to Sandbox\n        run: npm deploy' }
     ]}
   ]},
   { id: '7', name: 'README.md', type: 'file', language: 'markdown', content: '# Soluf-th Project\nDeveloper hub simulation.' }
 ];
 
-const INITIAL_WORKFLOWS: WorkflowRun[] = [
-  { id: 'wf1', workflowName: 'CI Pipeline', status: 'success', logs: ['Build started', 'npm install successful', 'Tests passed', 'Build finished'] },
-  { id: 'wf2', workflowName: 'CD Deployment', status: 'idle', logs: [] }
-];
+const INITIAL_WORKFLOWS: WorkflowRun[] = syncWorkflowRuns([], loadWorkflows(INITIAL_FILES).runs);
 
 const INITIAL_TERMINALS: TerminalInstance[] = [
-  { id: 'term-1', name: 'bash', logs: ['Welcome to Soluf-th Bash v5.1', 'Type "help" for available commands.'] },
-  { id: 'term-2', name: 'node', logs: ['Welcome to Node.js v18.16.0.', 'Type ".help" for more information.'] }
+  createTerminal('shell', [], 'term-1'),
+  createTerminal('node', [], 'term-2')
 ];
 
 const INITIAL_TASKS: Task[] = [
@@ -35,185 +74,1233 @@ const INITIAL_TASKS: Task[] = [
   { id: 't2', text: 'Update GitHub Actions config', completed: true, createdAt: Date.now() - 100000 }
 ];
 
-const COMMANDS = ['help', 'clear', 'ls', 'npm test', 'npm deploy', 'audit', 'whoami', 'theme monokai', 'theme cyberpunk', 'theme github-dark'];
+registerCommands(BUILTIN_COMMANDS);
+
+const AUTOSAVE_DELAY_MS = 1000;
+const MAX_RUN_HISTORY = 20;
+const MAX_COMMAND_HISTORY = 200;
+
+// Module-level so each theme's colours keep their identity and memoised terminal rows stay cached.
+const TERMINAL_THEME_STYLES: Record<TerminalTheme, TerminalColors & { bg: string }> = {
+  'github-dark': { bg: 'bg-[#0a0c10]', text: 'text-gray-400', prompt: 'text-green-500', workflow: 'text-blue-400/80' },
+  'cyberpunk': { bg: 'bg-[#1a1b26]', text: 'text-[#bb9af7]', prompt: 'text-[#f7768e]', workflow: 'text-[#7aa2f7]' },
+  'monokai': { bg: 'bg-[#272822]', text: 'text-[#f8f8f2]', prompt: 'text-[#a6e22e]', workflow: 'text-[#66d9ef]' }
+};
+
+const WORKFLOW_LOG_LEVELS: Record<WorkflowStatus, LogLevel> = {
+  idle: 'info',
+  running: 'info',
+  success: 'success',
+  failed: 'error',
+  cancelled: 'warning'
+};
+const DEFAULT_WORKSPACE_NAME = 'Default Workspace';
+
+const createInitialState = (): ProjectState => ({
+  activeIDE: IDEType.VSCODE,
+  files: INITIAL_FILES,
+  currentFileId: '2',
+  openFileIds: ['2'],
+  splitFileId: null,
+  expandedFolderIds: ['1', '4', '5'],
+  isTerminalOpen: true,
+  activePanelTab: 'terminal',
+  isAISidebarOpen: true,
+  activeSidebarTab: 'explorer',
+  workflows: INITIAL_WORKFLOWS,
+  terminals: INITIAL_TERMINALS,
+  activeTerminalId: 'term-1',
+  terminalPanes: ['term-1'],
+  terminalHeight: DEFAULT_TERMINAL_HEIGHT,
+  terminalTheme: 'github-dark',
+  tasks: INITIAL_TASKS,
+  chatThreads: [],
+  activeChatThreadId: null,
+  auditReports: [],
+  gasReports: [],
+  networks: DEFAULT_NETWORKS,
+  activeNetworkId: LOCAL_NETWORK.id,
+  accountSource: 'local'
+});
 
 const App: React.FC = () => {
-  const [state, setState] = useState<ProjectState>({
-    activeIDE: IDEType.VSCODE,
-    files: INITIAL_FILES,
-    currentFileId: '2',
-    isTerminalOpen: true,
-    isAISidebarOpen: true,
-    activeSidebarTab: 'explorer',
-    workflows: INITIAL_WORKFLOWS,
-    terminals: INITIAL_TERMINALS,
-    activeTerminalId: 'term-1',
-    terminalTheme: 'github-dark',
-    tasks: INITIAL_TASKS
-  });
+  const [state, setState] = useState<ProjectState>(createInitialState);
 
-  const [aiResponse, setAiResponse] = useState<any>(null);
+  const [aiSettings, setAiSettings] = useState<AISettings>(getAISettings);
+  const [isAISettingsOpen, setIsAISettingsOpen] = useState(false);
   const [isAiLoading, setIsAiLoading] = useState(false);
+  const [editReview, setEditReview] = useState<EditReview | null>(null);
   const [chatInput, setChatInput] = useState('');
-  const [chatMessages, setChatMessages] = useState<{role: string, text: string}[]>([]);
-  const [commandInput, setCommandInput] = useState('');
-  const [suggestion, setSuggestion] = useState('');
+  // The assistant message currently streaming in; the stop button aborts it.
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  // Context attached to the next question with @-mentions.
+  const [chatContext, setChatContext] = useState<ChatContextItem[]>([]);
+  // Terminals with a command line still running, which Ctrl+C can interrupt.
+  const [runningTerminalIds, setRunningTerminalIds] = useState<string[]>([]);
+  const [logFilter, setLogFilter] = useState<LogFilter>(EMPTY_LOG_FILTER);
+  const [showTimestamps, setShowTimestamps] = useState(false);
   const [newTaskText, setNewTaskText] = useState('');
+  const [buffers, setBuffers] = useState<Record<string, EditorBuffer>>({});
+  const [focusedPane, setFocusedPane] = useState<'main' | 'split'>('main');
+  const [draggedTabId, setDraggedTabId] = useState<string | null>(null);
+  const [workspaceId, setWorkspaceId] = useState(DEFAULT_WORKSPACE_ID);
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('loading');
+  const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
+  const [compilation, setCompilation] = useState<CompilationResult | null>(null);
+  const [isCompiling, setIsCompiling] = useState(false);
+  const [sandboxAccounts, setSandboxAccounts] = useState<SandboxAccount[]>([]);
+  const [deployedContracts, setDeployedContracts] = useState<DeployedContract[]>([]);
+  const [sandboxResults, setSandboxResults] = useState<SandboxTxResult[]>([]);
+  const [isSandboxBusy, setIsSandboxBusy] = useState(false);
+  const [tests, setTests] = useState<TestCase[]>([]);
+  const [isTesting, setIsTesting] = useState(false);
+  const [isDiscoveringTests, setIsDiscoveringTests] = useState(false);
+  const [networkHealth, setNetworkHealth] = useState<Record<string, NetworkHealth>>({});
+  const [networkAccounts, setNetworkAccounts] = useState<NetworkAccount[]>([]);
+  const [isNetworkBusy, setIsNetworkBusy] = useState(false);
+  const [deploymentPlan, setDeploymentPlan] = useState<DeploymentPlan | null>(null);
+  const [isSendingDeployment, setIsSendingDeployment] = useState(false);
+  const [networkFrom, setNetworkFrom] = useState<Hex | ''>('');
+  const [networkContracts, setNetworkContracts] = useState<NetworkContract[]>([]);
+  const [interactionResults, setInteractionResults] = useState<InteractionResult[]>([]);
   
-  const terminalLogsRef = useRef<HTMLDivElement>(null);
-  const commandInputRef = useRef<HTMLInputElement>(null);
+  const workflowAbortRef = useRef<Record<string, AbortController>>({});
+  const commandAbortRef = useRef<Record<string, AbortController>>({});
+  const chatAbortRef = useRef<AbortController | null>(null);
+  const testAbortRef = useRef<AbortController | null>(null);
+  const chatScrollRef = useRef<HTMLDivElement>(null);
+  // Node terminals keep their REPL worker (and its global scope) here, created on first input.
+  const replsRef = useRef<Record<string, Repl>>({});
 
+  // Restore the last active workspace before autosave is allowed to overwrite it.
   useEffect(() => {
-    if (terminalLogsRef.current) {
-      terminalLogsRef.current.scrollTop = terminalLogsRef.current.scrollHeight;
+    (async () => {
+      try {
+        const id = await getActiveWorkspaceId();
+        const restored = await loadWorkspace(id, createInitialState());
+        if (restored) {
+          setState(restored);
+          setWorkspaceId(id);
+        } else {
+          await saveWorkspace(DEFAULT_WORKSPACE_ID, DEFAULT_WORKSPACE_NAME, state);
+        }
+        setWorkspaces(await listWorkspaces());
+        setSaveStatus('saved');
+      } catch (err) {
+        setSaveStatus('error');
+        addLog('Workspace Error: Persistent storage is unavailable, changes will not be saved.', { level: 'error' });
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    loadAISettings(DEFAULT_AI_SETTINGS)
+      .then(settings => {
+        configureAI(settings);
+        setAiSettings(settings);
+      })
+      .catch(() => {
+        // Storage problems are already reported by the workspace restore; keep the defaults.
+      });
+  }, []);
+
+  const workspaceName = workspaces.find(w => w.id === workspaceId)?.name || DEFAULT_WORKSPACE_NAME;
+
+  useEffect(() => {
+    if (saveStatus === 'loading') return;
+    setSaveStatus('saving');
+    const timer = setTimeout(() => {
+      saveWorkspace(workspaceId, workspaceName, state)
+        .then(() => setSaveStatus('saved'))
+        .catch(() => setSaveStatus('error'));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [state]);
+
+  const confirmDiscardBuffers = () => {
+    const unsaved = state.openFileIds.filter(id => isDirty(buffers[id])).length;
+    return !unsaved || window.confirm(`${unsaved} file(s) have unsaved changes. Discard them?`);
+  };
+
+  const activateWorkspace = async (id: string, next: ProjectState) => {
+    setSaveStatus('loading');
+    await saveWorkspace(workspaceId, workspaceName, state);
+    setBuffers({});
+    setFocusedPane('main');
+    setState(next);
+    setWorkspaceId(id);
+    await setActiveWorkspaceId(id);
+    setWorkspaces(await listWorkspaces());
+    setSaveStatus('saved');
+  };
+
+  const switchWorkspace = async (id: string) => {
+    if (id === workspaceId || !confirmDiscardBuffers()) return;
+    try {
+      const next = await loadWorkspace(id, createInitialState());
+      if (next) await activateWorkspace(id, next);
+    } catch (err) {
+      setSaveStatus('error');
+      addLog('Workspace Error: Failed to switch workspace.', { level: 'error' });
+    }
+  };
+
+  const createWorkspace = async () => {
+    const name = window.prompt('Workspace name:')?.trim();
+    if (!name || !confirmDiscardBuffers()) return;
+    const id = createId('ws');
+    const blank: ProjectState = {
+      ...createInitialState(),
+      files: [],
+      currentFileId: null,
+      openFileIds: [],
+      expandedFolderIds: [],
+      tasks: []
+    };
+    try {
+      await saveWorkspace(id, name, blank);
+      await activateWorkspace(id, blank);
+    } catch (err) {
+      setSaveStatus('error');
+      addLog('Workspace Error: Failed to create workspace.', { level: 'error' });
     }
-  }, [state.terminals, state.activeTerminalId]);
+  };
+
+  const removeWorkspace = async () => {
+    if (workspaces.length <= 1 || !window.confirm(`Delete workspace "${workspaceName}"? This cannot be undone.`)) return;
+    try {
+      const fallback = workspaces.find(w => w.id !== workspaceId)!;
+      const next = await loadWorkspace(fallback.id, createInitialState());
+      await deleteWorkspace(workspaceId);
+      setBuffers({});
+      setState(next || createInitialState());
+      setWorkspaceId(fallback.id);
+      await setActiveWorkspaceId(fallback.id);
+      setWorkspaces(await listWorkspaces());
+    } catch (err) {
+      setSaveStatus('error');
+      addLog('Workspace Error: Failed to delete workspace.', { level: 'error' });
+    }
+  };
 
-  const addLog = (msg: string, termId?: string) => {
-    const targetId = termId || state.activeTerminalId;
+  // Multi-line text becomes one entry per line, since terminal rows never wrap.
+  const addLog = (text: string, { terminalId, ...options }: LogOptions & { terminalId?: string } = {}) => {
+    const entries = text.split('\n').map(line => createLogEntry(line, options));
+    const targetId = terminalId || state.activeTerminalId;
     setState(s => ({
       ...s,
-      terminals: s.terminals.map(t => t.id === targetId ? { ...t, logs: [...t.logs, msg] } : t)
+      terminals: s.terminals.map(t => t.id === targetId
+        ? { ...t, logs: entries.reduce((logs, entry) => appendLog(logs, entry, t.scrollback), t.logs) }
+        : t)
     }));
   };
 
   const activeTerminal = state.terminals.find(t => t.id === state.activeTerminalId);
+  const visibleLogs = useMemo(() => filterLogs(activeTerminal?.logs || [], logFilter), [activeTerminal?.logs, logFilter]);
 
-  const activeFile = useCallback(() => {
-    const findFile = (files: FileEntry[], id: string): FileEntry | undefined => {
-      for (const f of files) {
-        if (f.id === id) return f;
-        if (f.children) {
-          const found = findFile(f.children, id);
-          if (found) return found;
-        }
+  const copyTerminalLog = async () => {
+    try {
+      await navigator.clipboard.writeText(visibleLogs.map(plainText).join('\n'));
+    } catch {
+      addLog('Terminal Error: Clipboard access was denied.', { level: 'error' });
+    }
+  };
+
+  const setScrollback = (scrollback: number) => setState(s => ({
+    ...s,
+    terminals: s.terminals.map(t => t.id === s.activeTerminalId ? { ...t, scrollback, logs: t.logs.slice(-scrollback) } : t)
+  }));
+
+  const saveTerminalLog = () => {
+    if (!activeTerminal) return;
+    const { files, path } = writeLogFile(state.files, activeTerminal.name, visibleLogs);
+    const file = findByPath(files, path);
+    setState(s => ({ ...s, files }));
+    if (file) openFile(file.id);
+    addLog(`Saved ${visibleLogs.length} line(s) to ${path.join('/')}`, { level: 'success' });
+  };
+
+  const fileIndex = useMemo(() => indexFiles(state.files), [state.files]);
+
+  // The file in whichever editor pane last had focus; drives saving, audits and the status bar.
+  const activeFile = useMemo(() => {
+    const id = focusedPane === 'split' && state.splitFileId ? state.splitFileId : state.currentFileId;
+    return id ? fileIndex.get(id) : undefined;
+  }, [focusedPane, state.splitFileId, state.currentFileId, fileIndex]);
+
+  const bufferFor = (file: FileEntry) => buffers[file.id] || createBuffer(file);
+  const activeBuffer = activeFile ? bufferFor(activeFile) : undefined;
+  const caret = activeBuffer ? caretPosition(activeBuffer.content, activeBuffer.selection.end) : null;
+
+  const updateBuffer = (file: FileEntry, fn: (b: EditorBuffer) => EditorBuffer) => {
+    setBuffers(b => ({ ...b, [file.id]: fn(b[file.id] || createBuffer(file)) }));
+  };
+
+  const handleEditorChange = (file: FileEntry, content: string, selection: EditorSelection) => {
+    updateBuffer(file, b => applyEdit(b, content, selection));
+  };
+
+  const saveFile = (file: FileEntry) => {
+    const buffer = buffers[file.id];
+    if (!buffer || !isDirty(buffer)) return;
+    setState(s => ({ ...s, files: updateFile(s.files, file.id, { content: buffer.content }) }));
+    setBuffers(b => ({ ...b, [file.id]: markSaved(buffer) }));
+  };
+
+  const openFile = (id: string) => {
+    const pane = focusedPane === 'split' && state.splitFileId ? 'split' : 'main';
+    setState(s => ({
+      ...s,
+      files: updateFile(s.files, id, { isOpen: true }),
+      openFileIds: s.openFileIds.includes(id) ? s.openFileIds : [...s.openFileIds, id],
+      ...(pane === 'split' ? { splitFileId: id } : { currentFileId: id })
+    }));
+  };
+
+  const closeFile = (id: string, e?: React.MouseEvent) => {
+    e?.stopPropagation();
+    const file = fileIndex.get(id);
+    if (isDirty(buffers[id]) && !window.confirm(`${file?.name || 'This file'} has unsaved changes. Close and discard them?`)) return;
+
+    const index = state.openFileIds.indexOf(id);
+    const remaining = state.openFileIds.filter(f => f !== id);
+    const neighbour = remaining[Math.min(index, remaining.length - 1)] || null;
+    setState(s => ({
+      ...s,
+      files: updateFile(s.files, id, { isOpen: false }),
+      openFileIds: remaining,
+      currentFileId: s.currentFileId === id ? neighbour : s.currentFileId,
+      splitFileId: s.splitFileId === id ? null : s.splitFileId
+    }));
+    setBuffers(b => {
+      const { [id]: _discarded, ...rest } = b;
+      return rest;
+    });
+  };
+
+  const moveTab = (draggedId: string, targetId: string) => {
+    if (draggedId === targetId) return;
+    setState(s => {
+      const ids = s.openFileIds.filter(f => f !== draggedId);
+      ids.splice(ids.indexOf(targetId) + (s.openFileIds.indexOf(draggedId) < s.openFileIds.indexOf(targetId) ? 1 : 0), 0, draggedId);
+      return { ...s, openFileIds: ids };
+    });
+  };
+
+  const toggleSplit = () => {
+    setState(s => ({ ...s, splitFileId: s.splitFileId ? null : s.currentFileId }));
+    setFocusedPane(state.splitFileId ? 'main' : 'split');
+  };
+
+  const toggleFolder = (id: string, expanded?: boolean) => {
+    setState(s => {
+      const isExpanded = s.expandedFolderIds.includes(id);
+      const next = expanded ?? !isExpanded;
+      if (next === isExpanded) return s;
+      return { ...s, expandedFolderIds: next ? [...s.expandedFolderIds, id] : s.expandedFolderIds.filter(f => f !== id) };
+    });
+  };
+
+  const createEntry = (parentId: string | null, name: string, type: FileEntry['type']) => {
+    const error = validateName(state.files, parentId, name);
+    if (error) return error;
+    const entry: FileEntry = type === 'folder'
+      ? { id: createId('dir'), name, type, children: [] }
+      : { id: createId('file'), name, type, language: inferLanguage(name), content: '' };
+    setState(s => ({ ...s, files: insertEntry(s.files, parentId, entry) }));
+    if (type === 'file') openFile(entry.id);
+    return null;
+  };
+
+  const renameFileEntry = (id: string, name: string) => {
+    const entry = fileIndex.get(id);
+    if (!entry || entry.name === name) return null;
+    const error = validateName(state.files, findParent(state.files, id)?.id || null, name, id);
+    if (error) return error;
+    setState(s => ({ ...s, files: renameEntry(s.files, id, name) }));
+    return null;
+  };
+
+  const moveFileEntry = (id: string, targetFolderId: string | null) => {
+    const entry = fileIndex.get(id);
+    if (!entry) return null;
+    if ((findParent(state.files, id)?.id || null) === targetFolderId) return null;
+    if (targetFolderId && isDescendantOf(state.files, targetFolderId, id)) return `Cannot move "${entry.name}" into itself.`;
+    const error = validateName(state.files, targetFolderId, entry.name);
+    if (error) return error;
+    setState(s => ({ ...s, files: moveEntry(s.files, id, targetFolderId) }));
+    return null;
+  };
+
+  const deleteEntry = (id: string) => {
+    const entry = fileIndex.get(id);
+    if (!entry) return;
+    const ids = collectIds(entry);
+    const unsaved = ids.filter(f => isDirty(buffers[f])).length;
+    const message = entry.type === 'folder'
+      ? `Delete folder "${entry.name}" and its ${ids.length - 1} item(s)?`
+      : `Delete "${entry.name}"?`;
+    if (!window.confirm(unsaved ? `${message} ${unsaved} file(s) have unsaved changes.` : message)) return;
+
+    setState(s => {
+      const openFileIds = s.openFileIds.filter(f => !ids.includes(f));
+      return {
+        ...s,
+        files: removeEntry(s.files, id),
+        openFileIds,
+        expandedFolderIds: s.expandedFolderIds.filter(f => !ids.includes(f)),
+        currentFileId: s.currentFileId && ids.includes(s.currentFileId) ? openFileIds[0] || null : s.currentFileId,
+        splitFileId: s.splitFileId && ids.includes(s.splitFileId) ? null : s.splitFileId,
+        auditReports: s.auditReports.filter(r => !ids.includes(r.fileId))
+      };
+    });
+    setBuffers(b => Object.fromEntries(Object.entries(b).filter(([f]) => !ids.includes(f))));
+  };
+
+  const applyImport = ({ files, summary }: { files: FileEntry[], summary: ImportSummary }) => {
+    setState(s => {
+      let next = s.files;
+      files.forEach(entry => { next = insertEntry(next, null, { ...entry, name: uniqueName(next, null, entry.name) }); });
+      return { ...s, files: next, expandedFolderIds: [...s.expandedFolderIds, ...files.filter(f => f.type === 'folder').map(f => f.id)] };
+    });
+    setImportSummary(summary);
+    addLog(`Imported ${summary.importedFiles} file(s) and ${summary.importedFolders} folder(s) from ${summary.source}.`, { level: 'success' });
+    summary.skipped.forEach(({ path, reason }) => addLog(`  skipped ${path} (${reason})`, { level: 'warning' }));
+  };
+
+  const handleImport = async (load: () => Promise<{ files: FileEntry[], summary: ImportSummary }>) => {
+    try {
+      applyImport(await load());
+    } catch (err) {
+      addLog(`Import Error: ${err instanceof Error ? err.message : 'Failed to read archive.'}`, { level: 'error' });
+    }
+  };
+
+  const handleExport = (id: string | null) => {
+    const folder = id ? fileIndex.get(id) : undefined;
+    const entries = folder ? [folder] : state.files;
+    const name = (folder?.name || workspaceName).replace(/[^\w.-]+/g, '-');
+    downloadBlob(exportZip(entries), `${name}.zip`);
+    addLog(`Exported ${folder ? `${folder.name}/` : 'workspace'} to ${name}.zip`, { level: 'success' });
+  };
+
+  const saveRef = useRef<() => void>(() => {});
+  saveRef.current = () => {
+    if (activeFile) saveFile(activeFile);
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 's') {
+        e.preventDefault();
+        saveRef.current();
       }
-      return undefined;
     };
-    return state.currentFileId ? findFile(state.files, state.currentFileId) : null;
-  }, [state.currentFileId, state.files]);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // Shell commands read and write the tree through this ref so a script sees its own earlier changes.
+  const filesRef = useRef(state.files);
+  filesRef.current = state.files;
+
+  // One host per command, so `clear` empties the terminal the command runs in rather than the focused one.
+  const shellHostFor = (terminalId: string): ShellHost => ({
+    getFiles: () => filesRef.current,
+    setFiles: files => {
+      filesRef.current = files;
+      setState(s => ({ ...s, files }));
+      // Open editors without local edits follow content the shell rewrote.
+      setBuffers((b: Record<string, EditorBuffer>) => Object.fromEntries(Object.entries(b).map(([id, buffer]) => {
+        const file = findFile(files, id);
+        return [id, file && !isDirty(buffer) && file.content !== buffer.savedContent ? createBuffer(file) : buffer];
+      })));
+    },
+    closeFiles: ids => {
+      setState(s => {
+        const openFileIds = s.openFileIds.filter(f => !ids.includes(f));
+        return {
+          ...s,
+          openFileIds,
+          expandedFolderIds: s.expandedFolderIds.filter(f => !ids.includes(f)),
+          currentFileId: s.currentFileId && ids.includes(s.currentFileId) ? openFileIds[0] || null : s.currentFileId,
+          splitFileId: s.splitFileId && ids.includes(s.splitFileId) ? null : s.splitFileId
+        };
+      });
+      setBuffers(b => Object.fromEntries(Object.entries(b).filter(([f]) => !ids.includes(f))));
+    },
+    clear: () => clearTerminal(terminalId),
+    setTheme: theme => setState(s => ({ ...s, terminalTheme: theme })),
+    compile: async () => !!(await handleCompile())?.success,
+    deploy: () => deployWorkspace(),
+    test: signal => runTests(undefined, signal),
+    audit: options => handleAnalyze(options),
+    getNetwork: () => ({ network: activeNetwork, source: state.accountSource })
+  });
+
+  const clearTerminal = (terminalId: string) => setState(s => ({
+    ...s,
+    terminals: s.terminals.map(t => t.id === terminalId ? { ...t, logs: [] } : t)
+  }));
 
-  const handleCommand = async (cmd: string) => {
-    const cleanCmd = cmd.trim().toLowerCase();
-    addLog(`soluf-th@dev:~$ ${cmd}`);
+  // Runs one command line and resolves with its exit code. Without a session it runs in the
+  // given (by default the active) terminal and updates that terminal's working directory.
+  // `output` also receives the prompt line and everything the command prints, e.g. for a workflow step's log.
+  const executeCommand = async (
+    cmd: string,
+    { session, signal, terminalId = state.activeTerminalId, output }: {
+      session?: ShellSession, signal?: AbortSignal, terminalId?: string, output?: (line: string) => void
+    } = {}
+  ): Promise<number> => {
+    const terminal = state.terminals.find(t => t.id === terminalId);
+    const shellSession = session || { cwd: terminal?.cwd || '' };
+    // Commands run by a workflow step are attributed to the workflow, prompt line included.
+    const source = session ? 'workflow' : 'shell';
+    addLog(cmd, { source: session ? 'workflow' : 'command', prompt: promptFor(shellSession.cwd), terminalId });
+    output?.(`${promptFor(shellSession.cwd)} ${cmd}`);
+    const code = await runCommandLine(cmd, {
+      session: shellSession,
+      host: shellHostFor(terminalId),
+      signal,
+      print: line => {
+        addLog(line, { source, terminalId });
+        output?.(line);
+      },
+      printError: line => {
+        addLog(line, { level: 'error', source, terminalId });
+        output?.(line);
+      }
+    });
+    if (!session && shellSession.cwd !== terminal?.cwd) {
+      setState(s => ({ ...s, terminals: s.terminals.map(t => t.id === terminalId ? { ...t, cwd: shellSession.cwd } : t) }));
+    }
+    return code;
+  };
 
-    if (cleanCmd === 'clear') {
+  // A Node terminal's input goes to its REPL worker; `.help` and `.clear` are handled here.
+  const evaluateInRepl = async (terminalId: string, code: string, signal: AbortSignal) => {
+    addLog(code, { source: 'command', prompt: '>', terminalId });
+    switch (code.trim()) {
+      case '':
+        return;
+      case '.help':
+        REPL_HELP.forEach(line => addLog(line, { source: 'shell', terminalId }));
+        return;
+      case '.clear':
+        replsRef.current[terminalId]?.reset();
+        addLog('Clearing context...', { source: 'shell', terminalId });
+        return;
+    }
+    const repl = replsRef.current[terminalId] ||= createRepl();
+    await repl.evaluate(code, {
+      print: line => addLog(line, { source: 'shell', terminalId }),
+      printError: line => addLog(line, { level: 'error', source: 'shell', terminalId })
+    }, signal);
+  };
+
+  // An AI terminal sends each line to the assistant with the active file as context. The request
+  // itself cannot be cancelled, so Ctrl+C just stops waiting for it.
+  const askInTerminal = async (terminalId: string, question: string, signal: AbortSignal) => {
+    addLog(question, { source: 'command', prompt: 'ai>', terminalId });
+    if (!question.trim()) return;
+    if (question.trim() === '/clear') return clearTerminal(terminalId);
+    try {
+      const aborted = new Promise<null>(resolve => signal.addEventListener('abort', () => resolve(null), { once: true }));
+      const response = await Promise.race([chatWithAI(question, activeFile?.content || ''), aborted]);
+      if (response !== null) addLog(response || '(no response)', { source: 'ai', terminalId });
+    } catch (err) {
+      addLog(`AI Error: Failed to generate response.${err instanceof Error ? ` ${err.message}` : ''}`, { level: 'error', source: 'ai', terminalId });
+    }
+  };
+
+  const handleCommand = async (terminal: TerminalInstance, cmd: string) => {
+    const terminalId = terminal.id;
+    if (cmd.trim()) {
       setState(s => ({
         ...s,
-        terminals: s.terminals.map(t => t.id === s.activeTerminalId ? { ...t, logs: [] } : t)
+        terminals: s.terminals.map(t => t.id === terminalId && t.history[t.history.length - 1] !== cmd
+          ? { ...t, history: [...t.history, cmd].slice(-MAX_COMMAND_HISTORY) }
+          : t)
       }));
-    } else if (cleanCmd === 'ls') {
-      addLog('contracts/  .github/  README.md  package.json');
-    } else if (cleanCmd === 'help') {
-      addLog('Available commands: help, clear, ls, npm test, npm deploy, audit, whoami, theme [monokai|cyberpunk|github-dark]');
-    } else if (cleanCmd === 'whoami') {
-      addLog('soluf-th-developer-agent-01');
-    } else if (cleanCmd === 'audit') {
-      handleAnalyze();
-    } else if (cleanCmd === 'npm test') {
-      addLog('Running tests...');
-      await new Promise(r => setTimeout(r, 1000));
-      addLog('✓ Storage.sol compiled');
-      addLog('✓ Storage.sol tests passed');
-      addLog('Tests completed successfully.');
-    } else if (cleanCmd.startsWith('theme ')) {
-      const themeName = cleanCmd.split(' ')[1] as TerminalTheme;
-      if (['monokai', 'cyberpunk', 'github-dark'].includes(themeName)) {
-        setState(s => ({ ...s, terminalTheme: themeName }));
-        addLog(`Terminal theme switched to ${themeName}`);
+    }
+    const controller = new AbortController();
+    commandAbortRef.current[terminalId] = controller;
+    setRunningTerminalIds(ids => [...ids, terminalId]);
+    try {
+      if (terminal.profile === 'node') await evaluateInRepl(terminalId, cmd, controller.signal);
+      else if (terminal.profile === 'ai') await askInTerminal(terminalId, cmd, controller.signal);
+      else await executeCommand(cmd, { terminalId, signal: controller.signal });
+    } finally {
+      delete commandAbortRef.current[terminalId];
+      setRunningTerminalIds(ids => ids.filter(id => id !== terminalId));
+    }
+  };
+
+  // Ctrl+C: stops the running command, or abandons the typed line like bash does.
+  const interruptCommand = (terminal: TerminalInstance, line: string) => {
+    const controller = commandAbortRef.current[terminal.id];
+    if (controller) {
+      controller.abort();
+      addLog('^C', { source: 'shell', terminalId: terminal.id });
+    } else {
+      addLog(`${line}^C`, { source: 'command', prompt: terminalPrompt(terminal), terminalId: terminal.id });
+    }
+  };
+
+  // The saved tree with any unsaved editor changes layered on top, so tools see what the user sees.
+  const workspaceSnapshot = () =>
+    state.openFileIds.reduce((files, id) => isDirty(buffers[id]) ? updateFile(files, id, { content: buffers[id].content }) : files, state.files);
+
+  const handleCompile = async () => {
+    const files = workspaceSnapshot();
+    const sources = solidityFiles(files);
+    if (!sources.length) {
+      addLog('Compiler: No Solidity sources found in the workspace.', { level: 'warning', source: 'compiler' });
+      return null;
+    }
+    setIsCompiling(true);
+    addLog(`Compiler: Compiling ${sources.length} Solidity file(s)...`, { source: 'compiler' });
+    try {
+      const result = await compileSolidity(files);
+      setCompilation(result);
+      const errors = result.diagnostics.filter(d => d.severity === 'error').length;
+      const warnings = result.diagnostics.filter(d => d.severity === 'warning').length;
+      if (result.success) {
+        setState(s => ({ ...s, files: writeArtifacts(s.files, result) }));
+        addLog(`✓ Compiled ${result.contracts.length} contract(s) with solc ${result.compilerVersion.split('+')[0]} (${warnings} warning(s)). Artifacts written to ${ARTIFACTS_DIR}/`, { level: 'success', source: 'compiler' });
       } else {
-        addLog(`Unknown theme: ${themeName}`);
+        addLog(`Compiler Error: Compilation failed with ${errors} error(s) and ${warnings} warning(s). See Problems panel.`, { level: 'error', source: 'compiler' });
+      }
+      return result;
+    } catch (err) {
+      addLog(`Compiler Error: ${err instanceof Error ? err.message : 'Failed to run solc.'}`, { level: 'error', source: 'compiler' });
+      return null;
+    } finally {
+      setIsCompiling(false);
+    }
+  };
+
+  const revealLine = (file: FileEntry, line: number, column = 1) => {
+    openFile(file.id);
+    updateBuffer(file, b => {
+      const offset = offsetOf(b.content, line, column);
+      return { ...b, selection: { start: offset, end: offset } };
+    });
+  };
+
+  const revealDiagnostic = (d: Diagnostic) => {
+    const file = fileIndex.get(d.fileId);
+    if (file) revealLine(file, d.line, d.column);
+  };
+
+  // Workflow definitions are derived from the saved files under .github/workflows.
+  const workflowFiles = useMemo(() => loadWorkflows(state.files), [state.files]);
+
+  useEffect(() => {
+    setState(s => ({ ...s, workflows: syncWorkflowRuns(s.workflows, workflowFiles.runs) }));
+  }, [workflowFiles]);
+
+  // Audit findings are anchored to the text in the editor, so they follow unsaved edits.
+  const auditFindings = useMemo(
+    () => auditDiagnostics(state.auditReports, fileIndex, bufferFor, file => pathOf(state.files, file.id) || file.name),
+    [state.auditReports, fileIndex, buffers]
+  );
+  const activeAuditReport = activeFile ? latestReport(state.auditReports, activeFile.id) : undefined;
+
+  const setAuditStatus = (issueId: string, status: AuditIssueStatus) =>
+    setState(s => ({ ...s, auditReports: setAuditIssueStatus(s.auditReports, issueId, status) }));
+
+  const diagnostics = [...(compilation?.diagnostics || []), ...workflowFiles.diagnostics, ...auditFindings];
+
+  const refreshTests = async () => {
+    const files = workspaceSnapshot();
+    setIsDiscoveringTests(true);
+    try {
+      const discovered = await discoverTests(files);
+      setTests((t: TestCase[]) => mergeDiscovered(t, discovered));
+      return { files, discovered };
+    } finally {
+      setIsDiscoveringTests(false);
+    }
+  };
+
+  // Runs the given tests (all of them by default) and resolves with whether none failed.
+  // Solidity tests need a fresh compile; JS tests deploy from the same compiler output.
+  // Only complete runs record a gas report, so consecutive reports measure the same calls.
+  const runTests = async (ids?: string[], signal?: AbortSignal) => {
+    setIsTesting(true);
+    try {
+      const { files, discovered } = await refreshTests();
+      const selected = discovered.filter(t => isRunnable(t) && (!ids || ids.includes(t.id)));
+      discovered.filter(t => !isRunnable(t)).forEach(t => addLog(formatTestResult(t), { level: 'error', source: 'sandbox' }));
+      if (!selected.length) {
+        addLog('Tests: No tests found. Add a *.t.sol contract with test* functions, or a *.test.js / *.test.ts file.', { level: 'warning', source: 'sandbox' });
+        return discovered.every(isRunnable);
       }
-    } else if (cleanCmd === 'npm deploy') {
-      runWorkflow('wf2');
-    } else if (cleanCmd !== '') {
-      addLog(`Command not found: ${cleanCmd}`);
-    }
-    setCommandInput('');
-    setSuggestion('');
-  };
-
-  const handleCommandKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter') {
-      handleCommand(commandInput);
-    } else if (e.key === 'Tab') {
-      e.preventDefault();
-      if (suggestion) {
-        setCommandInput(suggestion);
-        setSuggestion('');
+      const results = new Map<string, TestCase>();
+      const report = (test: TestCase) => {
+        if (test.status !== 'running') {
+          results.set(test.id, test);
+          addLog(formatTestResult(test), { level: test.status === 'failed' ? 'error' : 'info', source: 'sandbox' });
+        }
+        setTests((t: TestCase[]) => t.map(existing => existing.id === test.id ? test : existing));
+      };
+      const pending = new Set(selected.map(t => t.id));
+      setTests((t: TestCase[]) => t.map(test => pending.has(test.id) ? { ...test, status: 'pending', error: undefined } : test));
+
+      addLog(`Running ${selected.length} test(s)...`, { source: 'sandbox' });
+      let contracts: CompiledContract[] = [];
+      if (solidityFiles(files).length) {
+        const result = await handleCompile();
+        if (!result?.success) {
+          selected.forEach(t => report({ ...t, status: 'failed', error: 'Compilation failed; see the Problems panel.' }));
+          return false;
+        }
+        contracts = result.contracts;
+      }
+      const samples: GasSample[] = [];
+      const onGas = (sample: GasSample) => { samples.push(sample); };
+      try {
+        await runSolidityTests(selected.filter(t => t.kind === 'solidity'), contracts, report, signal, onGas);
+        await runJsTests(selected.filter(t => t.kind === 'js'), files, contracts, report, (text, error) => addLog(text, { level: error ? 'error' : 'info', source: 'sandbox' }), signal, onGas);
+      } catch (err) {
+        addLog(`Sandbox Error: ${err instanceof Error ? err.message : 'The test run failed.'}`, { level: 'error', source: 'sandbox' });
+        selected.filter(t => !results.has(t.id)).forEach(t => report({ ...t, status: 'failed', error: 'The test run failed.' }));
       }
+
+      const finished = [...results.values()];
+      const failed = finished.filter(t => t.status === 'failed').length;
+      const passed = finished.filter(t => t.status === 'passed').length;
+      const skipped = finished.length - failed - passed;
+      addLog(
+        `\x1b[1mTest result: ${failed ? 'FAILED' : 'ok'}. ${passed} passed; ${failed} failed; ${skipped} skipped\x1b[0m`,
+        { level: failed ? 'error' : 'success', source: 'sandbox' }
+      );
+      if (!ids && !signal?.aborted && samples.length) recordGasReport(buildGasReport(samples));
+      return !failed && !signal?.aborted;
+    } catch (err) {
+      addLog(`Sandbox Error: ${err instanceof Error ? err.message : 'Failed to discover tests.'}`, { level: 'error', source: 'sandbox' });
+      return false;
+    } finally {
+      setIsTesting(false);
     }
   };
 
-  const onCommandChange = (val: string) => {
-    setCommandInput(val);
-    if (val.trim()) {
-      const match = COMMANDS.find(c => c.startsWith(val.toLowerCase()));
-      setSuggestion(match || '');
+  const recordGasReport = (gasReport: GasReport) => {
+    const baseline = state.gasReports[state.gasReports.length - 1];
+    setState(s => ({ ...s, gasReports: addGasReport(s.gasReports, gasReport) }));
+    if (!baseline) {
+      addLog('Gas report recorded; the next full run will be compared against it (see the Gas panel).', { source: 'sandbox' });
+      return;
+    }
+    const regressions = compareGasReports(gasReport, baseline).filter(c => c.after > c.before);
+    if (!regressions.length) {
+      addLog('Gas: no regressions against the previous run.', { level: 'success', source: 'sandbox' });
+      return;
+    }
+    addLog(`Gas: ${regressions.length} function(s) cost more than in the previous run (see the Gas panel):`, { level: 'warning', source: 'sandbox' });
+    regressions.slice(0, 5).forEach(c => addLog(
+      `  ${c.contract}.${c.fn}: ${c.before.toLocaleString()} → ${c.after.toLocaleString()} (+${(c.after - c.before).toLocaleString()})`,
+      { level: 'warning', source: 'sandbox' }
+    ));
+  };
+
+  const runTestsFromExplorer = async (ids?: string[]) => {
+    const controller = new AbortController();
+    testAbortRef.current = controller;
+    try {
+      await runTests(ids, controller.signal);
+    } finally {
+      testAbortRef.current = null;
+    }
+  };
+
+  const openTest = (test: TestCase) => {
+    const file = findByPath(state.files, test.path.split('/').filter(Boolean));
+    if (file) revealLine(file, test.line || 1);
+  };
+
+  useEffect(() => {
+    if (state.activeSidebarTab === 'tests' && !isTesting) {
+      refreshTests().catch(() => addLog('Sandbox Error: Failed to discover tests.', { level: 'error', source: 'sandbox' }));
+    }
+  }, [state.activeSidebarTab]);
+
+  const refreshSandboxAccounts = async () => setSandboxAccounts(await getSandboxAccounts());
+
+  useEffect(() => {
+    if (state.activeSidebarTab === 'deploy' && !sandboxAccounts.length) {
+      refreshSandboxAccounts().catch(() => addLog('Sandbox Error: Failed to start the local EVM.', { level: 'error', source: 'sandbox' }));
+    }
+  }, [state.activeSidebarTab]);
+
+  // Serialises sandbox work behind the busy flag and refreshes balances once it settles.
+  const runInSandbox = async <T,>(fn: () => Promise<T>): Promise<T | null> => {
+    setIsSandboxBusy(true);
+    try {
+      return await fn();
+    } catch (err) {
+      addLog(`Sandbox Error: ${err instanceof Error ? err.message : String(err)}`, { level: 'error', source: 'sandbox' });
+      return null;
+    } finally {
+      await refreshSandboxAccounts().catch(() => {});
+      setIsSandboxBusy(false);
+    }
+  };
+
+  const handleDeploy = (contract: CompiledContract, args: unknown[], from: Hex, value: bigint) => runInSandbox(async () => {
+    const { result, deployed } = await deployContract(contract, args, from, value);
+    setSandboxResults(r => [result, ...r]);
+    if (deployed) {
+      setDeployedContracts(d => [...d, deployed]);
+      addLog(`Sandbox: Deployed ${contract.name} at ${deployed.address} (gas used: ${result.gasUsed})`, { level: 'success', source: 'sandbox' });
     } else {
-      setSuggestion('');
+      addLog(`Sandbox Error: Deploying ${contract.name} failed: ${result.error}`, { level: 'error', source: 'sandbox' });
+    }
+    return deployed;
+  });
+
+  const handleSandboxCall = (contract: DeployedContract, fn: AbiFunction, args: unknown[], from: Hex, value: bigint) => runInSandbox(async () => {
+    const result = await callContract(contract, fn, args, from, value);
+    setSandboxResults(r => [result, ...r]);
+    if (!result.success) addLog(`Sandbox Error: ${contract.name}.${fn.name} ${result.error}`, { level: 'error', source: 'sandbox' });
+    else if (result.kind === 'call') addLog(`Sandbox: ${contract.name}.${fn.name} → ${formatValue(result.returnValue)}`, { source: 'sandbox' });
+    return result;
+  });
+
+  const handleResetSandbox = () => runInSandbox(async () => {
+    await resetSandbox();
+    setDeployedContracts([]);
+    setSandboxResults([]);
+    addLog('Sandbox: Chain reset. Test accounts are funded with 10000 ETH each.', { source: 'sandbox' });
+  });
+
+  const activeNetwork = state.networks.find(n => n.id === state.activeNetworkId) || state.networks[0] || LOCAL_NETWORK;
+  const networkDeployments = useMemo(() => readDeployments(state.files, activeNetwork), [state.files, activeNetwork]);
+  const networkSender = (networkAccounts.find(a => a.address === networkFrom) || networkAccounts[0])?.address;
+  const loadedNetworkContracts = networkContracts.filter(c => c.networkId === activeNetwork.id);
+  const activeHealth = networkHealth[activeNetwork.id];
+  const testKeyChain = state.accountSource === 'local' && activeHealth && !('error' in activeHealth) && !isLocalChain(activeHealth.chainId)
+    ? activeHealth.chainId
+    : undefined;
+  const networkError = (err: unknown) => err instanceof Error ? (err as { shortMessage?: string }).shortMessage || err.message : String(err);
+
+  // Checks the endpoint first; accounts are only listed once it answers.
+  const refreshNetwork = async (network = activeNetwork, source = state.accountSource) => {
+    setIsNetworkBusy(true);
+    setNetworkAccounts([]);
+    try {
+      const status = await probeNetwork(network);
+      setNetworkHealth((h: Record<string, NetworkHealth>) => ({ ...h, [network.id]: status }));
+      setNetworkAccounts(await listAccounts(network, source));
+    } catch (err) {
+      const error = networkError(err);
+      setNetworkHealth((h: Record<string, NetworkHealth>) => ({ ...h, [network.id]: { error } }));
+      addLog(`Network Error: ${network.name}: ${error}`, { level: 'error', source: 'network' });
+    } finally {
+      setIsNetworkBusy(false);
     }
   };
 
-  const handleAnalyze = async () => {
-    const file = activeFile();
-    if (!file || !file.content) return;
-    setIsAiLoading(true);
-    addLog(`AI: Analyzing ${file.name}...`);
+  useEffect(() => {
+    if (state.activeSidebarTab === 'networks') refreshNetwork();
+  }, [state.activeSidebarTab, state.activeNetworkId, state.accountSource]);
+
+  const addNetwork = (network: Omit<NetworkConfig, 'id'>) =>
+    setState(s => {
+      const added = { ...network, id: createId('net') };
+      return { ...s, networks: [...s.networks, added], activeNetworkId: added.id };
+    });
+
+  const removeNetwork = (id: string) =>
+    setState(s => ({
+      ...s,
+      networks: s.networks.filter(n => n.id !== id),
+      activeNetworkId: s.activeNetworkId === id ? LOCAL_NETWORK.id : s.activeNetworkId
+    }));
+
+  // Nothing is sent here: the plan (with its gas estimate) goes to the confirmation dialog.
+  const handleNetworkDeploy = async (contract: CompiledContract, args: unknown[], from: Hex, value: bigint) => {
+    setIsNetworkBusy(true);
     try {
-      const result = await analyzeCode(file.content, file.language || 'text');
-      setAiResponse(result);
-      addLog(`AI: Analysis complete for ${file.name}. Found ${result.issues.length} concerns.`);
+      setDeploymentPlan(await planDeployment(activeNetwork, state.accountSource, from, contract, args, value));
     } catch (err) {
-      addLog(`AI Error: Failed to analyze code.`);
+      addLog(`Network Error: Cannot deploy ${contract.name} to ${activeNetwork.name}: ${networkError(err)}`, { level: 'error', source: 'network' });
     } finally {
-      setIsAiLoading(false);
+      setIsNetworkBusy(false);
     }
   };
 
-  const handleChat = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!chatInput.trim()) return;
-    const userMsg = chatInput;
-    setChatMessages(prev => [...prev, { role: 'user', text: userMsg }]);
+  const confirmDeployment = async () => {
+    const plan = deploymentPlan;
+    if (!plan) return;
+    setIsSendingDeployment(true);
+    addLog(`Network: Deploying ${plan.contract.name} to ${plan.network.name} (chain ${plan.chainId}) from ${plan.from}...`, { source: 'network' });
+    try {
+      const { hash, address, gasUsed } = await sendDeployment(plan);
+      setState(s => ({
+        ...s,
+        files: recordDeployment(s.files, plan.network, {
+          contractName: plan.contract.name,
+          sourcePath: plan.contract.sourcePath,
+          address,
+          transactionHash: hash,
+          deployer: plan.from,
+          chainId: plan.chainId,
+          args: plan.args.map(formatValue),
+          gasUsed: gasUsed.toString(),
+          deployedAt: Date.now()
+        })
+      }));
+      addLog(`✓ Deployed ${plan.contract.name} at ${address} (tx ${hash}, gas used: ${gasUsed}). Recorded in ${registryPath(plan.network)}`, { level: 'success', source: 'network' });
+      setDeploymentPlan(null);
+      refreshNetwork(plan.network);
+    } catch (err) {
+      addLog(`Network Error: Deploying ${plan.contract.name} failed: ${networkError(err)}`, { level: 'error', source: 'network' });
+    } finally {
+      setIsSendingDeployment(false);
+    }
+  };
+
+  // Loading an address again replaces the earlier entry, e.g. to swap in a newer ABI.
+  const loadNetworkContract = (contract: NetworkContract) =>
+    setNetworkContracts(c => [
+      ...c.filter(existing => existing.networkId !== contract.networkId || existing.address.toLowerCase() !== contract.address.toLowerCase()),
+      contract
+    ]);
+
+  const interactWithDeployment = (deployment: DeploymentRecord) => {
+    const compiled = compilation?.contracts.find(c => c.name === deployment.contractName && c.sourcePath === deployment.sourcePath);
+    if (!compiled) {
+      addLog(`Network Error: Compile ${deployment.sourcePath} to load the ABI of ${deployment.contractName}.`, { level: 'error', source: 'network' });
+      return;
+    }
+    loadNetworkContract({ networkId: activeNetwork.id, address: deployment.address, name: compiled.name, abi: compiled.abi });
+  };
+
+  const handleNetworkCall = async (contract: NetworkContract, fn: AbiFunction, args: unknown[], from: Hex, value: bigint, allowTestKey: boolean) => {
+    setIsNetworkBusy(true);
+    try {
+      const result = isReadOnly(fn)
+        ? await callFunction(activeNetwork, contract, fn, args, from)
+        : await sendFunction(activeNetwork, state.accountSource, from, contract, fn, args, value, { allowTestKey });
+      setInteractionResults(r => [result, ...r]);
+      if (!result.success) addLog(`Network Error: ${contract.name}.${fn.name} ${result.error}`, { level: 'error', source: 'network' });
+      else if (result.kind === 'call') addLog(`Network: ${contract.name}.${fn.name} → ${formatValue(result.returnValue)}`, { source: 'network' });
+      else addLog(`Network: ${contract.name}.${fn.name} mined in ${result.transactionHash} (gas used: ${result.gasUsed})`, { level: 'success', source: 'network' });
+    } finally {
+      setIsNetworkBusy(false);
+    }
+    if (!isReadOnly(fn)) refreshNetwork();
+  };
+
+  // `npm deploy`: compile, then deploy every contract that needs no constructor arguments from the
+  // first test account. Resolves false if compilation or any deployment failed.
+  const deployWorkspace = async () => {
+    const result = await handleCompile();
+    if (!result?.success) return false;
+    const accounts = await getSandboxAccounts();
+    const deployable = result.contracts.filter(c => c.bytecode !== '0x');
+    if (!deployable.length) {
+      addLog('Sandbox: No deployable contracts found.', { level: 'warning', source: 'sandbox' });
+      return true;
+    }
+    addLog(`Sandbox: Deploying ${deployable.length} contract(s) from ${accounts[0].address}...`, { source: 'sandbox' });
+    let ok = true;
+    for (const contract of deployable) {
+      if (abiConstructor(contract.abi).inputs.length) {
+        addLog(`Sandbox: Skipped ${contract.name}; its constructor takes arguments, deploy it from the Deploy & Run panel.`, { level: 'warning', source: 'sandbox' });
+        continue;
+      }
+      if (!(await handleDeploy(contract, [], accounts[0].address, 0n))) ok = false;
+    }
+    return ok;
+  };
+
+  // Solidity files get the offline rule engine first; its findings are kept even when the
+  // AI call fails or is skipped with `audit --static`.
+  // Resolves false when there is nothing to audit or a stage that ran failed, for `audit` in scripts.
+  const handleAnalyze = async ({ staticOnly = false }: { staticOnly?: boolean } = {}) => {
+    const file = activeFile;
+    const content = file && bufferFor(file).content;
+    if (!file || !content) {
+      addLog('Audit Error: Open a file to audit.', { level: 'error', source: 'compiler' });
+      return false;
+    }
+    let ok = true;
+    let findings: StaticAnalysis | null = null;
+    if (file.language === 'solidity') {
+      try {
+        findings = analyzeSolidity(content);
+        addLog(`Audit: ${findings.issues.length} static finding(s) in ${file.name}.`, { source: 'compiler' });
+        if (findings.parseErrors) addLog(`Audit: ${file.name} has ${findings.parseErrors} syntax error(s); rules only checked the parts that parsed.`, { level: 'warning', source: 'compiler' });
+      } catch (err) {
+        addLog(`Audit Error: Failed to parse ${file.name}.${err instanceof Error ? ` ${err.message}` : ''}`, { level: 'error', source: 'compiler' });
+        ok = false;
+      }
+    }
+
+    let result: CodeAnalysis | null = null;
+    if (!staticOnly) {
+      setIsAiLoading(true);
+      addLog(`AI: Analyzing ${file.name}...`, { source: 'ai' });
+      try {
+        result = await analyzeCode(content, file.language || 'text', pathOf(state.files, file.id) || file.name);
+        addLog(`AI: Analysis complete for ${file.name}. Found ${result.issues.length} concerns.`, { level: 'success', source: 'ai' });
+      } catch (err) {
+        addLog(`AI Error: Failed to analyze code.${err instanceof Error ? ` ${err.message}` : ''}`, { level: 'error', source: 'ai' });
+        ok = false;
+      } finally {
+        setIsAiLoading(false);
+      }
+    }
+    if (!result && !findings) return false;
+
+    const analysis = findings ? mergeAnalysis(findings.issues, result) : result!;
+    const model = result ? (findings ? `static + ${aiSettings.model}` : aiSettings.model) : 'static';
+    setState(s => ({
+      ...s,
+      auditReports: addAuditReport(s.auditReports, createAuditReport(file.id, content, analysis, model, latestReport(s.auditReports, file.id)))
+    }));
+    return ok;
+  };
+
+  const activeChatThread = state.chatThreads.find(t => t.id === state.activeChatThreadId);
+
+  useEffect(() => {
+    if (chatScrollRef.current) {
+      chatScrollRef.current.scrollTop = chatScrollRef.current.scrollHeight;
+    }
+  }, [activeChatThread?.messages]);
+
+  // What @-mentions can attach. The selection is read from the buffer, so it survives the
+  // editor losing focus to the chat input.
+  const contextSources: ContextSources = useMemo(() => {
+    const buffer = activeFile && buffers[activeFile.id];
+    const { start, end } = buffer?.selection || { start: 0, end: 0 };
+    return {
+      files: state.files,
+      readFile: file => buffers[file.id]?.content ?? file.content ?? '',
+      selection: activeFile && buffer && start !== end
+        ? { path: pathOf(state.files, activeFile.id) || activeFile.name, text: buffer.content.slice(Math.min(start, end), Math.max(start, end)) }
+        : null,
+      terminal: activeTerminal ? { name: activeTerminal.name, logs: activeTerminal.logs } : null,
+      workflows: state.workflows
+    };
+  }, [state.files, buffers, activeFile, activeTerminal, state.workflows]);
+
+  // With nothing attached, a question carries the active file as before.
+  const fallbackContext = useMemo((): ChatContextItem[] => activeFile?.type === 'file'
+    ? [{ kind: 'file', id: activeFile.id, path: pathOf(state.files, activeFile.id) || activeFile.name }]
+    : [], [activeFile, state.files]);
+
+  // The context window minus the reply reserve and everything else the request carries.
+  const contextBudget = Math.max(0, aiSettings.contextTokens - REPLY_RESERVE_TOKENS - estimateTokens(
+    [SYSTEM_INSTRUCTION, chatInput, ...chatTurns(activeChatThread?.messages || []).map(t => t.text)].join('\n')
+  ));
+
+  const contextPreview = useMemo(
+    () => state.isAISidebarOpen
+      ? fitContext(resolveContext(chatContext.length ? chatContext : fallbackContext, contextSources), contextBudget)
+      : { text: '', tokens: 0, truncated: false },
+    [state.isAISidebarOpen, chatContext, fallbackContext, contextSources, contextBudget]
+  );
+
+  // Sends the question with the thread's history and streams the reply into a new message.
+  // Threads are created on their first question, so "New chat" leaves nothing empty behind.
+  const handleChat = async () => {
+    if (!chatInput.trim() || streamingMessageId) return;
+    const items = chatContext.length ? chatContext : fallbackContext;
+    const context = fitContext(resolveContext(items, contextSources), contextBudget).text;
+    const question = { ...createChatMessage('user', chatInput), context: items.map(contextLabel) };
+    const reply = createChatMessage('assistant', '');
+    const base = activeChatThread || { ...createChatThread(), title: threadTitle(chatInput) };
+    const thread = { ...base, messages: [...base.messages, question, reply], updatedAt: Date.now() };
+    setState(s => ({ ...s, activeChatThreadId: thread.id, chatThreads: upsertThread(s.chatThreads, thread) }));
     setChatInput('');
-    setIsAiLoading(true);
+    setChatContext([]);
+
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    setStreamingMessageId(reply.id);
+    const patchReply = (fn: (text: string) => Partial<ChatMessage>) => setState(s => ({
+      ...s,
+      chatThreads: updateChatMessage(s.chatThreads, thread.id, reply.id, m => ({ ...m, ...fn(m.text) }))
+    }));
     try {
-      const response = await chatWithAI(userMsg, activeFile()?.content || '');
-      setChatMessages(prev => [...prev, { role: 'assistant', text: response }]);
+      await streamChat(chatTurns([...base.messages, question]), context, {
+        signal: controller.signal,
+        onToken: token => patchReply(text => ({ text: text + token }))
+      });
+      if (controller.signal.aborted) patchReply(() => ({ status: 'stopped' }));
     } catch (err) {
-      addLog(`AI Error: Failed to generate response.`);
+      const reason = err instanceof Error ? err.message : String(err);
+      patchReply(text => ({ text: text || `Failed to generate response: ${reason}`, status: 'failed' }));
+      addLog(`AI Error: Failed to generate response. ${reason}`, { level: 'error', source: 'ai' });
     } finally {
-      setIsAiLoading(false);
+      chatAbortRef.current = null;
+      setStreamingMessageId(null);
     }
   };
 
-  const runWorkflow = async (workflowId: string) => {
-    const wf = state.workflows.find(w => w.id === workflowId);
-    if (!wf || wf.status === 'running') return;
+  const stopChat = () => chatAbortRef.current?.abort();
+
+  const deleteChatThread = (id: string) => {
+    if (streamingMessageId) stopChat();
+    setState(s => {
+      const chatThreads = s.chatThreads.filter(t => t.id !== id);
+      const latest = [...chatThreads].sort((a, b) => b.updatedAt - a.updatedAt)[0];
+      return { ...s, chatThreads, activeChatThreadId: latest?.id || null };
+    });
+  };
+
+  // Code from a chat reply replaces the selection (or lands at the caret) as one undo step.
+  const insertIntoEditor = (code: string) => {
+    if (!activeFile || activeFile.type !== 'file') {
+      addLog('AI: Open a file to insert code into.', { level: 'warning', source: 'ai' });
+      return;
+    }
+    updateBuffer(activeFile, b => {
+      const { start, end } = b.selection;
+      const caret = start + code.length;
+      return applyEdit({ ...b, lastEditAt: 0 }, b.content.slice(0, start) + code + b.content.slice(end), { start: caret, end: caret });
+    });
+  };
+
+  // A proposal is diffed against what the editor shows now, unsaved edits included.
+  const reviewFor = (path: string, proposed: string): EditReview => {
+    const file = findByPath(state.files, path.split('/').filter(Boolean));
+    const existing = file?.type === 'file' ? file : undefined;
+    const original = existing ? bufferFor(existing).content : '';
+    return { path, fileId: existing?.id, original, proposed, hunks: diffLines(original, proposed), rejectedHunkIds: [] };
+  };
+
+  const openEditReview = (path: string, proposed: string) => {
+    const review = reviewFor(path, proposed);
+    if (!review.fileId && findByPath(state.files, path.split('/').filter(Boolean))) {
+      addLog(`AI Error: ${path} is a folder and cannot be edited.`, { level: 'error', source: 'ai' });
+      return;
+    }
+    setEditReview(review);
+  };
+
+  const toggleHunk = (id: string) => setEditReview(r => r && {
+    ...r,
+    rejectedHunkIds: r.rejectedHunkIds.includes(id) ? r.rejectedHunkIds.filter(h => h !== id) : [...r.rejectedHunkIds, id]
+  });
+
+  const setAllHunks = (accepted: boolean) => setEditReview(r => r && { ...r, rejectedHunkIds: accepted ? [] : r.hunks.map(h => h.id) });
 
+  // Accepted hunks become one undo step in the buffer and are written through to the file.
+  const applyEditReview = () => {
+    if (!editReview) return;
+    const current = reviewFor(editReview.path, editReview.proposed);
+    if (current.original !== editReview.original || current.fileId !== editReview.fileId) {
+      setEditReview(current);
+      addLog(`AI: ${editReview.path} changed while under review; the diff has been recomputed.`, { level: 'warning', source: 'ai' });
+      return;
+    }
+    const content = applyHunks(editReview.original, editReview.hunks, h => !editReview.rejectedHunkIds.includes(h.id));
+    const accepted = editReview.hunks.length - editReview.rejectedHunkIds.length;
+    const file = editReview.fileId ? fileIndex.get(editReview.fileId) : undefined;
+    if (file) {
+      updateBuffer(file, b => {
+        const selection = { start: Math.min(b.selection.start, content.length), end: Math.min(b.selection.end, content.length) };
+        return markSaved(applyEdit({ ...b, lastEditAt: 0 }, content, selection));
+      });
+      setState(s => ({ ...s, files: updateFile(s.files, file.id, { content }) }));
+      openFile(file.id);
+    } else {
+      const segments = editReview.path.split('/').filter(Boolean);
+      const { files, folderId } = ensureFolderPath(state.files, segments.slice(0, -1));
+      const next = upsertFile(files, folderId, segments[segments.length - 1], content);
+      const created = findByPath(next, segments);
+      setState(s => ({ ...s, files: next }));
+      if (created) openFile(created.id);
+    }
+    addLog(`AI: Applied ${accepted} of ${editReview.hunks.length} change(s) to ${editReview.path}.`, { level: 'success', source: 'ai' });
+    setEditReview(null);
+  };
+
+  const updateAISettings = async (settings: AISettings) => {
+    configureAI(settings);
+    setAiSettings(settings);
+    setIsAISettingsOpen(false);
+    addLog(`AI: Using ${AI_PROVIDERS[settings.provider].label} (${settings.model}).`, { source: 'ai' });
+    try {
+      await saveAISettings(settings);
+    } catch (err) {
+      addLog('AI Error: Failed to save settings; they apply to this session only.', { level: 'error', source: 'ai' });
+    }
+  };
+
+  const updateWorkflowRun = (workflowId: string, runId: string, patch: Partial<WorkflowRunRecord>) =>
     setState(s => ({
       ...s,
-      isTerminalOpen: true,
-      workflows: s.workflows.map(w => w.id === workflowId ? { ...w, status: 'running', logs: [] } : w)
+      workflows: s.workflows.map(w => w.id !== workflowId ? w : {
+        ...w,
+        status: patch.status && w.history[0]?.id === runId ? patch.status : w.status,
+        history: w.history.map(r => r.id === runId ? { ...r, ...patch } : r)
+      })
     }));
 
-    const steps = [
-      `[${wf.workflowName}] Starting runner...`,
-      `[${wf.workflowName}] Checking out code...`,
-      `[${wf.workflowName}] Deployment success!`,
-      `[${wf.workflowName}] Job finished.`
-    ];
+  // Starts a new run, or with `rerunOf` a new attempt of that run that only repeats the jobs that did not succeed.
+  const runWorkflow = async (workflowId: string, trigger: WorkflowTrigger = 'manual', rerunOf?: WorkflowRunRecord) => {
+    const wf = state.workflows.find(w => w.id === workflowId);
+    if (!wf || wf.status === 'running') return;
 
-    for (const step of steps) {
-      addLog(step);
-      await new Promise(r => setTimeout(r, 800));
+    const definition = workflowFiles.workflows.find(d => d.fileId === wf.fileId);
+    if (wf.error || !definition) {
+      addLog(`Workflow Error: ${wf.path || wf.workflowName} is invalid (${wf.error || 'not found'}). See Problems panel.`, { level: 'error', source: 'workflow' });
+      setState(s => ({ ...s, isTerminalOpen: true, activePanelTab: 'problems' }));
+      return;
     }
 
+    const run: WorkflowRunRecord = {
+      id: createId('run'),
+      runNumber: rerunOf ? rerunOf.runNumber : Math.max(0, ...wf.history.map(r => r.runNumber)) + 1,
+      attempt: rerunOf ? Math.max(...wf.history.filter(r => r.runNumber === rerunOf.runNumber).map(r => r.attempt)) + 1 : 1,
+      trigger: rerunOf ? rerunOf.trigger : trigger,
+      status: 'running',
+      startedAt: Date.now(),
+      jobs: []
+    };
     setState(s => ({
       ...s,
-      workflows: s.workflows.map(w => w.id === workflowId ? { ...w, status: 'success' } : w)
+      isTerminalOpen: true,
+      workflows: s.workflows.map(w => w.id === workflowId
+        ? { ...w, status: 'running', startTime: run.startedAt, history: [run, ...w.history].slice(0, MAX_RUN_HISTORY) }
+        : w)
     }));
+
+    const controller = new AbortController();
+    workflowAbortRef.current[workflowId] = controller;
+    const label = `${definition.name} #${run.runNumber}${run.attempt > 1 ? ` (attempt ${run.attempt})` : ''}`;
+    addLog(`Workflow: ${label} started (${run.trigger}).`, { source: 'workflow' });
+
+    let status: WorkflowStatus;
+    try {
+      status = await executeWorkflow(definition, {
+        trigger: run.trigger,
+        signal: controller.signal,
+        previous: rerunOf?.jobs,
+        onUpdate: jobs => updateWorkflowRun(workflowId, run.id, { jobs }),
+        shell: (command, log, session) => executeCommand(command, { session, signal: controller.signal, output: log })
+      });
+    } catch (err) {
+      addLog(`Workflow Error: ${err instanceof Error ? err.message : String(err)}`, { level: 'error', source: 'workflow' });
+      status = 'failed';
+    } finally {
+      delete workflowAbortRef.current[workflowId];
+    }
+
+    updateWorkflowRun(workflowId, run.id, { status, finishedAt: Date.now() });
+    addLog(`Workflow: ${label} ${status === 'success' ? 'succeeded' : status}.`, { level: WORKFLOW_LOG_LEVELS[status], source: 'workflow' });
+  };
+
+  const cancelWorkflow = (workflowId: string) => {
+    workflowAbortRef.current[workflowId]?.abort();
   };
 
   const addTask = (e: React.FormEvent) => {
@@ -243,50 +1330,116 @@ const App: React.FC = () => {
     }));
   };
 
-  const createNewTerminal = () => {
-    const newId = `term-${Date.now()}`;
-    const newTerm: TerminalInstance = { id: newId, name: 'bash', logs: ['Terminal created.'] };
-    setState(s => ({ ...s, terminals: [...s.terminals, newTerm], activeTerminalId: newId }));
+  // The new terminal takes the focused pane's place, or opens beside it when `split` is set.
+  const createNewTerminal = (profile: TerminalProfile, split = false) => {
+    const newTerm = createTerminal(profile, state.terminals);
+    setState(s => ({
+      ...s,
+      terminals: [...s.terminals, newTerm],
+      activeTerminalId: newTerm.id,
+      terminalPanes: split ? [s.activeTerminalId, newTerm.id] : s.terminalPanes.map(id => id === s.activeTerminalId ? newTerm.id : id)
+    }));
+  };
+
+  // Tabs already on screen just take focus; any other tab replaces the focused pane.
+  const selectTerminal = (id: string) => setState(s => ({
+    ...s,
+    activeTerminalId: id,
+    terminalPanes: s.terminalPanes.includes(id) ? s.terminalPanes : s.terminalPanes.map(p => p === s.activeTerminalId ? id : p)
+  }));
+
+  const toggleTerminalSplit = () => {
+    if (state.terminalPanes.length > 1) {
+      setState(s => ({ ...s, terminalPanes: [s.activeTerminalId] }));
+      return;
+    }
+    createNewTerminal(activeTerminal?.profile || 'shell', true);
+  };
+
+  const renameTerminal = (id: string) => {
+    const terminal = state.terminals.find(t => t.id === id);
+    const name = window.prompt('Rename terminal:', terminal?.name)?.trim();
+    if (!name) return;
+    setState(s => ({ ...s, terminals: s.terminals.map(t => t.id === id ? { ...t, name } : t) }));
   };
 
   const closeTerminal = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
     if (state.terminals.length <= 1) return;
+    commandAbortRef.current[id]?.abort();
+    replsRef.current[id]?.reset();
+    delete replsRef.current[id];
     const newTerms = state.terminals.filter(t => t.id !== id);
-    setState(s => ({ 
-      ...s, 
-      terminals: newTerms, 
-      activeTerminalId: s.activeTerminalId === id ? newTerms[0].id : s.activeTerminalId 
-    }));
+    setState(s => {
+      const remaining = s.terminalPanes.filter(p => p !== id);
+      const terminalPanes = remaining.length ? remaining : [newTerms[0].id];
+      return {
+        ...s,
+        terminals: newTerms,
+        terminalPanes,
+        activeTerminalId: s.activeTerminalId === id ? terminalPanes[0] : s.activeTerminalId
+      };
+    });
   };
 
-  const renderFileTree = (files: FileEntry[], depth = 0) => {
-    return files.map(file => (
-      <div key={file.id} style={{ paddingLeft: `${depth * 12}px` }}>
-        <button
-          onClick={() => file.type === 'file' && setState(s => ({ ...s, currentFileId: file.id }))}
-          className={`w-full text-left px-2 py-1 text-sm rounded transition-colors flex items-center gap-2 ${
-            state.currentFileId === file.id ? 'bg-[#373e47] text-white' : 'text-gray-400 hover:bg-[#21262d] hover:text-gray-200'
-          }`}
-        >
-          {file.type === 'folder' ? (
-             <svg className="w-3.5 h-3.5 text-blue-400/80" fill="currentColor" viewBox="0 0 20 20"><path d="M2 6a2 2 0 012-2h5l2 2h5a2 2 0 012 2v6a2 2 0 01-2 2H4a2 2 0 01-2-2V6z" /></svg>
-          ) : (
-             <svg className="w-3.5 h-3.5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" /></svg>
-          )}
-          {file.name}
-        </button>
-        {file.children && renderFileTree(file.children, depth + 1)}
+  // Dragging the panel's top edge resizes it; the height is saved with the workspace.
+  const startTerminalResize = (e: React.MouseEvent) => {
+    e.preventDefault();
+    const startY = e.clientY;
+    const startHeight = state.terminalHeight;
+    const onMove = (ev: MouseEvent) => {
+      const max = Math.max(MIN_TERMINAL_HEIGHT, window.innerHeight - 200);
+      const terminalHeight = Math.min(Math.max(startHeight + startY - ev.clientY, MIN_TERMINAL_HEIGHT), max);
+      setState(s => ({ ...s, terminalHeight }));
+    };
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+      document.body.style.cursor = '';
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+    document.body.style.cursor = 'row-resize';
+  };
+
+  const renderEditorPane = (fileId: string | null, pane: 'main' | 'split') => {
+    const file = fileId ? fileIndex.get(fileId) : undefined;
+    return (
+      <div
+        key={pane}
+        onMouseDown={() => setFocusedPane(pane)}
+        className={`flex-1 relative ${pane === 'split' ? 'border-l border-[#30363d]' : ''}`}
+      >
+        {file ? (
+          <CodeEditor
+            key={file.id}
+            buffer={bufferFor(file)}
+            language={file.language}
+            theme={state.terminalTheme}
+            diagnostics={diagnostics.filter(d => d.fileId === file.id)}
+            onChange={(content, selection) => handleEditorChange(file, content, selection)}
+            onSelect={(selection) => updateBuffer(file, b => ({ ...b, selection }))}
+            onUndo={() => updateBuffer(file, undo)}
+            onRedo={() => updateBuffer(file, redo)}
+            onScroll={(scrollTop) => updateBuffer(file, b => ({ ...b, scrollTop }))}
+            onFocus={() => setFocusedPane(pane)}
+            onSetAuditStatus={setAuditStatus}
+          />
+        ) : (
+          <div className="absolute inset-0 p-4 code-font text-[13px] leading-relaxed overflow-y-auto bg-[#0d1117]">
+            <div className="flex flex-col items-center justify-center h-full text-gray-600">
+               <div className="w-24 h-24 mb-6 opacity-10 bg-gradient-to-br from-blue-500 to-purple-500 rounded-full blur-xl"></div>
+               <p className="text-xs uppercase tracking-widest font-bold">Project Soluf-th</p>
+               <p className="text-[10px] mt-2 opacity-50">Select workspace file to begin development</p>
+            </div>
+          </div>
+        )}
       </div>
-    ));
+    );
   };
 
   // Theme styles for Terminal
-  const themeStyles = {
-    'github-dark': { bg: 'bg-[#0a0c10]', text: 'text-gray-400', prompt: 'text-green-500', workflow: 'text-blue-400/80' },
-    'cyberpunk': { bg: 'bg-[#1a1b26]', text: 'text-[#bb9af7]', prompt: 'text-[#f7768e]', workflow: 'text-[#7aa2f7]' },
-    'monokai': { bg: 'bg-[#272822]', text: 'text-[#f8f8f2]', prompt: 'text-[#a6e22e]', workflow: 'text-[#66d9ef]' }
-  }[state.terminalTheme];
+  const themeStyles = TERMINAL_THEME_STYLES[state.terminalTheme];
 
   return (
     <div className="flex h-screen w-full bg-[#0d1117] overflow-hidden select-none">
@@ -312,6 +1465,33 @@ const App: React.FC = () => {
             {state.activeSidebarTab === 'actions' && <div className="absolute -left-5 top-0 w-1 h-6 bg-blue-500"></div>}
           </button>
 
+          <button 
+            title="Deploy & Run"
+            onClick={() => setState(s => ({ ...s, activeSidebarTab: 'deploy' }))}
+            className={`${state.activeSidebarTab === 'deploy' ? 'text-white' : 'hover:text-gray-300'} transition-colors relative`}
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" /></svg>
+            {state.activeSidebarTab === 'deploy' && <div className="absolute -left-5 top-0 w-1 h-6 bg-blue-500"></div>}
+          </button>
+
+          <button 
+            title="Networks"
+            onClick={() => setState(s => ({ ...s, activeSidebarTab: 'networks' }))}
+            className={`${state.activeSidebarTab === 'networks' ? 'text-white' : 'hover:text-gray-300'} transition-colors relative`}
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0zM3.6 9h16.8M3.6 15h16.8M12 3a15 15 0 010 18M12 3a15 15 0 000 18" /></svg>
+            {state.activeSidebarTab === 'networks' && <div className="absolute -left-5 top-0 w-1 h-6 bg-blue-500"></div>}
+          </button>
+
+          <button 
+            title="Tests"
+            onClick={() => setState(s => ({ ...s, activeSidebarTab: 'tests' }))}
+            className={`${state.activeSidebarTab === 'tests' ? 'text-white' : 'hover:text-gray-300'} transition-colors relative`}
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 3h6M10 3v6.5L4.5 19A1.5 1.5 0 005.8 21h12.4a1.5 1.5 0 001.3-2L14 9.5V3M7 15h10" /></svg>
+            {state.activeSidebarTab === 'tests' && <div className="absolute -left-5 top-0 w-1 h-6 bg-blue-500"></div>}
+          </button>
+
           <button 
             title="Tasks"
             onClick={() => setState(s => ({ ...s, activeSidebarTab: 'tasks' }))}
@@ -333,9 +1513,38 @@ const App: React.FC = () => {
               <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">Explorer</span>
               <StatusDot status="online" />
             </div>
-            <div className="flex-1 overflow-y-auto px-2">
-              {renderFileTree(state.files)}
-            </div>
+            <FileExplorer
+              files={state.files}
+              expandedIds={state.expandedFolderIds}
+              activeFileId={activeFile?.id}
+              dirtyIds={state.openFileIds.filter(id => isDirty(buffers[id]))}
+              onOpen={openFile}
+              onToggleFolder={toggleFolder}
+              onCreate={createEntry}
+              onRename={renameFileEntry}
+              onMove={moveFileEntry}
+              onDelete={deleteEntry}
+              onImportZip={(file) => handleImport(() => importZip(file))}
+              onImportFolder={(files) => handleImport(() => importFolder(files))}
+              onExport={handleExport}
+            />
+            {importSummary && (
+              <div className="px-2 pb-2">
+                <GlassCard title={`Imported ${importSummary.source}`} className="!p-3">
+                  <div className="text-[11px] text-gray-400 space-y-1">
+                    <div className="flex justify-between"><span>Files:</span><span className="text-green-400 font-mono">{importSummary.importedFiles}</span></div>
+                    <div className="flex justify-between"><span>Folders:</span><span className="text-gray-300 font-mono">{importSummary.importedFolders}</span></div>
+                    <div className="flex justify-between"><span>Skipped:</span><span className="text-yellow-400 font-mono">{importSummary.skipped.length}</span></div>
+                    {importSummary.skipped.length > 0 && (
+                      <div className="max-h-20 overflow-y-auto pt-1 font-mono text-[10px] text-gray-500">
+                        {importSummary.skipped.map(s => <div key={s.path} className="truncate" title={`${s.path} (${s.reason})`}>{s.path} — {s.reason}</div>)}
+                      </div>
+                    )}
+                    <button onClick={() => setImportSummary(null)} className="w-full pt-1 text-[10px] uppercase tracking-widest text-gray-500 hover:text-white">Dismiss</button>
+                  </div>
+                </GlassCard>
+              </div>
+            )}
           </>
         )}
         
@@ -346,26 +1555,105 @@ const App: React.FC = () => {
               <StatusDot status="busy" />
             </div>
             <div className="flex-1 overflow-y-auto px-2 space-y-3">
+              {!state.workflows.length && (
+                <div className="px-2 text-[11px] text-gray-500">No workflow files found in .github/workflows.</div>
+              )}
               {state.workflows.map(wf => (
-                <div key={wf.id} className="bg-[#161b22] border border-[#30363d] rounded-lg p-3 hover:border-blue-500/30 transition-all group">
-                  <div className="flex justify-between items-start mb-2">
-                    <div className="text-xs font-semibold text-gray-200">{wf.workflowName}</div>
-                    <WorkflowBadge status={wf.status} />
-                  </div>
-                  <div className="text-[10px] text-gray-500 mb-3">On: push to main</div>
-                  <NeonButton 
-                    disabled={wf.status === 'running'}
-                    onClick={() => runWorkflow(wf.id)}
-                    className="w-full justify-center py-1 opacity-0 group-hover:opacity-100 transition-opacity"
-                  >
-                    {wf.status === 'running' ? <TechLoader size="w-1 h-1" /> : 'Run Workflow'}
-                  </NeonButton>
-                </div>
+                <WorkflowCard
+                  key={wf.id}
+                  workflow={wf}
+                  onRun={(trigger) => runWorkflow(wf.id, trigger)}
+                  onCancel={() => cancelWorkflow(wf.id)}
+                  onRerunFailed={(run) => runWorkflow(wf.id, run.trigger, run)}
+                />
               ))}
             </div>
           </>
         )}
 
+        {state.activeSidebarTab === 'deploy' && (
+          <>
+            <div className="p-4 flex items-center justify-between">
+              <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest text-orange-400">Deploy & Run</span>
+              <StatusDot status={isSandboxBusy ? 'busy' : 'online'} />
+            </div>
+            <DeployRunPanel
+              accounts={sandboxAccounts}
+              contracts={compilation?.contracts || []}
+              deployed={deployedContracts}
+              results={sandboxResults}
+              busy={isSandboxBusy}
+              onDeploy={handleDeploy}
+              onCall={handleSandboxCall}
+              onRemove={(address) => setDeployedContracts(d => d.filter(c => c.address !== address))}
+              onClearResults={() => setSandboxResults([])}
+              onReset={handleResetSandbox}
+            />
+          </>
+        )}
+
+        {state.activeSidebarTab === 'networks' && (
+          <>
+            <div className="p-4 flex items-center justify-between">
+              <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest text-cyan-400">Networks</span>
+              <StatusDot status={isNetworkBusy ? 'busy' : networkHealth[activeNetwork.id] && !('error' in networkHealth[activeNetwork.id]) ? 'online' : 'offline'} />
+            </div>
+            <div className="flex-1 overflow-y-auto pb-4 space-y-4">
+              <NetworksPanel
+                networks={state.networks}
+                activeNetworkId={activeNetwork.id}
+                health={networkHealth}
+                accountSource={state.accountSource}
+                accounts={networkAccounts}
+                sender={networkSender}
+                walletAvailable={hasInjectedWallet()}
+                contracts={compilation?.contracts || []}
+                deployments={networkDeployments}
+                busy={isNetworkBusy || isSendingDeployment}
+                onSelectNetwork={(id) => setState(s => ({ ...s, activeNetworkId: id }))}
+                onAddNetwork={addNetwork}
+                onRemoveNetwork={removeNetwork}
+                onRefresh={() => refreshNetwork()}
+                onSetAccountSource={(source: AccountSource) => setState(s => ({ ...s, accountSource: source }))}
+                onSelectAccount={setNetworkFrom}
+                onDeploy={handleNetworkDeploy}
+                onInteract={interactWithDeployment}
+              />
+              <InteractionPanel
+                network={activeNetwork}
+                testKeyChain={testKeyChain}
+                contracts={compilation?.contracts || []}
+                loaded={loadedNetworkContracts}
+                results={interactionResults}
+                sender={networkSender}
+                busy={isNetworkBusy}
+                onLoad={loadNetworkContract}
+                onCall={handleNetworkCall}
+                onRemove={(address) => setNetworkContracts(c => c.filter(existing => existing.networkId !== activeNetwork.id || existing.address !== address))}
+                onClearResults={() => setInteractionResults([])}
+              />
+            </div>
+          </>
+        )}
+
+        {state.activeSidebarTab === 'tests' && (
+          <>
+            <div className="p-4 flex items-center justify-between">
+              <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest text-purple-400">Test Explorer</span>
+              <StatusDot status={isTesting ? 'busy' : 'online'} />
+            </div>
+            <TestExplorer
+              tests={tests}
+              running={isTesting}
+              discovering={isDiscoveringTests}
+              onRun={runTestsFromExplorer}
+              onStop={() => testAbortRef.current?.abort()}
+              onRefresh={() => refreshTests().catch(() => addLog('Sandbox Error: Failed to discover tests.', { level: 'error', source: 'sandbox' }))}
+              onOpen={openTest}
+            />
+          </>
+        )}
+
         {state.activeSidebarTab === 'tasks' && (
           <>
             <div className="p-4 flex items-center justify-between">
@@ -410,6 +1698,14 @@ const App: React.FC = () => {
         )}
         
         <div className="p-4 border-t border-[#30363d]">
+          <WorkspaceSwitcher
+            workspaces={workspaces.length ? workspaces : [{ id: workspaceId, name: workspaceName, updatedAt: 0 }]}
+            activeId={workspaceId}
+            status={saveStatus}
+            onSwitch={switchWorkspace}
+            onCreate={createWorkspace}
+            onDelete={removeWorkspace}
+          />
           <div className="text-[10px] text-gray-500 mb-2 font-semibold uppercase tracking-widest">Environment</div>
           <select 
             value={state.activeIDE}
@@ -425,35 +1721,57 @@ const App: React.FC = () => {
       <div className="flex-1 flex flex-col relative">
         {/* Editor Tabs */}
         <div className="h-10 bg-[#161b22] border-b border-[#30363d] flex items-center overflow-x-auto">
-          {activeFile() && (
-            <div className="px-4 h-full border-r border-[#30363d] bg-[#0d1117] flex items-center gap-2 text-xs text-gray-300 border-t-2 border-t-blue-500">
-              <svg className="w-3 h-3 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" /></svg>
-              {activeFile()?.name}
-              <button className="hover:bg-gray-700 rounded px-1 ml-2">×</button>
-            </div>
+          {state.openFileIds.map(id => {
+            const file = fileIndex.get(id);
+            if (!file) return null;
+            return (
+              <EditorTab
+                key={id}
+                name={file.name}
+                active={activeFile?.id === id}
+                secondary={activeFile?.id !== id && (state.currentFileId === id || state.splitFileId === id)}
+                dirty={isDirty(buffers[id])}
+                onClick={() => openFile(id)}
+                onClose={(e) => closeFile(id, e)}
+                onDragStart={() => setDraggedTabId(id)}
+                onDrop={() => { if (draggedTabId) moveTab(draggedTabId, id); setDraggedTabId(null); }}
+              />
+            );
+          })}
+          <div className="flex-1"></div>
+          {state.currentFileId && (
+            <button
+              title={state.splitFileId ? 'Close split editor' : 'Split editor right'}
+              onClick={toggleSplit}
+              className={`px-3 h-full flex-shrink-0 transition-colors ${state.splitFileId ? 'text-blue-400' : 'text-gray-500 hover:text-white'}`}
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5h16v14H4zM12 5v14" /></svg>
+            </button>
           )}
         </div>
 
         {/* Code Editor View */}
-        <div className="flex-1 overflow-hidden relative">
-          <div className="absolute inset-0 p-4 code-font text-[13px] leading-relaxed overflow-y-auto bg-[#0d1117]">
-            {activeFile()?.content?.split('\n').map((line, i) => (
-              <div key={i} className="flex gap-4 group/line">
-                <span className="w-8 text-right text-gray-600 select-none opacity-50">{i + 1}</span>
-                <span className="text-gray-300 whitespace-pre">{line}</span>
-              </div>
-            )) || (
-              <div className="flex flex-col items-center justify-center h-full text-gray-600">
-                 <div className="w-24 h-24 mb-6 opacity-10 bg-gradient-to-br from-blue-500 to-purple-500 rounded-full blur-xl"></div>
-                 <p className="text-xs uppercase tracking-widest font-bold">Project Soluf-th</p>
-                 <p className="text-[10px] mt-2 opacity-50">Select workspace file to begin development</p>
-              </div>
-            )}
-          </div>
+        <div className="flex-1 overflow-hidden relative flex">
+          {renderEditorPane(state.currentFileId, 'main')}
+          {state.splitFileId && renderEditorPane(state.splitFileId, 'split')}
+          {editReview && (
+            <DiffReview
+              review={editReview}
+              onToggleHunk={toggleHunk}
+              onSetAll={setAllHunks}
+              onApply={applyEditReview}
+              onCancel={() => setEditReview(null)}
+            />
+          )}
           
-          {activeFile() && (
+          {activeFile && (
             <div className="absolute bottom-6 right-6 flex gap-3">
-              <NeonButton onClick={handleAnalyze} disabled={isAiLoading}>
+              {activeFile?.language === 'solidity' && (
+                <NeonButton onClick={handleCompile} disabled={isCompiling}>
+                  {isCompiling ? <TechLoader size="w-1.5 h-1.5" /> : 'Compile'}
+                </NeonButton>
+              )}
+              <NeonButton onClick={() => handleAnalyze()} disabled={isAiLoading}>
                 {isAiLoading ? <TechLoader size="w-1.5 h-1.5" /> : 'Analyze & Audit'}
               </NeonButton>
             </div>
@@ -462,26 +1780,61 @@ const App: React.FC = () => {
 
         {/* Console / Terminal Section */}
         {state.isTerminalOpen && (
-          <div className="h-72 bg-[#161b22] border-t border-[#30363d] flex flex-col transition-all">
+          <div style={{ height: state.terminalHeight }} className="relative flex-shrink-0 bg-[#161b22] border-t border-[#30363d] flex flex-col">
+            <div onMouseDown={startTerminalResize} className="absolute -top-1 left-0 right-0 h-2 cursor-row-resize z-10 hover:bg-blue-500/30 transition-colors"></div>
             {/* Terminal Header with Tabs */}
             <div className="h-9 bg-[#161b22] flex items-center px-1 overflow-x-auto border-b border-[#30363d]">
-              {state.terminals.map(term => (
+              {(['terminal', 'problems', 'gas', 'storage'] as const).map(tab => (
+                <button
+                  key={tab}
+                  onClick={() => setState(s => ({ ...s, activePanelTab: tab }))}
+                  className={`px-3 h-full text-[10px] font-bold uppercase tracking-wider transition-colors flex items-center gap-1.5 ${state.activePanelTab === tab ? 'text-gray-200' : 'text-gray-500 hover:text-gray-300'}`}
+                >
+                  {tab}
+                  {tab === 'problems' && diagnostics.length > 0 && (
+                    <span className="px-1.5 rounded-full bg-[#30363d] text-gray-300">{diagnostics.length}</span>
+                  )}
+                </button>
+              ))}
+              <div className="w-px h-4 bg-[#30363d] mx-1"></div>
+              {state.activePanelTab === 'terminal' && state.terminals.map(term => (
                 <TerminalTab 
                   key={term.id} 
                   name={term.name} 
+                  icon={TERMINAL_PROFILES[term.profile].icon}
                   active={state.activeTerminalId === term.id}
-                  onClick={() => setState(s => ({ ...s, activeTerminalId: term.id }))}
+                  visible={state.terminalPanes.includes(term.id)}
+                  onClick={() => selectTerminal(term.id)}
+                  onRename={() => renameTerminal(term.id)}
                   onClose={(e) => closeTerminal(term.id, e)}
                 />
               ))}
-              <button 
-                onClick={createNewTerminal}
-                className="px-3 h-full text-gray-500 hover:text-white hover:bg-[#1f242b] transition-colors"
-              >
-                +
-              </button>
+              {state.activePanelTab === 'terminal' && (
+                <NewTerminalButton onCreate={profile => createNewTerminal(profile)} />
+              )}
               <div className="flex-1"></div>
-              <div className="px-4 flex gap-4 text-[10px] font-bold text-gray-500 uppercase tracking-wider">
+              <div className="px-4 flex items-center gap-4 text-[10px] font-bold text-gray-500 uppercase tracking-wider">
+                {state.activePanelTab === 'terminal' && (
+                  <TerminalLogToolbar
+                    filter={logFilter}
+                    onFilterChange={setLogFilter}
+                    showTimestamps={showTimestamps}
+                    onToggleTimestamps={() => setShowTimestamps(!showTimestamps)}
+                    onCopy={copyTerminalLog}
+                    onSave={saveTerminalLog}
+                    scrollback={activeTerminal?.scrollback ?? DEFAULT_SCROLLBACK}
+                    onScrollbackChange={setScrollback}
+                  />
+                )}
+                {state.activePanelTab === 'terminal' && (
+                  <button
+                    title={state.terminalPanes.length > 1 ? 'Unsplit terminal' : 'Split terminal'}
+                    onClick={toggleTerminalSplit}
+                    className={`${state.terminalPanes.length > 1 ? 'text-blue-400' : 'hover:text-white'} transition-colors`}
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5a1 1 0 011-1h14a1 1 0 011 1v14a1 1 0 01-1 1H5a1 1 0 01-1-1V5zM12 4v16" /></svg>
+                  </button>
+                )}
                 <select 
                   value={state.terminalTheme}
                   onChange={(e) => setState(s => ({ ...s, terminalTheme: e.target.value as TerminalTheme }))}
@@ -497,77 +1850,57 @@ const App: React.FC = () => {
               </div>
             </div>
 
-            {/* Terminal Body */}
-            <div 
-              ref={terminalLogsRef}
-              className={`flex-1 p-3 code-font text-xs overflow-y-auto ${themeStyles.bg} transition-colors duration-500`}
-            >
-              <div className="space-y-0.5">
-                {activeTerminal?.logs.map((log, i) => {
-                  const isError = log.includes('failed') || log.includes('Error');
-                  const isSuccess = log.includes('success') || log.includes('passed');
-                  const isWf = log.startsWith('[');
-                  const isUserCmd = log.startsWith('soluf-th@dev:~$');
-
-                  return (
-                    <div key={i} className={`flex gap-2 ${isError ? 'text-red-400' : isSuccess ? 'text-green-400' : isWf ? themeStyles.workflow : themeStyles.text}`}>
-                      {!isUserCmd && <span className="opacity-30 select-none">❯</span>}
-                      {isUserCmd ? (
-                        <div className="flex gap-2">
-                           <span className={themeStyles.prompt}>soluf-th@dev:~$</span>
-                           <span>{log.replace('soluf-th@dev:~$', '')}</span>
-                        </div>
-                      ) : (
-                        <span>{log}</span>
-                      )}
-                    </div>
-                  );
-                })}
+            {state.activePanelTab === 'problems' ? (
+              <div className="flex-1 overflow-y-auto bg-[#0d1117]">
+                <ProblemsPanel diagnostics={diagnostics} onSelect={revealDiagnostic} onSetAuditStatus={setAuditStatus} />
               </div>
-
-              {/* Interactive Prompt */}
-              <div className="mt-1 flex gap-2 relative">
-                <span className={`${themeStyles.prompt} select-none`}>soluf-th@dev:~$</span>
-                <div className="relative flex-1">
-                  {suggestion && (
-                    <span className="absolute left-0 top-0 text-gray-600 whitespace-pre pointer-events-none">
-                      {suggestion}
-                    </span>
-                  )}
-                  <input
-                    ref={commandInputRef}
-                    autoFocus
-                    type="text"
-                    value={commandInput}
-                    onChange={(e) => onCommandChange(e.target.value)}
-                    onKeyDown={handleCommandKeyDown}
-                    className={`bg-transparent border-none outline-none w-full p-0 m-0 ${themeStyles.text} caret-blue-500`}
-                  />
-                </div>
+            ) : state.activePanelTab === 'gas' ? (
+              <div className="flex-1 overflow-y-auto bg-[#0d1117]">
+                <GasReportPanel reports={state.gasReports} onClear={() => setState(s => ({ ...s, gasReports: [] }))} />
               </div>
-
-              {aiResponse && (
-                <div className="mt-4 p-4 bg-blue-900/10 border border-blue-500/20 rounded-xl">
-                  <div className="text-blue-400 font-bold text-[10px] mb-3 uppercase tracking-widest flex items-center gap-2">
-                    <StatusDot status="busy" /> AI Smart Audit
-                  </div>
-                  <div className="text-gray-300 mb-3">{aiResponse.summary}</div>
-                  <div className="space-y-2">
-                    {aiResponse.issues.map((issue: any, idx: number) => (
-                      <div key={idx} className="bg-[#161b22] border border-[#30363d] p-2 rounded flex items-start gap-3">
-                         <div className={`mt-1 p-1 rounded ${issue.severity === 'High' ? 'bg-red-500/20 text-red-500' : 'bg-yellow-500/20 text-yellow-500'}`}>
-                           <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" /></svg>
-                         </div>
-                         <div>
-                           <div className="text-[10px] font-bold uppercase tracking-wider mb-1">{issue.severity} Severity</div>
-                           <div className="text-xs text-gray-400">{issue.message} <span className="opacity-40 ml-1">(Line {issue.line})</span></div>
-                         </div>
-                      </div>
-                    ))}
-                  </div>
+            ) : state.activePanelTab === 'storage' ? (
+              <div className="flex-1 overflow-y-auto bg-[#0d1117]">
+                <StorageLayoutPanel
+                  contracts={compilation?.contracts || []}
+                  preferredPath={activeFile ? pathOf(state.files, activeFile.id) || undefined : undefined}
+                />
+              </div>
+            ) : (
+              <>
+                {/* Terminal Body: one pane per visible terminal */}
+                <div className="flex-1 flex min-h-0 divide-x divide-[#30363d]">
+                  {state.terminalPanes.map(id => state.terminals.find(t => t.id === id)).map(terminal => terminal && (
+                    <TerminalPane
+                      key={terminal.id}
+                      terminal={terminal}
+                      filter={logFilter}
+                      colors={themeStyles}
+                      showTimestamps={showTimestamps}
+                      focused={state.terminalPanes.length > 1 && terminal.id === state.activeTerminalId}
+                      prompt={terminalPrompt(terminal)}
+                      running={runningTerminalIds.includes(terminal.id)}
+                      complete={line => terminal.profile === 'shell' ? completeLine(line, { session: { cwd: terminal.cwd }, host: shellHostFor(terminal.id) }) : []}
+                      onSubmit={line => handleCommand(terminal, line)}
+                      onInterrupt={line => interruptCommand(terminal, line)}
+                      onClear={() => clearTerminal(terminal.id)}
+                      onFocus={() => terminal.id !== state.activeTerminalId && setState(s => ({ ...s, activeTerminalId: terminal.id }))}
+                    >
+                      {/* The active file's latest audit follows the focused terminal. */}
+                      {terminal.id === state.activeTerminalId && activeFile && activeAuditReport && (
+                        <AuditReportCard
+                          report={activeAuditReport}
+                          path={pathOf(state.files, activeFile.id) || activeFile.name}
+                          content={bufferFor(activeFile).content}
+                          onReveal={line => revealLine(activeFile, line)}
+                          onSetStatus={setAuditStatus}
+                          onReviewEdit={edit => openEditReview(edit.path, edit.content)}
+                        />
+                      )}
+                    </TerminalPane>
+                  ))}
                 </div>
-              )}
-            </div>
+              </>
+            )}
           </div>
         )}
       </div>
@@ -580,66 +1913,117 @@ const App: React.FC = () => {
               <span className="animate-pulse inline-block w-2 h-2 rounded-full bg-blue-500"></span> 
               Soluf-th Intelligence
             </h2>
-            <button onClick={() => setState(s => ({...s, isAISidebarOpen: false}))} className="text-gray-500 hover:text-white">
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
-            </button>
+            <div className="flex items-center gap-2">
+              <button title="AI settings" onClick={() => setIsAISettingsOpen(!isAISettingsOpen)} className={`${isAISettingsOpen ? 'text-blue-400' : 'text-gray-500 hover:text-white'} transition-colors`}>
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
+              </button>
+              <button onClick={() => setState(s => ({...s, isAISidebarOpen: false}))} className="text-gray-500 hover:text-white">
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+              </button>
+            </div>
           </div>
-          
-          <div className="flex-1 overflow-y-auto p-4 space-y-4">
-            <GlassCard title="Live Monitoring">
-              <div className="text-[11px] text-gray-400 space-y-2">
-                <div className="flex justify-between">
-                  <span>Target:</span>
-                  <span className="text-blue-400 font-mono">{activeFile()?.name || 'N/A'}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span>Language:</span>
-                  <span className="text-gray-300 font-mono">{activeFile()?.language || 'N/A'}</span>
-                </div>
-                <p className="mt-4 text-xs italic opacity-70 border-l-2 border-blue-500 pl-2">
-                  "I am actively monitoring your CI pipelines and smart contracts for anomalies."
-                </p>
-              </div>
-            </GlassCard>
-
-            <div className="space-y-4">
-              {chatMessages.map((m, i) => (
-                <div key={i} className={`flex flex-col ${m.role === 'user' ? 'items-end' : 'items-start'}`}>
-                  <div className={`max-w-[90%] p-3 rounded-xl text-xs leading-relaxed shadow-sm ${
-                    m.role === 'user' ? 'bg-blue-600 text-white rounded-br-none' : 'bg-[#21262d] text-gray-300 rounded-bl-none border border-[#30363d]'
-                  }`}>
-                    {m.text}
-                  </div>
-                </div>
-              ))}
-              {isAiLoading && (
-                <div className="flex justify-start">
-                  <div className="bg-[#21262d] p-3 rounded-xl border border-[#30363d]">
-                    <TechLoader size="w-1.5 h-1.5" />
+
+          {isAISettingsOpen ? (
+            <div className="flex-1 overflow-y-auto p-4">
+              <AISettingsPanel settings={aiSettings} onSave={updateAISettings} onCancel={() => setIsAISettingsOpen(false)} />
+            </div>
+          ) : (
+            <>
+              <div ref={chatScrollRef} className="flex-1 overflow-y-auto p-4 space-y-4">
+                <GlassCard title="Live Monitoring">
+                  <div className="text-[11px] text-gray-400 space-y-2">
+                    <div className="flex justify-between">
+                      <span>Target:</span>
+                      <span className="text-blue-400 font-mono">{activeFile?.name || 'N/A'}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Language:</span>
+                      <span className="text-gray-300 font-mono">{activeFile?.language || 'N/A'}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Model:</span>
+                      <span className="text-gray-300 font-mono truncate ml-2" title={AI_PROVIDERS[aiSettings.provider].label}>{aiSettings.model}</span>
+                    </div>
+                    <p className="mt-4 text-xs italic opacity-70 border-l-2 border-blue-500 pl-2">
+                      "I am actively monitoring your CI pipelines and smart contracts for anomalies."
+                    </p>
                   </div>
+                </GlassCard>
+
+                <div className="space-y-4">
+                  {activeChatThread?.messages.map(m => (
+                    <div key={m.id} className={`flex flex-col ${m.role === 'user' ? 'items-end' : 'items-start'}`}>
+                      <div className={`max-w-[90%] p-3 rounded-xl text-xs leading-relaxed shadow-sm ${
+                        m.role === 'user' ? 'bg-blue-600 text-white rounded-br-none whitespace-pre-wrap select-text' : `bg-[#21262d] rounded-bl-none border ${m.status === 'failed' ? 'border-red-500/40 text-red-300' : 'border-[#30363d] text-gray-300'}`
+                      }`}>
+                        {m.role === 'user' ? m.text : m.text ? (
+                          <Markdown text={m.text} theme={state.terminalTheme} onInsert={insertIntoEditor} onReview={openEditReview} />
+                        ) : m.id === streamingMessageId ? (
+                          <TechLoader size="w-1.5 h-1.5" />
+                        ) : (
+                          <span className="italic opacity-60">No response.</span>
+                        )}
+                      </div>
+                      {m.context && m.context.length > 0 && (
+                        <div className="mt-1 flex flex-wrap justify-end gap-1 max-w-[90%]">
+                          {m.context.map(label => (
+                            <span key={label} className="px-1.5 rounded bg-[#21262d] border border-[#30363d] text-[10px] text-gray-500 code-font truncate">@{label}</span>
+                          ))}
+                        </div>
+                      )}
+                      {m.status === 'stopped' && (
+                        <span className="mt-1 text-[10px] text-gray-500">Stopped</span>
+                      )}
+                    </div>
+                  ))}
+                  {isAiLoading && (
+                    <div className="flex justify-start">
+                      <div className="bg-[#21262d] p-3 rounded-xl border border-[#30363d]">
+                        <TechLoader size="w-1.5 h-1.5" />
+                      </div>
+                    </div>
+                  )}
                 </div>
-              )}
-            </div>
-          </div>
+              </div>
 
-          <div className="p-4 border-t border-[#30363d] bg-[#0d1117]/50">
-            <form onSubmit={handleChat} className="relative">
-              <input
-                type="text"
-                value={chatInput}
-                onChange={(e) => setChatInput(e.target.value)}
-                placeholder="Ask intelligence agent..."
-                className="w-full bg-[#161b22] border border-[#30363d] rounded-xl py-2.5 pl-4 pr-10 text-xs text-gray-200 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-all shadow-inner"
-              />
-              <button 
-                type="submit"
-                disabled={isAiLoading}
-                className="absolute right-2.5 top-2.5 text-blue-500 hover:text-blue-400 transition-colors"
-              >
-                <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20"><path d="M10.894 2.553a1 1 0 00-1.788 0l-7 14a1 1 0 001.169 1.409l5-1.429A1 1 0 009 15.571V11a1 1 0 112 0v4.571a1 1 0 00.725.962l5 1.428a1 1 0 001.17-1.408l-7-14z" /></svg>
-              </button>
-            </form>
-          </div>
+              <div className="p-4 border-t border-[#30363d] bg-[#0d1117]/50">
+                <div className="flex items-center gap-2 mb-2 text-[10px] text-gray-500">
+                  <select
+                    value={state.activeChatThreadId || ''}
+                    onChange={(e) => setState(s => ({ ...s, activeChatThreadId: e.target.value || null }))}
+                    className="flex-1 min-w-0 bg-transparent text-gray-400 hover:text-white focus:outline-none cursor-pointer truncate"
+                  >
+                    {!activeChatThread && <option value="">New chat</option>}
+                    {[...state.chatThreads].sort((a, b) => b.updatedAt - a.updatedAt).map(t => (
+                      <option key={t.id} value={t.id}>{t.title}</option>
+                    ))}
+                  </select>
+                  <button title="New chat" onClick={() => setState(s => ({ ...s, activeChatThreadId: null }))} disabled={!!streamingMessageId} className="hover:text-white disabled:opacity-50">
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" /></svg>
+                  </button>
+                  {activeChatThread && (
+                    <button title="Delete chat" onClick={() => deleteChatThread(activeChatThread.id)} className="hover:text-red-400">
+                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                    </button>
+                  )}
+                </div>
+                <ChatComposer
+                  value={chatInput}
+                  onChange={setChatInput}
+                  items={chatContext}
+                  onItemsChange={setChatContext}
+                  fallbackLabel={fallbackContext.length ? `@${contextLabel(fallbackContext[0])} (active file)` : undefined}
+                  candidates={query => mentionCandidates(query, contextSources)}
+                  tokens={contextPreview.tokens}
+                  budget={contextBudget}
+                  truncated={contextPreview.truncated}
+                  streaming={!!streamingMessageId}
+                  onSubmit={handleChat}
+                  onStop={stopChat}
+                />
+              </div>
+            </>
+          )}
         </div>
       )}
 
@@ -651,7 +2035,16 @@ const App: React.FC = () => {
             main*
           </span>
           <span className="hover:bg-white/10 px-2 h-full cursor-pointer flex items-center gap-1 transition-colors">
-             <span className="opacity-70">Ln {activeFile()?.content?.split('\n').length || 0}, Col 1</span>
+             <span className="opacity-70">
+               {caret ? `Ln ${caret.line}, Col ${caret.col}` : 'Ln 0, Col 0'}
+             </span>
+          </span>
+          <span
+            onClick={() => setState(s => ({ ...s, isTerminalOpen: true, activePanelTab: 'problems' }))}
+            className="hover:bg-white/10 px-2 h-full cursor-pointer flex items-center gap-2 transition-colors border-l border-white/10"
+          >
+            <span>⊗ {diagnostics.filter(d => d.severity === 'error').length}</span>
+            <span>⚠ {diagnostics.filter(d => d.severity !== 'error').length}</span>
           </span>
           <span className="hover:bg-white/10 px-2 h-full cursor-pointer transition-colors border-l border-white/10">
             {state.workflows.filter(w => w.status === 'running').length} actions
@@ -664,7 +2057,7 @@ const App: React.FC = () => {
         <div className="flex items-center gap-0 h-full">
           <span className="hover:bg-white/10 px-2 h-full cursor-pointer transition-colors border-l border-white/10">{state.terminalTheme.replace('-', ' ')}</span>
           <span className="hover:bg-white/10 px-2 h-full cursor-pointer transition-colors border-l border-white/10">UTF-8</span>
-          <span className="hover:bg-white/10 px-2 h-full cursor-pointer transition-colors border-l border-white/10">{activeFile()?.language || 'Plain Text'}</span>
+          <span className="hover:bg-white/10 px-2 h-full cursor-pointer transition-colors border-l border-white/10">{activeFile?.language || 'Plain Text'}</span>
           <span className="hover:bg-white/10 px-2 h-full cursor-pointer flex items-center gap-2 transition-colors border-l border-white/10">
             <div className="w-1.5 h-1.5 rounded-full bg-white/50"></div>
             Feedback
@@ -672,6 +2065,15 @@ const App: React.FC = () => {
           <span className="bg-white/20 px-3 h-full cursor-pointer font-bold flex items-center border-l border-white/10">SOLUF-TH DEV HUB</span>
         </div>
       </div>
+
+      {deploymentPlan && (
+        <DeployConfirmDialog
+          plan={deploymentPlan}
+          sending={isSendingDeployment}
+          onConfirm={confirmDeployment}
+          onCancel={() => setDeploymentPlan(null)}
+        />
+      )}
     </div>
   );
 };
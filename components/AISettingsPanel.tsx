@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { AIProviderId, AISettings } from '../types';
+import { AI_PROVIDERS } from '../services/ai';
+
+const inputClass = 'w-full bg-[#161b22] border border-[#30363d] rounded px-2 py-1.5 text-xs text-gray-300 focus:outline-none focus:border-blue-500';
+const labelClass = 'block text-[10px] text-gray-500 font-semibold uppercase tracking-widest mb-1';
+
+// Edits a copy of the settings; nothing changes until Save, so a half-typed URL never reaches a request.
+export const AISettingsPanel: React.FC<{
+  settings: AISettings,
+  onSave: (settings: AISettings) => void,
+  onCancel: () => void
+}> = ({ settings, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<AISettings>(settings);
+  const info = AI_PROVIDERS[draft.provider];
+  const update = (patch: Partial<AISettings>) => setDraft((d: AISettings) => ({ ...d, ...patch }));
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className={labelClass}>Provider</label>
+        <select
+          value={draft.provider}
+          onChange={(e) => {
+            const provider = e.target.value as AIProviderId;
+            update({ provider, model: AI_PROVIDERS[provider].defaultModel, contextTokens: AI_PROVIDERS[provider].contextTokens });
+          }}
+          className={inputClass}
+        >
+          {(Object.keys(AI_PROVIDERS) as AIProviderId[]).map(id => (
+            <option key={id} value={id}>{AI_PROVIDERS[id].label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className={labelClass}>Model</label>
+        <input value={draft.model} onChange={(e) => update({ model: e.target.value })} disabled={draft.provider === 'mock'} className={`${inputClass} code-font disabled:opacity-50`} />
+      </div>
+
+      <div>
+        <label className={`${labelClass} flex justify-between`}>
+          Temperature <span className="text-gray-400 code-font normal-case">{draft.temperature.toFixed(1)}</span>
+        </label>
+        <input
+          type="range"
+          min={0}
+          max={2}
+          step={0.1}
+          value={draft.temperature}
+          onChange={(e) => update({ temperature: Number(e.target.value) })}
+          disabled={draft.provider === 'mock'}
+          className="w-full accent-blue-500 disabled:opacity-50"
+        />
+      </div>
+
+      <div>
+        <label className={labelClass}>Context window (tokens)</label>
+        <input
+          type="number"
+          min={1000}
+          step={1000}
+          value={draft.contextTokens}
+          onChange={(e) => update({ contextTokens: Number(e.target.value) })}
+          className={`${inputClass} code-font`}
+        />
+        <p className="mt-1 text-[10px] text-gray-500">Attached chat context is truncated to fit.</p>
+      </div>
+
+      {info.usesBaseUrl && (
+        <div>
+          <label className={labelClass}>Base URL</label>
+          <input value={draft.baseUrl} onChange={(e) => update({ baseUrl: e.target.value })} placeholder="http://localhost:11434/v1" className={`${inputClass} code-font`} />
+          <p className="mt-1 text-[10px] text-gray-500">Any server with an OpenAI-style /chat/completions endpoint.</p>
+        </div>
+      )}
+
+      {info.usesApiKey && (
+        <div>
+          <label className={labelClass}>API key</label>
+          <input
+            type="password"
+            value={draft.apiKey}
+            onChange={(e) => update({ apiKey: e.target.value })}
+            placeholder={draft.provider === 'gemini' && process.env.API_KEY ? 'Using the built-in key' : draft.provider === 'openai' ? 'Optional for local servers' : ''}
+            className={`${inputClass} code-font`}
+          />
+          <p className="mt-1 text-[10px] text-gray-500">Stored in this browser only, never in workspace exports.</p>
+        </div>
+      )}
+
+      {draft.provider === 'mock' && (
+        <p className="text-[11px] text-gray-500">Deterministic offline responses, for tests and working without a key.</p>
+      )}
+
+      <div className="flex justify-end gap-2 pt-2">
+        <button onClick={onCancel} className="px-3 py-1.5 text-xs text-gray-400 hover:text-white">Cancel</button>
+        <button
+          onClick={() => onSave({
+            ...draft,
+            model: draft.model.trim() || info.defaultModel,
+            baseUrl: draft.baseUrl.trim(),
+            contextTokens: draft.contextTokens >= 1000 ? Math.round(draft.contextTokens) : info.contextTokens
+          })}
+          className="px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-xs text-white"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import React, { useMemo } from 'react';
+import { AnsiStyle, parseAnsi } from '../services/ansi';
+
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+const cssFor = (style: AnsiStyle): React.CSSProperties => {
+  const fg = style.inverse ? style.bg ?? '#0d1117' : style.fg;
+  const bg = style.inverse ? style.fg ?? '#c9d1d9' : style.bg;
+  return {
+    color: fg,
+    backgroundColor: bg,
+    fontWeight: style.bold ? 'bold' : undefined,
+    opacity: style.dim ? 0.6 : undefined,
+    fontStyle: style.italic ? 'italic' : undefined,
+    textDecoration: style.underline ? 'underline' : undefined
+  };
+};
+
+// Renders text containing ANSI escape sequences; plain text passes straight through.
+export const AnsiText: React.FC<{ text: string }> = ({ text }) => {
+  const segments = useMemo(() => text.includes('\x1b') ? parseAnsi(text) : null, [text]);
+  if (!segments) return <>{text}</>;
+  return (
+    <>
+      {segments.map((segment, i) => segment.style.href && SAFE_LINK.test(segment.style.href) ? (
+        <a key={i} href={segment.style.href} target="_blank" rel="noopener noreferrer" style={cssFor(segment.style)} className="underline decoration-dotted hover:decoration-solid">
+          {segment.text}
+        </a>
+      ) : (
+        <span key={i} style={cssFor(segment.style)}>{segment.text}</span>
+      ))}
+    </>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useMemo, useState } from 'react';
+import { AuditIssueStatus, AuditReport, ProposedEdit } from '../types';
+import { anchorIssues, contentVersion } from '../services/audit';
+import { StatusDot } from './UiverseElements';
+
+const SEVERITY_STYLES = {
+  High: 'bg-red-500/20 text-red-500',
+  Medium: 'bg-yellow-500/20 text-yellow-500',
+  Low: 'bg-blue-500/20 text-blue-400'
+};
+
+const STATUS_LABELS: Record<AuditIssueStatus, string> = {
+  open: 'Open',
+  dismissed: 'Dismissed',
+  wontfix: "Won't fix"
+};
+
+// The latest audit of a file. Issues are anchored to the file's current text, so clicking
+// one jumps to where the flagged code is now.
+export const AuditReportCard: React.FC<{
+  report: AuditReport,
+  path: string,
+  content: string,
+  onReveal: (line: number) => void,
+  onSetStatus: (issueId: string, status: AuditIssueStatus) => void,
+  onReviewEdit: (edit: ProposedEdit) => void
+}> = ({ report, path, content, onReveal, onSetStatus, onReviewEdit }) => {
+  const [showClosed, setShowClosed] = useState(false);
+  const anchored = useMemo(() => anchorIssues(report, content), [report, content]);
+  const outdated = contentVersion(content) !== report.version;
+  const open = anchored.filter(a => a.issue.status === 'open');
+  const closed = anchored.filter(a => a.issue.status !== 'open');
+
+  const renderIssue = ({ issue, line, stale }: typeof anchored[number]) => (
+    <div key={issue.id} className={`bg-[#161b22] border border-[#30363d] p-2 rounded flex items-start gap-3 ${issue.status === 'open' ? '' : 'opacity-60'}`}>
+      <div className={`mt-1 p-1 rounded ${SEVERITY_STYLES[issue.severity]}`}>
+        <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" /></svg>
+      </div>
+      <button onClick={() => onReveal(line)} className="flex-1 text-left">
+        <div className="text-[10px] font-bold uppercase tracking-wider mb-1">
+          {issue.severity} Severity
+          {issue.detector && <span className="ml-2 normal-case tracking-normal font-normal text-gray-500 code-font">{issue.detector}</span>}
+          {issue.status !== 'open' && <span className="ml-2 text-gray-500">{STATUS_LABELS[issue.status]}</span>}
+        </div>
+        <div className="text-xs text-gray-400 hover:text-gray-200">
+          {issue.message} <span className="opacity-40 ml-1">(Line {line}{stale ? ', code changed' : ''})</span>
+        </div>
+      </button>
+      <div className="flex gap-2 text-[10px] text-gray-500 flex-shrink-0">
+        {issue.status === 'open' ? (
+          <>
+            <button onClick={() => onSetStatus(issue.id, 'dismissed')} className="hover:text-white">Dismiss</button>
+            <button onClick={() => onSetStatus(issue.id, 'wontfix')} className="hover:text-white">Won't fix</button>
+          </>
+        ) : (
+          <button onClick={() => onSetStatus(issue.id, 'open')} className="hover:text-white">Reopen</button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="mt-4 p-4 bg-blue-900/10 border border-blue-500/20 rounded-xl">
+      <div className="text-blue-400 font-bold text-[10px] mb-3 uppercase tracking-widest flex items-center gap-2">
+        <StatusDot status="busy" /> AI Smart Audit
+        <span className="normal-case tracking-normal font-normal text-gray-500 code-font truncate">{path}</span>
+        <span className="normal-case tracking-normal font-normal text-gray-600 ml-auto flex-shrink-0">
+          {report.model} · {new Date(report.createdAt).toLocaleString()}{outdated ? ' · file changed since' : ''}
+        </span>
+      </div>
+      <div className="text-gray-300 mb-3">{report.summary}</div>
+      <div className="space-y-2">
+        {open.map(renderIssue)}
+        {!open.length && <div className="text-xs text-gray-500">No open findings.</div>}
+      </div>
+      {closed.length > 0 && (
+        <div className="mt-3">
+          <button onClick={() => setShowClosed((v: boolean) => !v)} className="text-[10px] text-gray-500 hover:text-gray-300">
+            {showClosed ? '▾' : '▸'} {closed.length} dismissed or won't fix
+          </button>
+          {showClosed && <div className="space-y-2 mt-2">{closed.map(renderIssue)}</div>}
+        </div>
+      )}
+      {report.edits?.map(edit => (
+        <button
+          key={edit.path}
+          onClick={() => onReviewEdit(edit)}
+          className="mt-3 mr-2 px-3 py-1 rounded border border-blue-500/40 text-blue-300 hover:bg-blue-500/10 text-[10px] font-bold uppercase tracking-wider"
+        >
+          Review fix for {edit.path}
+        </button>
+      ))}
+    </div>
+  );
+};
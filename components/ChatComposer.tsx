@@ -0,0 +1,143 @@
+import React, { useRef, useState } from 'react';
+import { ChatContextItem } from '../types';
+import { addContextItem, contextLabel } from '../services/chatContext';
+
+interface MentionState {
+  query: string;
+  // Offset of the "@" in the input.
+  start: number;
+  index: number;
+}
+
+const MENTION = /(^|\s)@(\S*)$/;
+
+const formatTokens = (n: number) => n >= 1000 ? `${(n / 1000).toFixed(n >= 10000 ? 0 : 1)}k` : String(n);
+
+// The chat input: "@" opens a picker of files, folders, the selection, terminal output and
+// failed workflow runs; picked items show as removable chips above the input.
+export const ChatComposer: React.FC<{
+  value: string,
+  onChange: (value: string) => void,
+  items: ChatContextItem[],
+  onItemsChange: (items: ChatContextItem[]) => void,
+  // Sent when nothing is attached, e.g. the active file.
+  fallbackLabel?: string,
+  candidates: (query: string) => { item: ChatContextItem, detail: string }[],
+  tokens: number,
+  budget: number,
+  truncated: boolean,
+  streaming: boolean,
+  onSubmit: () => void,
+  onStop: () => void
+}> = ({ value, onChange, items, onItemsChange, fallbackLabel, candidates, tokens, budget, truncated, streaming, onSubmit, onStop }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [mention, setMention] = useState<MentionState | null>(null);
+  const options = mention ? candidates(mention.query) : [];
+
+  const detectMention = (text: string, caret: number) => {
+    const match = text.slice(0, caret).match(MENTION);
+    setMention(match ? { query: match[2], start: caret - match[2].length - 1, index: 0 } : null);
+  };
+
+  const pick = (item: ChatContextItem) => {
+    if (!mention) return;
+    const caret = mention.start + mention.query.length + 1;
+    onChange(value.slice(0, mention.start) + value.slice(caret));
+    onItemsChange(addContextItem(items, item));
+    setMention(null);
+    inputRef.current?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!mention || !options.length) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setMention({ ...mention, index: (mention.index + step + options.length) % options.length });
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      pick(options[mention.index].item);
+    } else if (e.key === 'Escape') {
+      setMention(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      {mention && options.length > 0 && (
+        <div className="absolute bottom-full mb-2 left-0 right-0 max-h-56 overflow-y-auto bg-[#161b22] border border-[#30363d] rounded-lg shadow-xl z-30 p-1">
+          {options.map(({ item, detail }, i) => (
+            <button
+              key={contextLabel(item)}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(item);
+              }}
+              className={`w-full flex items-center justify-between gap-2 px-2 py-1 rounded text-left text-[11px] ${i === mention.index ? 'bg-[#21262d] text-white' : 'text-gray-300'}`}
+            >
+              <span className="code-font truncate">@{contextLabel(item)}</span>
+              <span className="text-[10px] text-gray-500 flex-shrink-0">{detail}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-1 mb-2 text-[10px]">
+        {items.map(item => (
+          <span key={contextLabel(item)} className="flex items-center gap-1 pl-1.5 pr-1 py-0.5 rounded bg-blue-500/15 text-blue-300 border border-blue-500/30 code-font max-w-full">
+            <span className="truncate">@{contextLabel(item)}</span>
+            <button onClick={() => onItemsChange(items.filter(i => i !== item))} className="hover:text-white">×</button>
+          </span>
+        ))}
+        {!items.length && fallbackLabel && (
+          <span title="Sent when nothing else is attached" className="px-1.5 py-0.5 rounded border border-dashed border-[#30363d] text-gray-500 code-font truncate">{fallbackLabel}</span>
+        )}
+        <span
+          title={truncated ? 'Context exceeds the budget and will be truncated' : 'Estimated context size'}
+          className={`ml-auto flex-shrink-0 ${truncated ? 'text-yellow-400' : 'text-gray-500'}`}
+        >
+          ~{formatTokens(tokens)} / {formatTokens(budget)} tokens{truncated ? ' (truncated)' : ''}
+        </span>
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          onSubmit();
+        }}
+        className="relative"
+      >
+        <input
+          ref={inputRef}
+          type="text"
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            detectMention(e.target.value, e.target.selectionStart ?? e.target.value.length);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setMention(null)}
+          placeholder="Ask intelligence agent... (@ to attach context)"
+          className="w-full bg-[#161b22] border border-[#30363d] rounded-xl py-2.5 pl-4 pr-10 text-xs text-gray-200 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-all shadow-inner"
+        />
+        {streaming ? (
+          <button
+            type="button"
+            title="Stop generating"
+            onClick={onStop}
+            className="absolute right-2.5 top-2.5 text-red-400 hover:text-red-300 transition-colors"
+          >
+            <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8 7a1 1 0 00-1 1v4a1 1 0 001 1h4a1 1 0 001-1V8a1 1 0 00-1-1H8z" clipRule="evenodd" /></svg>
+          </button>
+        ) : (
+          <button
+            type="submit"
+            className="absolute right-2.5 top-2.5 text-blue-500 hover:text-blue-400 transition-colors"
+          >
+            <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20"><path d="M10.894 2.553a1 1 0 00-1.788 0l-7 14a1 1 0 001.169 1.409l5-1.429A1 1 0 009 15.571V11a1 1 0 112 0v4.571a1 1 0 00.725.962l5 1.428a1 1 0 001.17-1.408l-7-14z" /></svg>
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,238 @@
+import React, { useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { AuditIssueStatus, Diagnostic, DiagnosticSeverity, EditorBuffer, EditorSelection, TerminalTheme } from '../types';
+import { HighlightCache, Token, TokenType, updateHighlight } from '../services/highlighter';
+import { useVirtualRows } from './useVirtualRows';
+
+const LINE_HEIGHT = 20;
+const INDENT = '    ';
+
+const GUTTER_MARKERS: Record<DiagnosticSeverity, { icon: string, className: string, underline: string }> = {
+  error: { icon: '●', className: 'text-red-400', underline: '#f85149' },
+  warning: { icon: '▲', className: 'text-yellow-400', underline: '#d29922' },
+  info: { icon: '◆', className: 'text-blue-400', underline: '#58a6ff' }
+};
+
+const worstSeverity = (diagnostics: Diagnostic[]): DiagnosticSeverity =>
+  diagnostics.some(d => d.severity === 'error') ? 'error' : diagnostics.some(d => d.severity === 'warning') ? 'warning' : 'info';
+
+// Shown while the pointer is over a gutter marker; audit findings can be dismissed from here.
+const DiagnosticCard: React.FC<{
+  diagnostics: Diagnostic[],
+  onSetAuditStatus?: (issueId: string, status: AuditIssueStatus) => void
+}> = ({ diagnostics, onSetAuditStatus }) => (
+  <div className="absolute left-full top-0 ml-2 z-20 w-80 p-2 space-y-2 rounded-lg border border-[#30363d] bg-[#161b22] shadow-xl text-left font-sans text-xs cursor-default">
+    {diagnostics.map((d, i) => (
+      <div key={i} className="flex items-start gap-2">
+        <span className={`${GUTTER_MARKERS[d.severity].className} text-[10px] mt-0.5`}>{GUTTER_MARKERS[d.severity].icon}</span>
+        <div className="flex-1 min-w-0">
+          <div className="text-gray-300 whitespace-normal">{d.message}</div>
+          <div className="text-[10px] text-gray-500">{d.source}{d.code ? `(${d.code})` : ''}</div>
+          {d.auditIssueId && onSetAuditStatus && (
+            <div className="flex gap-3 mt-1 text-[10px] text-gray-500">
+              <button onClick={() => onSetAuditStatus(d.auditIssueId!, 'dismissed')} className="hover:text-white">Dismiss</button>
+              <button onClick={() => onSetAuditStatus(d.auditIssueId!, 'wontfix')} className="hover:text-white">Won't fix</button>
+            </div>
+          )}
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+// Token colours follow the terminal theme so the editor and console always match.
+export const SYNTAX_THEMES: Record<TerminalTheme, Record<TokenType, string>> = {
+  'github-dark': {
+    plain: 'text-gray-300', keyword: 'text-[#ff7b72]', type: 'text-[#ffa657]', builtin: 'text-[#79c0ff]',
+    string: 'text-[#a5d6ff]', number: 'text-[#79c0ff]', comment: 'text-[#8b949e] italic', function: 'text-[#d2a8ff]',
+    property: 'text-[#7ee787]', constant: 'text-[#79c0ff]', operator: 'text-[#ff7b72]', punctuation: 'text-gray-400',
+    heading: 'text-[#79c0ff] font-bold', emphasis: 'text-gray-100 font-semibold', link: 'text-[#58a6ff] underline', code: 'text-[#a5d6ff]'
+  },
+  'cyberpunk': {
+    plain: 'text-[#c0caf5]', keyword: 'text-[#bb9af7]', type: 'text-[#2ac3de]', builtin: 'text-[#7dcfff]',
+    string: 'text-[#9ece6a]', number: 'text-[#ff9e64]', comment: 'text-[#565f89] italic', function: 'text-[#7aa2f7]',
+    property: 'text-[#73daca]', constant: 'text-[#ff9e64]', operator: 'text-[#89ddff]', punctuation: 'text-[#a9b1d6]',
+    heading: 'text-[#f7768e] font-bold', emphasis: 'text-[#e0af68] font-semibold', link: 'text-[#7aa2f7] underline', code: 'text-[#9ece6a]'
+  },
+  'monokai': {
+    plain: 'text-[#f8f8f2]', keyword: 'text-[#f92672]', type: 'text-[#66d9ef] italic', builtin: 'text-[#66d9ef]',
+    string: 'text-[#e6db74]', number: 'text-[#ae81ff]', comment: 'text-[#75715e] italic', function: 'text-[#a6e22e]',
+    property: 'text-[#a6e22e]', constant: 'text-[#ae81ff]', operator: 'text-[#f92672]', punctuation: 'text-[#f8f8f2]',
+    heading: 'text-[#a6e22e] font-bold', emphasis: 'text-[#fd971f] font-semibold', link: 'text-[#66d9ef] underline', code: 'text-[#e6db74]'
+  }
+};
+
+// Token arrays are reused for lines an edit did not touch, so memoising on identity
+// keeps React from re-rendering the whole file on every keystroke.
+const HighlightedLine = React.memo<{ tokens: Token[], colors: Record<TokenType, string> }>(({ tokens, colors }) => (
+  <div>
+    {tokens.length ? tokens.map((t, j) => <span key={j} className={colors[t.type]}>{t.text}</span>) : ' '}
+  </div>
+));
+
+interface CodeEditorProps {
+  buffer: EditorBuffer;
+  language?: string;
+  theme: TerminalTheme;
+  diagnostics?: Diagnostic[];
+  onChange: (content: string, selection: EditorSelection) => void;
+  onSelect: (selection: EditorSelection) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onScroll?: (scrollTop: number) => void;
+  onFocus?: () => void;
+  onSetAuditStatus?: (issueId: string, status: AuditIssueStatus) => void;
+}
+
+// Transparent textarea layered over the rendered lines: the browser handles caret,
+// selection, IME and clipboard while we keep full control of how lines are painted.
+export const CodeEditor: React.FC<CodeEditorProps> = ({ buffer, language = 'plaintext', theme, diagnostics = [], onChange, onSelect, onUndo, onRedo, onScroll, onFocus, onSetAuditStatus }) => {
+  const [hoveredLine, setHoveredLine] = useState<number | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HighlightCache | undefined>(undefined);
+  const highlight = useMemo(() => {
+    highlightRef.current = updateHighlight(highlightRef.current, language, buffer.content);
+    return highlightRef.current;
+  }, [buffer.content, language]);
+  const lines = highlight.lines;
+  const colors = SYNTAX_THEMES[theme];
+  const linesRef = useRef<HTMLDivElement>(null);
+  // Only the lines in view are painted; the textarea still holds the whole file for editing.
+  const { start, end, padTop, totalHeight } = useVirtualRows(scrollRef, linesRef, lines.length, LINE_HEIGHT);
+  // Unrendered lines cannot size the content, so the longest line sets the width up front.
+  const maxColumns = useMemo(() => lines.reduce((max, line) => Math.max(max, line.length), 0), [lines]);
+
+  const mountedRef = useRef(false);
+
+  // Scrolling only moves this ref, so it never re-renders the App; the position is reported
+  // on blur and on unmount, which is when switching tabs (editors are keyed per file) needs it.
+  const scrollTopRef = useRef(buffer.scrollTop);
+  const reportedScrollRef = useRef(buffer.scrollTop);
+  const onScrollRef = useRef(onScroll);
+  onScrollRef.current = onScroll;
+  const reportScroll = () => {
+    if (scrollTopRef.current === reportedScrollRef.current) return;
+    reportedScrollRef.current = scrollTopRef.current;
+    onScrollRef.current?.(scrollTopRef.current);
+  };
+
+  // Editors are keyed per file, so a freshly mounted editor is a tab being revisited.
+  useLayoutEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = buffer.scrollTop;
+    return reportScroll;
+  }, []);
+
+  // Undo/redo replace the content from outside, so restore the caret they recorded.
+  useLayoutEffect(() => {
+    const el = textareaRef.current;
+    if (!el) return;
+    if (el.selectionStart !== buffer.selection.start || el.selectionEnd !== buffer.selection.end) {
+      el.setSelectionRange(buffer.selection.start, buffer.selection.end);
+      // A selection set from outside after mount (undo, jump-to-problem) should be revealed.
+      const scroller = scrollRef.current;
+      if (mountedRef.current && scroller) {
+        const top = buffer.content.slice(0, buffer.selection.start).split('\n').length * LINE_HEIGHT;
+        if (top < scroller.scrollTop + LINE_HEIGHT || top > scroller.scrollTop + scroller.clientHeight - LINE_HEIGHT) {
+          scroller.scrollTop = Math.max(top - scroller.clientHeight / 2, 0);
+        }
+        el.focus({ preventScroll: true });
+      }
+    }
+    mountedRef.current = true;
+  }, [buffer.content, buffer.selection]);
+
+  const diagnosticsByLine = useMemo(() => {
+    const map = new Map<number, Diagnostic[]>();
+    diagnostics.forEach(d => map.set(d.line, [...(map.get(d.line) || []), d]));
+    return map;
+  }, [diagnostics]);
+
+  const readSelection = (el: HTMLTextAreaElement): EditorSelection => ({ start: el.selectionStart, end: el.selectionEnd });
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const mod = e.ctrlKey || e.metaKey;
+    const key = e.key.toLowerCase();
+    if (mod && key === 'z') {
+      e.preventDefault();
+      e.shiftKey ? onRedo() : onUndo();
+    } else if (mod && key === 'y') {
+      e.preventDefault();
+      onRedo();
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      const el = e.currentTarget;
+      const { start, end } = readSelection(el);
+      const next = buffer.content.slice(0, start) + INDENT + buffer.content.slice(end);
+      onChange(next, { start: start + INDENT.length, end: start + INDENT.length });
+    }
+  };
+
+  return (
+    <div
+      ref={scrollRef}
+      onScroll={(e) => { scrollTopRef.current = e.currentTarget.scrollTop; }}
+      className="absolute inset-0 overflow-auto bg-[#0d1117] code-font text-[13px] select-text"
+    >
+      <div className="relative flex w-max min-w-full min-h-full p-4" style={{ lineHeight: `${LINE_HEIGHT}px` }}>
+        <div className="w-10 mr-4 text-right text-gray-600 select-none flex-shrink-0" style={{ paddingTop: padTop }}>
+          {lines.slice(start, end).map((_, offset) => {
+            const i = start + offset;
+            const lineDiagnostics = diagnosticsByLine.get(i + 1);
+            if (!lineDiagnostics) return <div key={i} className="opacity-50">{i + 1}</div>;
+            const marker = GUTTER_MARKERS[worstSeverity(lineDiagnostics)];
+            return (
+              <div
+                key={i}
+                onMouseEnter={() => setHoveredLine(i + 1)}
+                onMouseLeave={() => setHoveredLine(null)}
+                className={`relative cursor-help select-none ${marker.className}`}
+              >
+                <span className="mr-1 text-[10px]">{marker.icon}</span>{i + 1}
+                {hoveredLine === i + 1 && <DiagnosticCard diagnostics={lineDiagnostics} onSetAuditStatus={onSetAuditStatus} />}
+              </div>
+            );
+          })}
+        </div>
+        <div ref={linesRef} className="relative flex-1" style={{ height: totalHeight, minWidth: `${maxColumns + 1}ch` }}>
+          <pre className={`m-0 whitespace-pre pointer-events-none ${colors.plain}`} style={{ paddingTop: padTop }} aria-hidden="true">
+            {highlight.tokens.slice(start, end).map((tokens, offset) => <HighlightedLine key={start + offset} tokens={tokens} colors={colors} />)}
+          </pre>
+          {diagnostics.filter(d => d.line > start && d.line <= end).map((d, i) => {
+            const endColumn = d.endLine === d.line ? Math.max(d.endColumn, d.column + 1) : (lines[d.line - 1]?.length || 0) + 1;
+            return (
+              <span
+                key={i}
+                aria-hidden="true"
+                className="absolute pointer-events-none text-transparent whitespace-pre underline decoration-wavy underline-offset-4"
+                style={{
+                  top: (d.line - 1) * LINE_HEIGHT,
+                  left: `${d.column - 1}ch`,
+                  width: `${endColumn - d.column}ch`,
+                  height: LINE_HEIGHT,
+                  textDecorationColor: GUTTER_MARKERS[d.severity].underline
+                }}
+              >
+                {' '.repeat(Math.max(endColumn - d.column, 1))}
+              </span>
+            );
+          })}
+          <textarea
+            ref={textareaRef}
+            value={buffer.content}
+            spellCheck={false}
+            autoCapitalize="off"
+            autoCorrect="off"
+            wrap="off"
+            onChange={(e) => onChange(e.target.value, readSelection(e.target))}
+            onSelect={(e) => onSelect(readSelection(e.currentTarget))}
+            onKeyDown={handleKeyDown}
+            onFocus={onFocus}
+            onBlur={reportScroll}
+            className="absolute inset-0 w-full resize-none overflow-hidden bg-transparent text-transparent caret-blue-400 outline-none border-none p-0 m-0 whitespace-pre selection:bg-blue-500/30"
+            style={{ font: 'inherit', lineHeight: `${LINE_HEIGHT}px`, height: lines.length * LINE_HEIGHT }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
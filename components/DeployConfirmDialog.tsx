@@ -0,0 +1,62 @@
+import React from 'react';
+import { formatEther, formatGwei } from 'viem';
+import { abiConstructor, formatValue } from '../services/abi';
+import { DeploymentPlan, isLocalChain, testKeyWarning } from '../services/networks';
+import { GlassCard, TechLoader } from './UiverseElements';
+
+const Row: React.FC<{ label: string, children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex justify-between gap-4">
+    <span className="text-gray-500 flex-shrink-0">{label}</span>
+    <span className="text-gray-200 code-font text-right break-all">{children}</span>
+  </div>
+);
+
+// Shown before a deployment is sent to a real network: where it goes, who pays and roughly how much.
+export const DeployConfirmDialog: React.FC<{
+  plan: DeploymentPlan,
+  sending: boolean,
+  onConfirm: () => void,
+  onCancel: () => void
+}> = ({ plan, sending, onConfirm, onCancel }) => {
+  const inputs = abiConstructor(plan.contract.abi).inputs;
+  const cost = plan.gas * plan.gasPrice + plan.value;
+  const warnings = [
+    plan.source === 'local' && !isLocalChain(plan.chainId) && testKeyWarning(plan.chainId),
+    plan.chainId === 1 && 'This is Ethereum mainnet. The deployment costs real ETH and cannot be undone.'
+  ].filter(Boolean) as string[];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4" onClick={() => !sending && onCancel()}>
+      <div onClick={(e) => e.stopPropagation()} className="w-full max-w-md">
+        <GlassCard title={`Deploy ${plan.contract.name}`}>
+          <div className="text-[11px] space-y-1.5">
+            <Row label="Network">{plan.network.name} (chain {plan.chainId})</Row>
+            <Row label="RPC">{plan.network.rpcUrl}</Row>
+            <Row label="From">{plan.from} ({plan.source === 'local' ? 'local test key' : 'browser wallet'})</Row>
+            <Row label="Source">{plan.contract.sourcePath}</Row>
+            {inputs.map((input, i) => (
+              <Row key={i} label={input.name || `arg ${i}`}>{formatValue(plan.args[i])} <span className="text-gray-600">{input.type}</span></Row>
+            ))}
+            {plan.value > 0n && <Row label="Value">{formatEther(plan.value)} ETH</Row>}
+            <div className="border-t border-[#30363d] my-2"></div>
+            <Row label="Estimated gas">{plan.gas.toLocaleString()}</Row>
+            <Row label="Gas price">{formatGwei(plan.gasPrice)} gwei</Row>
+            <Row label="Estimated cost">{formatEther(cost)} ETH</Row>
+            {warnings.map(w => <div key={w} className="mt-2 p-2 rounded border border-red-500/40 bg-red-500/10 text-red-300">{w}</div>)}
+          </div>
+          <div className="flex justify-end items-center gap-3 mt-4 text-[10px] uppercase tracking-widest font-bold">
+            {sending && <TechLoader size="w-1 h-1" />}
+            <button onClick={onCancel} disabled={sending} className="text-gray-500 hover:text-white disabled:opacity-50">Cancel</button>
+            <button
+              onClick={onConfirm}
+              disabled={sending}
+              className="px-3 py-1.5 rounded border border-green-500/40 text-green-300 hover:bg-green-500/10 disabled:opacity-50"
+            >
+              {sending ? (plan.source === 'injected' ? 'Confirm in wallet…' : 'Deploying…') : 'Deploy'}
+            </button>
+          </div>
+        </GlassCard>
+      </div>
+    </div>
+  );
+};
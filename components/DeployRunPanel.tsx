@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { AbiParameter, formatEther, parseUnits } from 'viem';
+import { CompiledContract, DeployedContract, Hex, SandboxAccount, SandboxTxResult } from '../types';
+import { AbiFunction, abiConstructor, abiFunctions, formatValue, isReadOnly, parseArgs, signatureOf } from '../services/abi';
+import { TechLoader } from './UiverseElements';
+
+type Unit = 'wei' | 'gwei' | 'ether';
+const UNIT_DECIMALS: Record<Unit, number> = { wei: 0, gwei: 9, ether: 18 };
+
+export const MUTABILITY_STYLES: Record<AbiFunction['stateMutability'], string> = {
+  view: 'border-blue-500/40 text-blue-300 hover:bg-blue-500/10',
+  pure: 'border-blue-500/40 text-blue-300 hover:bg-blue-500/10',
+  nonpayable: 'border-orange-500/40 text-orange-300 hover:bg-orange-500/10',
+  payable: 'border-red-500/40 text-red-300 hover:bg-red-500/10'
+};
+
+const inputClass = 'w-full min-w-0 bg-[#161b22] border border-[#30363d] rounded px-1.5 py-1 text-[11px] text-gray-300 code-font focus:outline-none focus:ring-1 focus:ring-blue-500';
+const labelClass = 'text-[10px] text-gray-500 font-semibold uppercase tracking-widest';
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+const placeholderFor = (param: AbiParameter) =>
+  param.type.endsWith(']') || param.type === 'tuple' ? `${param.type} (JSON)` : param.type;
+
+// One input per ABI parameter plus the button that submits them; parse errors stay inline.
+export const ArgsForm: React.FC<{
+  label: string,
+  inputs: readonly AbiParameter[],
+  buttonClass: string,
+  disabled: boolean,
+  onSubmit: (args: unknown[]) => void
+}> = ({ label, inputs, buttonClass, disabled, onSubmit }) => {
+  const [values, setValues] = useState<string[]>(() => inputs.map(() => ''));
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = () => {
+    try {
+      const args = parseArgs(inputs, values);
+      setError(null);
+      onSubmit(args);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-1">
+        <button
+          disabled={disabled}
+          onClick={submit}
+          className={`px-2 py-1 rounded border text-[11px] font-medium code-font transition-colors disabled:opacity-50 disabled:pointer-events-none ${inputs.length ? 'flex-shrink-0' : 'flex-1 text-left'} ${buttonClass}`}
+        >
+          {label}
+        </button>
+        {inputs.length === 1 && (
+          <input
+            value={values[0]}
+            placeholder={`${inputs[0].name || 'arg'}: ${placeholderFor(inputs[0])}`}
+            onChange={(e) => setValues([e.target.value])}
+            onKeyDown={(e) => e.key === 'Enter' && submit()}
+            className={inputClass}
+          />
+        )}
+      </div>
+      {inputs.length > 1 && (
+        <div className="pl-2 space-y-1 border-l border-[#30363d]">
+          {inputs.map((input, i) => (
+            <input
+              key={i}
+              value={values[i]}
+              placeholder={`${input.name || `arg ${i}`}: ${placeholderFor(input)}`}
+              onChange={(e) => setValues(values.map((v, j) => j === i ? e.target.value : v))}
+              onKeyDown={(e) => e.key === 'Enter' && submit()}
+              className={inputClass}
+            />
+          ))}
+        </div>
+      )}
+      {error && <div className="text-[10px] text-red-400">{error}</div>}
+    </div>
+  );
+};
+
+const ResultItem: React.FC<{ result: SandboxTxResult }> = ({ result }) => (
+  <div className={`rounded border p-2 text-[10px] code-font space-y-1 ${result.success ? 'border-[#30363d]' : 'border-red-500/40'}`}>
+    <div className="flex items-center justify-between gap-2">
+      <span className={result.success ? 'text-green-400' : 'text-red-400'}>{result.success ? '✓' : '✗'}</span>
+      <span className="flex-1 truncate text-gray-300">
+        {result.kind === 'deploy' ? `deploy ${result.contractName}` : `${result.contractName}.${result.functionName}`}
+      </span>
+      <span className="text-gray-600">{result.kind}</span>
+    </div>
+    <div className="flex justify-between text-gray-500"><span>gas used</span><span>{result.gasUsed.toString()}</span></div>
+    {result.kind === 'deploy' && result.to && (
+      <div className="flex justify-between text-gray-500"><span>address</span><span className="text-gray-300" title={result.to}>{shortAddress(result.to)}</span></div>
+    )}
+    {result.returnValue !== undefined && (
+      <div className="text-gray-500">returns <span className="text-blue-300 break-all">{formatValue(result.returnValue)}</span></div>
+    )}
+    {result.error && <div className="text-red-400 break-all">{result.error}</div>}
+    {result.events.map((event, i) => (
+      <div key={i} className="text-gray-500 break-all">event <span className="text-purple-300">{event.name}</span> {formatValue(event.args)}</div>
+    ))}
+    {result.stateChanges.map((change, i) => (
+      <div key={i} className="text-gray-500 break-all" title={`${change.before ?? 'unknown'} → ${change.after}`}>
+        slot {BigInt(change.slot).toString()}: {change.before ? BigInt(change.before).toString() : '?'} → <span className="text-yellow-300">{BigInt(change.after).toString()}</span>
+      </div>
+    ))}
+  </div>
+);
+
+export const DeployRunPanel: React.FC<{
+  accounts: SandboxAccount[],
+  contracts: CompiledContract[],
+  deployed: DeployedContract[],
+  results: SandboxTxResult[],
+  busy: boolean,
+  onDeploy: (contract: CompiledContract, args: unknown[], from: Hex, value: bigint) => void,
+  onCall: (contract: DeployedContract, fn: AbiFunction, args: unknown[], from: Hex, value: bigint) => void,
+  onRemove: (address: Hex) => void,
+  onClearResults: () => void,
+  onReset: () => void
+}> = ({ accounts, contracts, deployed, results, busy, onDeploy, onCall, onRemove, onClearResults, onReset }) => {
+  const [from, setFrom] = useState<Hex | ''>('');
+  const [amount, setAmount] = useState('0');
+  const [unit, setUnit] = useState<Unit>('ether');
+  const [contractKey, setContractKey] = useState('');
+  const [valueError, setValueError] = useState<string | null>(null);
+
+  const deployable = contracts.filter(c => c.bytecode && c.bytecode !== '0x');
+  const keyOf = (c: CompiledContract) => `${c.sourcePath}:${c.name}`;
+  const selected = deployable.find(c => keyOf(c) === contractKey) || deployable[0];
+  const sender = (from || accounts[0]?.address) as Hex | undefined;
+
+  // The value field applies to whichever payable call or deploy is submitted next.
+  const readValue = () => {
+    try {
+      const value = parseUnits(amount.trim() || '0', UNIT_DECIMALS[unit]);
+      setValueError(null);
+      return value;
+    } catch {
+      setValueError(`"${amount}" is not a valid amount`);
+      return null;
+    }
+  };
+
+  const submit = (send: (from: Hex, value: bigint) => void) => {
+    const value = readValue();
+    if (sender && value !== null) send(sender, value);
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto px-3 pb-4 space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className={labelClass}>Account</span>
+          {busy && <TechLoader size="w-1 h-1" />}
+        </div>
+        <select
+          value={sender || ''}
+          onChange={(e) => setFrom(e.target.value as Hex)}
+          className={inputClass}
+        >
+          {accounts.map(a => (
+            <option key={a.address} value={a.address}>{shortAddress(a.address)} ({Number(formatEther(a.balance)).toFixed(4)} ETH)</option>
+          ))}
+        </select>
+        <span className={labelClass}>Value</span>
+        <div className="flex gap-1">
+          <input value={amount} onChange={(e) => setAmount(e.target.value)} className={inputClass} />
+          <select value={unit} onChange={(e) => setUnit(e.target.value as Unit)} className={`${inputClass} !w-20`}>
+            {(Object.keys(UNIT_DECIMALS) as Unit[]).map(u => <option key={u} value={u}>{u}</option>)}
+          </select>
+        </div>
+        {valueError && <div className="text-[10px] text-red-400">{valueError}</div>}
+      </div>
+
+      <div className="space-y-2">
+        <span className={labelClass}>Contract</span>
+        {deployable.length ? (
+          <>
+            <select value={selected ? keyOf(selected) : ''} onChange={(e) => setContractKey(e.target.value)} className={inputClass}>
+              {deployable.map(c => <option key={keyOf(c)} value={keyOf(c)}>{c.name} — {c.sourcePath}</option>)}
+            </select>
+            {selected && (
+              <ArgsForm
+                key={keyOf(selected)}
+                label="Deploy"
+                inputs={abiConstructor(selected.abi).inputs}
+                buttonClass="border-green-500/40 text-green-300 hover:bg-green-500/10"
+                disabled={busy || !sender}
+                onSubmit={(args) => submit((account, value) => onDeploy(selected, args, account, value))}
+              />
+            )}
+          </>
+        ) : (
+          <div className="text-[11px] text-gray-500">Compile the workspace to deploy its contracts.</div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className={labelClass}>Deployed Contracts</span>
+          <button onClick={onReset} disabled={busy} className="text-[10px] text-gray-500 hover:text-red-400 uppercase tracking-widest disabled:opacity-50">Reset Chain</button>
+        </div>
+        {!deployed.length && <div className="text-[11px] text-gray-500">Nothing deployed yet.</div>}
+        {deployed.map(contract => (
+          <div key={contract.address} className="bg-[#161b22] border border-[#30363d] rounded-lg p-2 space-y-1.5">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs font-semibold text-gray-200 truncate">{contract.name}</span>
+              <span className="text-[10px] text-gray-500 code-font" title={contract.address}>{shortAddress(contract.address)}</span>
+              <button title="Remove from list" onClick={() => onRemove(contract.address)} className="text-gray-600 hover:text-white">×</button>
+            </div>
+            {abiFunctions(contract.abi).map(fn => (
+              <ArgsForm
+                key={signatureOf(fn)}
+                label={fn.name}
+                inputs={fn.inputs}
+                buttonClass={MUTABILITY_STYLES[fn.stateMutability]}
+                disabled={busy || !sender}
+                onSubmit={(args) => submit((account, value) => onCall(contract, fn, args, account, isReadOnly(fn) ? 0n : value))}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className={labelClass}>Results</span>
+          {results.length > 0 && <button onClick={onClearResults} className="text-[10px] text-gray-500 hover:text-white uppercase tracking-widest">Clear</button>}
+        </div>
+        {!results.length && <div className="text-[11px] text-gray-500">Calls and transactions show up here.</div>}
+        {results.map(result => <ResultItem key={result.id} result={result} />)}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { DiffHunk, EditReview } from '../types';
+import { DIFF_CONTEXT_LINES } from '../services/diff';
+
+type ViewMode = 'inline' | 'split';
+
+const lineClass = {
+  same: 'text-gray-400',
+  del: 'bg-red-500/10 text-red-300',
+  add: 'bg-green-500/10 text-green-300',
+  pad: 'bg-[#161b22]'
+};
+
+const DiffLine: React.FC<{ kind: keyof typeof lineClass, number?: number, text?: string }> = ({ kind, number, text }) => (
+  <div className={`flex whitespace-pre ${lineClass[kind]}`}>
+    <span className="w-10 pr-2 text-right text-gray-600 select-none flex-shrink-0">{number ?? ''}</span>
+    <span className="w-4 text-center select-none flex-shrink-0 opacity-60">{kind === 'del' ? '-' : kind === 'add' ? '+' : ''}</span>
+    <span>{text ?? ' '}</span>
+  </div>
+);
+
+// Unchanged lines shown around a hunk, numbered as in the original.
+const contextAround = (original: string[], hunk: DiffHunk) => {
+  const beforeStart = Math.max(0, hunk.oldStart - DIFF_CONTEXT_LINES);
+  const afterStart = hunk.oldStart + hunk.oldLines.length;
+  return {
+    before: original.slice(beforeStart, hunk.oldStart).map((text, i) => ({ text, number: beforeStart + i + 1 })),
+    after: original.slice(afterStart, afterStart + DIFF_CONTEXT_LINES).map((text, i) => ({ text, number: afterStart + i + 1 }))
+  };
+};
+
+const HunkView: React.FC<{ hunk: DiffHunk, original: string[], mode: ViewMode }> = ({ hunk, original, mode }) => {
+  const { before, after } = contextAround(original, hunk);
+  const context = (lines: { text: string, number: number }[]) => lines.map(l => <DiffLine key={`c${l.number}`} kind="same" number={l.number} text={l.text} />);
+  const removed = hunk.oldLines.map((text, i) => <DiffLine key={`d${i}`} kind="del" number={hunk.oldStart + i + 1} text={text} />);
+  const added = hunk.newLines.map((text, i) => <DiffLine key={`a${i}`} kind="add" number={hunk.newStart + i + 1} text={text} />);
+
+  if (mode === 'inline') {
+    return <div>{context(before)}{removed}{added}{context(after)}</div>;
+  }
+  // Side by side: the shorter side is padded so unchanged lines stay aligned.
+  const rows = Math.max(removed.length, added.length);
+  const pad = (n: number, prefix: string) => Array.from({ length: n }, (_, i) => <DiffLine key={`${prefix}${i}`} kind="pad" />);
+  return (
+    <div className="grid grid-cols-2 divide-x divide-[#30363d]">
+      <div className="overflow-x-auto">{context(before)}{removed}{pad(rows - removed.length, 'pl')}{context(after)}</div>
+      <div className="overflow-x-auto">{context(before)}{added}{pad(rows - added.length, 'pr')}{context(after)}</div>
+    </div>
+  );
+};
+
+export const DiffReview: React.FC<{
+  review: EditReview,
+  onToggleHunk: (id: string) => void,
+  onSetAll: (accepted: boolean) => void,
+  onApply: () => void,
+  onCancel: () => void
+}> = ({ review, onToggleHunk, onSetAll, onApply, onCancel }) => {
+  const [mode, setMode] = useState<ViewMode>('inline');
+  const original = review.original.split('\n');
+  const acceptedCount = review.hunks.length - review.rejectedHunkIds.length;
+
+  return (
+    <div className="absolute inset-0 z-20 bg-[#0d1117] flex flex-col">
+      <div className="h-10 flex items-center gap-3 px-4 border-b border-[#30363d] bg-[#161b22] text-xs">
+        <span className="text-gray-300 code-font truncate">{review.path}</span>
+        <span className="text-gray-500">{review.fileId ? 'AI proposed changes' : 'AI proposed new file'}</span>
+        <div className="flex-1"></div>
+        <div className="flex rounded border border-[#30363d] overflow-hidden text-[10px]">
+          {(['inline', 'split'] as const).map(m => (
+            <button key={m} onClick={() => setMode(m)} className={`px-2 py-0.5 ${mode === m ? 'bg-[#30363d] text-white' : 'text-gray-500 hover:text-gray-300'}`}>
+              {m === 'inline' ? 'Inline' : 'Side by side'}
+            </button>
+          ))}
+        </div>
+        <button onClick={() => onSetAll(true)} className="text-gray-400 hover:text-white">Accept all</button>
+        <button onClick={() => onSetAll(false)} className="text-gray-400 hover:text-white">Reject all</button>
+        <button onClick={onCancel} className="text-gray-400 hover:text-white">Cancel</button>
+        <button
+          onClick={onApply}
+          disabled={!acceptedCount}
+          className="px-3 py-1 rounded bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-50 disabled:pointer-events-none"
+        >
+          Apply {acceptedCount}/{review.hunks.length}
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 code-font text-xs">
+        {!review.hunks.length && <div className="text-gray-500 font-sans">The proposal matches the current file; there is nothing to apply.</div>}
+        {review.hunks.map((hunk, i) => {
+          const accepted = !review.rejectedHunkIds.includes(hunk.id);
+          return (
+            <div key={hunk.id} className={`rounded-lg border overflow-hidden ${accepted ? 'border-[#30363d]' : 'border-[#30363d] opacity-50'}`}>
+              <div className="flex items-center justify-between px-3 py-1 bg-[#161b22] border-b border-[#30363d] font-sans text-[10px] text-gray-500">
+                <span>Change {i + 1} of {review.hunks.length} · line {hunk.oldStart + 1}</span>
+                <button
+                  onClick={() => onToggleHunk(hunk.id)}
+                  className={`px-2 py-0.5 rounded border ${accepted ? 'border-green-500/40 text-green-300' : 'border-red-500/40 text-red-300'}`}
+                >
+                  {accepted ? 'Accepted' : 'Rejected'}
+                </button>
+              </div>
+              <HunkView hunk={hunk} original={original} mode={mode} />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,324 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileEntry } from '../types';
+import { findFile, findParent } from '../services/fileTree';
+
+type EntryType = FileEntry['type'];
+
+type PendingEdit =
+  | { mode: 'create'; parentId: string | null; type: EntryType }
+  | { mode: 'rename'; id: string };
+
+interface FileExplorerProps {
+  files: FileEntry[];
+  expandedIds: string[];
+  activeFileId?: string;
+  dirtyIds: string[];
+  onOpen: (id: string) => void;
+  onToggleFolder: (id: string, expanded?: boolean) => void;
+  // Mutations return an error message to show inline, or null on success.
+  onCreate: (parentId: string | null, name: string, type: EntryType) => string | null;
+  onRename: (id: string, name: string) => string | null;
+  onMove: (id: string, targetFolderId: string | null) => string | null;
+  onDelete: (id: string) => void;
+  onImportZip: (file: File) => void;
+  onImportFolder: (files: FileList) => void;
+  // Exports a single folder, or the whole workspace when `id` is null.
+  onExport: (id: string | null) => void;
+}
+
+const FolderIcon = ({ open }: { open: boolean }) => (
+  <svg className="w-3.5 h-3.5 text-blue-400/80 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+    {open
+      ? <path d="M2 6a2 2 0 012-2h5l2 2h5a2 2 0 012 2v1H6.5a2 2 0 00-1.9 1.37L2 16V6zm2.6 5.37A1 1 0 015.55 10.7H18.5a.5.5 0 01.47.66l-1.6 4.8a2 2 0 01-1.9 1.37H3.3l1.3-6.16z" />
+      : <path d="M2 6a2 2 0 012-2h5l2 2h5a2 2 0 012 2v6a2 2 0 01-2 2H4a2 2 0 01-2-2V6z" />}
+  </svg>
+);
+
+const FileIcon = () => (
+  <svg className="w-3.5 h-3.5 text-gray-500 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" /></svg>
+);
+
+export const FileExplorer: React.FC<FileExplorerProps> = ({
+  files, expandedIds, activeFileId, dirtyIds, onOpen, onToggleFolder, onCreate, onRename, onMove, onDelete,
+  onImportZip, onImportFolder, onExport
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [menu, setMenu] = useState<{ x: number; y: number; id: string | null } | null>(null);
+  const [pending, setPendingState] = useState<PendingEdit | null>(null);
+  // Mirrors `pending` so a blur fired while the input unmounts cannot commit twice.
+  const pendingRef = useRef<PendingEdit | null>(null);
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null | undefined>(undefined);
+  const treeRef = useRef<HTMLDivElement>(null);
+  const zipInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!menu) return;
+    const close = () => setMenu(null);
+    window.addEventListener('click', close);
+    return () => window.removeEventListener('click', close);
+  }, [menu]);
+
+  const setPending = (edit: PendingEdit | null) => {
+    pendingRef.current = edit;
+    setPendingState(edit);
+  };
+
+  const isExpanded = (id: string) => expandedIds.includes(id);
+
+  // Folders receive new entries directly; files defer to their parent folder.
+  const targetFolderFor = (id: string | null) => {
+    if (!id) return null;
+    const entry = findFile(files, id);
+    if (!entry) return null;
+    return entry.type === 'folder' ? entry.id : findParent(files, id)?.id || null;
+  };
+
+  const startCreate = (type: EntryType, fromId = selectedId) => {
+    const parentId = targetFolderFor(fromId);
+    if (parentId) onToggleFolder(parentId, true);
+    setPending({ mode: 'create', parentId, type });
+    setDraft('');
+    setError(null);
+  };
+
+  const startRename = (id: string) => {
+    const entry = findFile(files, id);
+    if (!entry) return;
+    setPending({ mode: 'rename', id });
+    setDraft(entry.name);
+    setError(null);
+  };
+
+  const cancelEdit = () => {
+    setPending(null);
+    setError(null);
+    treeRef.current?.focus();
+  };
+
+  const commitEdit = () => {
+    const pending = pendingRef.current;
+    if (!pending) return;
+    const result = pending.mode === 'create'
+      ? onCreate(pending.parentId, draft.trim(), pending.type)
+      : onRename(pending.id, draft.trim());
+    if (result) {
+      setError(result);
+      return;
+    }
+    cancelEdit();
+  };
+
+  const visibleIds = () => {
+    const ids: string[] = [];
+    const walk = (entries: FileEntry[]) => entries.forEach(f => {
+      ids.push(f.id);
+      if (f.children && isExpanded(f.id)) walk(f.children);
+    });
+    walk(files);
+    return ids;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (pending) return;
+    const entry = selectedId ? findFile(files, selectedId) : undefined;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const ids = visibleIds();
+      const index = selectedId ? ids.indexOf(selectedId) : -1;
+      const next = e.key === 'ArrowDown' ? Math.min(index + 1, ids.length - 1) : Math.max(index - 1, 0);
+      setSelectedId(ids[next] || null);
+    } else if (e.key === 'ArrowRight' && entry?.type === 'folder') {
+      onToggleFolder(entry.id, true);
+    } else if (e.key === 'ArrowLeft' && entry) {
+      if (entry.type === 'folder' && isExpanded(entry.id)) onToggleFolder(entry.id, false);
+      else setSelectedId(findParent(files, entry.id)?.id || selectedId);
+    } else if (e.key === 'Enter' && entry) {
+      entry.type === 'folder' ? onToggleFolder(entry.id) : onOpen(entry.id);
+    } else if (e.key === 'F2' && entry) {
+      e.preventDefault();
+      startRename(entry.id);
+    } else if (e.key === 'Delete' && entry) {
+      onDelete(entry.id);
+    } else if (e.key.toLowerCase() === 'n' && !e.ctrlKey && !e.metaKey) {
+      e.preventDefault();
+      startCreate(e.shiftKey ? 'folder' : 'file');
+    }
+  };
+
+  const handleDrop = (targetFolderId: string | null) => {
+    if (dragId) {
+      const result = onMove(dragId, targetFolderId);
+      if (result) setError(result);
+      else if (targetFolderId) onToggleFolder(targetFolderId, true);
+    }
+    setDragId(null);
+    setDropTargetId(undefined);
+  };
+
+  const renderInput = (depth: number, type: EntryType) => (
+    <div style={{ paddingLeft: `${depth * 12}px` }} className="px-2 py-0.5">
+      <div className="flex items-center gap-2">
+        {type === 'folder' ? <FolderIcon open={false} /> : <FileIcon />}
+        <input
+          autoFocus
+          value={draft}
+          onChange={(e) => { setDraft(e.target.value); setError(null); }}
+          onKeyDown={(e) => {
+            e.stopPropagation();
+            if (e.key === 'Enter') commitEdit();
+            if (e.key === 'Escape') cancelEdit();
+          }}
+          onBlur={() => (draft.trim() ? commitEdit() : cancelEdit())}
+          className={`flex-1 min-w-0 bg-[#161b22] border rounded px-1.5 py-0.5 text-xs text-gray-200 focus:outline-none ${error ? 'border-red-500' : 'border-blue-500'}`}
+        />
+      </div>
+      {error && <div className="mt-1 ml-5 text-[10px] text-red-400 bg-red-500/10 border border-red-500/20 rounded px-1.5 py-0.5">{error}</div>}
+    </div>
+  );
+
+  const renderTree = (entries: FileEntry[], parentId: string | null, depth = 0): React.ReactNode => (
+    <>
+      {pending?.mode === 'create' && pending.parentId === parentId && renderInput(depth, pending.type)}
+      {entries.map(file => {
+        const expanded = file.type === 'folder' && isExpanded(file.id);
+        if (pending?.mode === 'rename' && pending.id === file.id) {
+          return <div key={file.id}>{renderInput(depth, file.type)}</div>;
+        }
+        return (
+          <div key={file.id}>
+            <button
+              draggable
+              style={{ paddingLeft: `${depth * 12 + 8}px` }}
+              onClick={() => {
+                setSelectedId(file.id);
+                file.type === 'folder' ? onToggleFolder(file.id) : onOpen(file.id);
+              }}
+              onContextMenu={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                setSelectedId(file.id);
+                setMenu({ x: e.clientX, y: e.clientY, id: file.id });
+              }}
+              onDragStart={(e) => { e.stopPropagation(); setDragId(file.id); }}
+              onDragEnd={() => { setDragId(null); setDropTargetId(undefined); }}
+              onDragOver={(e) => {
+                if (!dragId) return;
+                e.preventDefault();
+                e.stopPropagation();
+                setDropTargetId(targetFolderFor(file.id));
+              }}
+              onDrop={(e) => { e.preventDefault(); e.stopPropagation(); handleDrop(targetFolderFor(file.id)); }}
+              className={`w-full text-left pr-2 py-1 text-sm rounded transition-colors flex items-center gap-2 ${
+                activeFileId === file.id ? 'bg-[#373e47] text-white' : 'text-gray-400 hover:bg-[#21262d] hover:text-gray-200'
+              } ${selectedId === file.id ? 'ring-1 ring-inset ring-blue-500/40' : ''} ${
+                dragId && dropTargetId === file.id && file.type === 'folder' ? 'bg-blue-500/10' : ''
+              }`}
+            >
+              {file.type === 'folder' ? (
+                <>
+                  <span className={`text-[8px] text-gray-500 w-2 transition-transform ${expanded ? 'rotate-90' : ''}`}>▶</span>
+                  <FolderIcon open={expanded} />
+                </>
+              ) : (
+                <>
+                  <span className="w-2"></span>
+                  <FileIcon />
+                </>
+              )}
+              <span className="truncate">{file.name}</span>
+              {dirtyIds.includes(file.id) && <span className="ml-auto text-gray-500 text-[10px]">●</span>}
+            </button>
+            {expanded && file.children && renderTree(file.children, file.id, depth + 1)}
+          </div>
+        );
+      })}
+    </>
+  );
+
+  const menuTarget = menu?.id ? findFile(files, menu.id) : undefined;
+
+  return (
+    <>
+      <div className="px-4 pb-2 flex items-center justify-end gap-1 text-gray-500">
+        <button title="New File (N)" onClick={() => startCreate('file')} className="p-1 rounded hover:text-white hover:bg-[#21262d]">
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 13h6m-3-3v6m5 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
+        </button>
+        <button title="New Folder (Shift+N)" onClick={() => startCreate('folder')} className="p-1 rounded hover:text-white hover:bg-[#21262d]">
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 13h6m-3-3v6m-9 1V7a2 2 0 012-2h6l2 2h6a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2z" /></svg>
+        </button>
+        <button title="Import .zip" onClick={() => zipInputRef.current?.click()} className="p-1 rounded hover:text-white hover:bg-[#21262d]">
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
+        </button>
+        <button title="Import Folder" onClick={() => folderInputRef.current?.click()} className="p-1 rounded hover:text-white hover:bg-[#21262d]">
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2zm9 10v-6m0 0l-3 3m3-3l3 3" /></svg>
+        </button>
+        <button title="Export Workspace as .zip" onClick={() => onExport(null)} className="p-1 rounded hover:text-white hover:bg-[#21262d]">
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+        </button>
+        <button title="Collapse Folders" onClick={() => expandedIds.forEach(id => onToggleFolder(id, false))} className="p-1 rounded hover:text-white hover:bg-[#21262d]">
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" /></svg>
+        </button>
+      </div>
+      <input
+        ref={zipInputRef}
+        type="file"
+        accept=".zip,application/zip"
+        className="hidden"
+        onChange={(e) => { if (e.target.files?.[0]) onImportZip(e.target.files[0]); e.target.value = ''; }}
+      />
+      <input
+        ref={folderInputRef}
+        type="file"
+        multiple
+        className="hidden"
+        {...{ webkitdirectory: '' }}
+        onChange={(e) => { if (e.target.files?.length) onImportFolder(e.target.files); e.target.value = ''; }}
+      />
+      <div
+        ref={treeRef}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        onContextMenu={(e) => { e.preventDefault(); setSelectedId(null); setMenu({ x: e.clientX, y: e.clientY, id: null }); }}
+        onDragOver={(e) => { if (dragId) { e.preventDefault(); setDropTargetId(null); } }}
+        onDrop={(e) => { e.preventDefault(); handleDrop(null); }}
+        className={`flex-1 overflow-y-auto px-2 pb-4 focus:outline-none ${dragId && dropTargetId === null ? 'bg-blue-500/5' : ''}`}
+      >
+        {renderTree(files, null)}
+        {error && !pending && (
+          <div onClick={() => setError(null)} className="mt-2 mx-2 text-[10px] text-red-400 bg-red-500/10 border border-red-500/20 rounded px-2 py-1 cursor-pointer">{error}</div>
+        )}
+      </div>
+
+      {menu && (
+        <div
+          style={{ left: menu.x, top: menu.y }}
+          onClick={(e) => e.stopPropagation()}
+          className="fixed z-[200] min-w-[160px] bg-[#161b22] border border-[#30363d] rounded-md shadow-xl py-1 text-xs text-gray-300"
+        >
+          {[
+            { label: 'New File', action: () => startCreate('file', menu.id) },
+            { label: 'New Folder', action: () => startCreate('folder', menu.id) },
+            ...(menuTarget ? [
+              { label: 'Rename', hint: 'F2', action: () => startRename(menuTarget.id) },
+              ...(menuTarget.type === 'folder' ? [{ label: 'Export as .zip', action: () => onExport(menuTarget.id) }] : []),
+              { label: 'Delete', hint: 'Del', action: () => onDelete(menuTarget.id), danger: true }
+            ] : [])
+          ].map(item => (
+            <button
+              key={item.label}
+              onClick={() => { setMenu(null); item.action(); }}
+              className={`w-full flex justify-between gap-6 text-left px-3 py-1 hover:bg-blue-600/30 ${'danger' in item && item.danger ? 'text-red-400' : ''}`}
+            >
+              <span>{item.label}</span>
+              {'hint' in item && <span className="text-gray-500">{item.hint}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { GasReport, GasStats } from '../types';
+import { compareGasReports, DEPLOYMENT, gasOf } from '../services/gasReport';
+
+const Delta: React.FC<{ before?: number, after: number }> = ({ before, after }) => {
+  if (before === undefined) return <span className="text-gray-600">new</span>;
+  const diff = after - before;
+  if (!diff) return <span className="text-gray-600">–</span>;
+  const percent = before ? ` (${diff > 0 ? '+' : ''}${((diff / before) * 100).toFixed(1)}%)` : '';
+  return <span className={diff > 0 ? 'text-red-400' : 'text-green-400'}>{diff > 0 ? '+' : ''}{diff.toLocaleString()}{percent}</span>;
+};
+
+// Gas measured during the last full test run, per contract and function, next to the change
+// against an earlier run. Figures are per call frame, so they leave out the transaction base cost.
+export const GasReportPanel: React.FC<{
+  reports: GasReport[],
+  onClear: () => void
+}> = ({ reports, onClear }) => {
+  const [baselineId, setBaselineId] = useState<string | null>(null);
+  const report = reports[reports.length - 1];
+
+  if (!report) {
+    return <div className="p-3 text-xs text-gray-500">No gas report yet. Run all tests to measure deployment and call costs.</div>;
+  }
+
+  const earlier = reports.slice(0, -1).reverse();
+  const baseline = earlier.find(r => r.id === baselineId) || earlier[0];
+  const changes = baseline ? compareGasReports(report, baseline) : [];
+  const regressions = changes.filter(c => c.after > c.before).length;
+  const cell = 'px-2 py-0.5 text-right';
+
+  return (
+    <div className="p-2 code-font text-xs">
+      <div className="flex items-center gap-3 mb-2 font-sans text-[10px] text-gray-500">
+        <span>Measured {new Date(report.createdAt).toLocaleString()}</span>
+        {baseline ? (
+          <>
+            <label className="flex items-center gap-1">
+              Compared with
+              <select
+                value={baseline.id}
+                onChange={(e) => setBaselineId(e.target.value)}
+                className="bg-[#161b22] border border-[#30363d] rounded px-1 text-gray-300 focus:outline-none"
+              >
+                {earlier.map(r => <option key={r.id} value={r.id}>{new Date(r.createdAt).toLocaleString()}</option>)}
+              </select>
+            </label>
+            <span className={regressions ? 'text-red-400' : 'text-green-400'}>
+              {regressions} regression(s), {changes.length - regressions} improvement(s)
+            </span>
+          </>
+        ) : (
+          <span>Run the tests again to compare against this run.</span>
+        )}
+        <button onClick={onClear} className="ml-auto hover:text-white">Clear history</button>
+      </div>
+
+      {!report.contracts.length && (
+        <div className="font-sans text-gray-500">The last run did not deploy or call any non-test contracts.</div>
+      )}
+      {report.contracts.map(contract => (
+        <table key={`${contract.sourcePath}:${contract.name}`} className="w-full mb-3 border border-[#30363d]">
+          <thead>
+            <tr className="bg-[#161b22] text-gray-300">
+              <th className="px-2 py-1 text-left font-semibold" colSpan={2}>
+                {contract.name} <span className="text-gray-600 font-normal text-[10px]">{contract.sourcePath}</span>
+              </th>
+              <th className={`${cell} font-normal text-gray-500`} colSpan={5}>
+                {contract.deployment ? (
+                  <>
+                    Deployment {contract.deployment.gas.toLocaleString()} gas · {contract.deployment.size.toLocaleString()} bytes{' '}
+                    {baseline && <Delta before={gasOf(baseline, contract, DEPLOYMENT)} after={contract.deployment.gas} />}
+                  </>
+                ) : 'Not deployed during the run'}
+              </th>
+            </tr>
+            <tr className="text-[10px] text-gray-500 border-b border-[#30363d]">
+              <th className="px-2 py-0.5 text-left font-normal">Function</th>
+              <th className={`${cell} font-normal`}>Calls</th>
+              <th className={`${cell} font-normal`}>Min</th>
+              <th className={`${cell} font-normal`}>Avg</th>
+              <th className={`${cell} font-normal`}>Median</th>
+              <th className={`${cell} font-normal`}>Max</th>
+              <th className={`${cell} font-normal`}>Δ Avg</th>
+            </tr>
+          </thead>
+          <tbody>
+            {Object.entries(contract.functions).map(([fn, stats]: [string, GasStats]) => (
+              <tr key={fn} className="text-gray-400 hover:bg-[#161b22]">
+                <td className="px-2 py-0.5 text-gray-300">{fn}</td>
+                <td className={cell}>{stats.calls}</td>
+                <td className={cell}>{stats.min.toLocaleString()}</td>
+                <td className={cell}>{stats.avg.toLocaleString()}</td>
+                <td className={cell}>{stats.median.toLocaleString()}</td>
+                <td className={cell}>{stats.max.toLocaleString()}</td>
+                <td className={cell}>{baseline ? <Delta before={gasOf(baseline, contract, fn)} after={stats.avg} /> : null}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ))}
+    </div>
+  );
+};
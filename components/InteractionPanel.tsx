@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react';
+import { isAddress, parseEther } from 'viem';
+import { CompiledContract, Hex, InteractionResult, NetworkConfig, NetworkContract } from '../types';
+import { AbiFunction, abiFunctions, describeData, formatValue, isReadOnly, parseAbiJson, signatureOf } from '../services/abi';
+import { explorerLink, testKeyWarning } from '../services/networks';
+import { ArgsForm, MUTABILITY_STYLES } from './DeployRunPanel';
+
+const inputClass = 'w-full min-w-0 bg-[#161b22] border border-[#30363d] rounded px-1.5 py-1 text-[11px] text-gray-300 code-font focus:outline-none focus:ring-1 focus:ring-blue-500';
+const labelClass = 'text-[10px] text-gray-500 font-semibold uppercase tracking-widest';
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+const PASTED_ABI = 'paste';
+
+const ResultItem: React.FC<{ result: InteractionResult, network: NetworkConfig }> = ({ result, network }) => {
+  const txLink = result.transactionHash && explorerLink(network, 'tx', result.transactionHash);
+  return (
+    <div className={`rounded border p-2 text-[10px] code-font space-y-1 ${result.success ? 'border-[#30363d]' : 'border-red-500/40'}`}>
+      <div className="flex items-center justify-between gap-2">
+        <span className={result.success ? 'text-green-400' : 'text-red-400'}>{result.success ? '✓' : '✗'}</span>
+        <span className="flex-1 truncate text-gray-300">{result.contractName}.{result.functionName}</span>
+        <span className="text-gray-600">{result.kind}</span>
+      </div>
+      {result.transactionHash && (
+        <div className="flex justify-between text-gray-500">
+          <span>tx</span>
+          {txLink
+            ? <a href={txLink} target="_blank" rel="noreferrer" className="text-blue-400 hover:underline" title={result.transactionHash}>{shortAddress(result.transactionHash)}</a>
+            : <button onClick={() => navigator.clipboard.writeText(result.transactionHash!)} className="text-gray-300 hover:text-white" title={`${result.transactionHash} (click to copy)`}>{shortAddress(result.transactionHash)}</button>}
+        </div>
+      )}
+      {result.gasUsed !== undefined && <div className="flex justify-between text-gray-500"><span>gas used</span><span>{result.gasUsed.toString()}</span></div>}
+      {result.returnValue !== undefined && (
+        <div className="text-gray-500">returns <span className="text-blue-300 break-all">{formatValue(result.returnValue)}</span></div>
+      )}
+      {result.error && <div className="text-red-400 break-all">{result.error}</div>}
+      {result.events.map((event, i) => (
+        <div key={i} className="text-gray-500 break-all">event <span className="text-purple-300">{event.name}</span> {formatValue(event.args)}</div>
+      ))}
+    </div>
+  );
+};
+
+// Contracts already on the active network, loaded by address with an ABI from the workspace's
+// compiled contracts or pasted in. Views run as eth_call; anything else is signed by `sender`.
+// `testKeyChain` is set when `sender` is a public test key on a real chain; sends then wait for a confirm.
+export const InteractionPanel: React.FC<{
+  network: NetworkConfig,
+  testKeyChain?: number,
+  contracts: CompiledContract[],
+  loaded: NetworkContract[],
+  results: InteractionResult[],
+  sender?: Hex,
+  busy: boolean,
+  onLoad: (contract: NetworkContract) => void,
+  onCall: (contract: NetworkContract, fn: AbiFunction, args: unknown[], from: Hex, value: bigint, allowTestKey: boolean) => void,
+  onRemove: (address: Hex) => void,
+  onClearResults: () => void
+}> = ({ network, testKeyChain, contracts, loaded, results, sender, busy, onLoad, onCall, onRemove, onClearResults }) => {
+  const [address, setAddress] = useState('');
+  const [abiSource, setAbiSource] = useState('');
+  const [abiText, setAbiText] = useState('');
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [amount, setAmount] = useState('0');
+  const [valueError, setValueError] = useState<string | null>(null);
+  const [data, setData] = useState('');
+  const [decoded, setDecoded] = useState<{ text: string, error: boolean } | null>(null);
+  const [pending, setPending] = useState<{ contract: NetworkContract, fn: AbiFunction, args: unknown[], from: Hex, value: bigint } | null>(null);
+
+  // A confirm only covers the network and sender it was asked for.
+  useEffect(() => setPending(null), [network.id, testKeyChain, sender]);
+
+  const keyOf = (c: CompiledContract) => `${c.sourcePath}:${c.name}`;
+  const source = abiSource || (contracts[0] ? keyOf(contracts[0]) : PASTED_ABI);
+
+  const load = () => {
+    const target = address.trim();
+    if (!isAddress(target)) return setLoadError(`"${target}" is not an address`);
+    try {
+      const compiled = contracts.find(c => keyOf(c) === source);
+      const abi = compiled ? compiled.abi : parseAbiJson(abiText);
+      onLoad({ networkId: network.id, address: target, name: compiled?.name || 'Contract', abi });
+      setLoadError(null);
+      setAddress('');
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // The value field applies to whichever payable function is sent next.
+  const call = (contract: NetworkContract, fn: AbiFunction, args: unknown[]) => {
+    let value = 0n;
+    if (fn.stateMutability === 'payable') {
+      try {
+        value = parseEther(amount.trim() || '0');
+        setValueError(null);
+      } catch {
+        return setValueError(`"${amount}" is not a valid ETH amount`);
+      }
+    }
+    if (!sender) return;
+    if (testKeyChain !== undefined && !isReadOnly(fn)) return setPending({ contract, fn, args, from: sender, value });
+    onCall(contract, fn, args, sender, value, false);
+  };
+
+  const confirmSend = () => {
+    if (!pending) return;
+    onCall(pending.contract, pending.fn, pending.args, pending.from, pending.value, true);
+    setPending(null);
+  };
+
+  const decode = () => {
+    try {
+      setDecoded({ text: describeData([...loaded, ...contracts].flatMap(c => c.abi), data), error: false });
+    } catch (err) {
+      setDecoded({ text: err instanceof Error ? err.message : String(err), error: true });
+    }
+  };
+
+  return (
+    <div className="px-3 space-y-4">
+      <div className="space-y-2">
+        <span className={labelClass}>Interact on {network.name}</span>
+        <input value={address} onChange={(e) => setAddress(e.target.value)} placeholder="Contract address (0x…)" className={inputClass} />
+        <select value={source} onChange={(e) => setAbiSource(e.target.value)} className={inputClass}>
+          {contracts.map(c => <option key={keyOf(c)} value={keyOf(c)}>ABI of {c.name} — {c.sourcePath}</option>)}
+          <option value={PASTED_ABI}>Paste ABI JSON…</option>
+        </select>
+        {source === PASTED_ABI && (
+          <textarea
+            value={abiText}
+            onChange={(e) => setAbiText(e.target.value)}
+            placeholder='[{"type":"function","name":"balanceOf",…}]'
+            rows={3}
+            className={`${inputClass} resize-y`}
+          />
+        )}
+        {loadError && <div className="text-[10px] text-red-400">{loadError}</div>}
+        <button
+          onClick={load}
+          disabled={!address.trim()}
+          className="w-full py-1 rounded border border-blue-500/40 text-blue-300 hover:bg-blue-500/10 text-[11px] disabled:opacity-50"
+        >
+          Load contract
+        </button>
+      </div>
+
+      {loaded.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex gap-1 items-center">
+            <input value={amount} onChange={(e) => setAmount(e.target.value)} title="Sent with payable functions" className={inputClass} />
+            <span className="text-[10px] text-gray-500">ETH</span>
+          </div>
+          {valueError && <div className="text-[10px] text-red-400">{valueError}</div>}
+          {pending && testKeyChain !== undefined && (
+            <div className="p-2 rounded border border-red-500/40 bg-red-500/10 text-[11px] text-red-300 space-y-2">
+              <div>{testKeyWarning(testKeyChain)}</div>
+              <div className="code-font">Send {pending.contract.name}.{pending.fn.name} from {shortAddress(pending.from)}?</div>
+              <div className="flex justify-end gap-3 text-[10px] uppercase tracking-widest font-bold">
+                <button onClick={() => setPending(null)} className="text-gray-500 hover:text-white">Cancel</button>
+                <button onClick={confirmSend} disabled={busy} className="text-red-300 hover:text-red-200 disabled:opacity-50">Send anyway</button>
+              </div>
+            </div>
+          )}
+          {loaded.map(contract => (
+            <div key={contract.address} className="bg-[#161b22] border border-[#30363d] rounded-lg p-2 space-y-1.5">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs font-semibold text-gray-200 truncate">{contract.name}</span>
+                <span className="text-[10px] text-gray-500 code-font" title={contract.address}>{shortAddress(contract.address)}</span>
+                <button title="Remove from list" onClick={() => onRemove(contract.address)} className="text-gray-600 hover:text-white">×</button>
+              </div>
+              {abiFunctions(contract.abi).map(fn => (
+                <ArgsForm
+                  key={signatureOf(fn)}
+                  label={fn.name}
+                  inputs={fn.inputs}
+                  buttonClass={MUTABILITY_STYLES[fn.stateMutability]}
+                  disabled={busy || (!isReadOnly(fn) && !sender)}
+                  onSubmit={(args) => call(contract, fn, args)}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {results.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className={labelClass}>Results</span>
+            <button onClick={onClearResults} className="text-[10px] text-gray-500 hover:text-white uppercase tracking-widest">Clear</button>
+          </div>
+          {results.map(result => <ResultItem key={result.id} result={result} network={network} />)}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <span className={labelClass}>Decode</span>
+        <textarea
+          value={data}
+          onChange={(e) => setData(e.target.value)}
+          placeholder="Calldata or revert data (0x…)"
+          rows={2}
+          className={`${inputClass} resize-y`}
+        />
+        <button
+          onClick={decode}
+          disabled={!data.trim()}
+          className="w-full py-1 rounded border border-[#30363d] text-gray-300 hover:bg-[#30363d] text-[11px] disabled:opacity-50"
+        >
+          Decode against loaded and compiled ABIs
+        </button>
+        {decoded && <div className={`text-[10px] code-font break-all ${decoded.error ? 'text-red-400' : 'text-gray-300'}`}>{decoded.text}</div>}
+      </div>
+    </div>
+  );
+};
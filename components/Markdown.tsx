@@ -0,0 +1,104 @@
+import React, { useMemo, useState } from 'react';
+import { TerminalTheme } from '../types';
+import { MarkdownBlock, parseInline, parseMarkdown } from '../services/markdown';
+import { updateHighlight } from '../services/highlighter';
+import { inferLanguage } from '../services/fileTree';
+import { SYNTAX_THEMES } from './CodeEditor';
+
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+// Fences name languages loosely ("sol", "ts", "yml"); map them the way file extensions are.
+const fenceLanguage = (tag: string) => {
+  const inferred = inferLanguage(`fence.${tag}`);
+  return inferred === 'plaintext' ? tag : inferred;
+};
+
+const Inline: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {parseInline(text).map((part, i) => {
+      switch (part.type) {
+        case 'code': return <code key={i} className="px-1 rounded bg-[#0d1117] text-[#a5d6ff] code-font text-[11px]">{part.text}</code>;
+        case 'bold': return <strong key={i} className="text-gray-100">{part.text}</strong>;
+        case 'italic': return <em key={i}>{part.text}</em>;
+        case 'link': return SAFE_LINK.test(part.href)
+          ? <a key={i} href={part.href} target="_blank" rel="noopener noreferrer" className="text-blue-400 underline">{part.text}</a>
+          : <span key={i}>{part.text}</span>;
+        default: return <React.Fragment key={i}>{part.text}</React.Fragment>;
+      }
+    })}
+  </>
+);
+
+const CodeBlock: React.FC<{
+  block: Extract<MarkdownBlock, { type: 'code' }>,
+  theme: TerminalTheme,
+  onInsert?: (code: string) => void,
+  onReview?: (path: string, content: string) => void
+}> = ({ block, theme, onInsert, onReview }) => {
+  const [copied, setCopied] = useState(false);
+  const language = fenceLanguage(block.language);
+  const lines = useMemo(() => updateHighlight(undefined, language, block.code).tokens, [language, block.code]);
+  const colors = SYNTAX_THEMES[theme];
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(block.code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      // Clipboard access denied; the code is still selectable.
+    }
+  };
+
+  return (
+    <div className="my-2 rounded-lg border border-[#30363d] bg-[#0d1117] overflow-hidden">
+      <div className="flex items-center justify-between px-2 py-1 border-b border-[#30363d] text-[10px] text-gray-500">
+        <span className="code-font truncate">{block.file || block.language || 'text'}</span>
+        {block.complete && (
+          <div className="flex gap-2">
+            <button onClick={copy} className="hover:text-white transition-colors">{copied ? 'Copied' : 'Copy'}</button>
+            {block.file && onReview
+              ? <button onClick={() => onReview(block.file!, block.code)} className="text-blue-400 hover:text-blue-300 transition-colors">Review changes</button>
+              : onInsert && <button onClick={() => onInsert(block.code)} className="hover:text-white transition-colors">Insert into editor</button>}
+          </div>
+        )}
+      </div>
+      <pre className="p-2 overflow-x-auto code-font text-[11px] leading-relaxed select-text">
+        {lines.map((tokens, i) => (
+          <div key={i}>{tokens.length ? tokens.map((t, j) => <span key={j} className={colors[t.type]}>{t.text}</span>) : ' '}</div>
+        ))}
+      </pre>
+    </div>
+  );
+};
+
+// Renders an assistant reply. Re-parsed on every streamed token, which is cheap at chat sizes.
+export const Markdown: React.FC<{
+  text: string,
+  theme: TerminalTheme,
+  onInsert?: (code: string) => void,
+  onReview?: (path: string, content: string) => void
+}> = ({ text, theme, onInsert, onReview }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return (
+    <div className="space-y-2 select-text">
+      {blocks.map((block, i) => {
+        switch (block.type) {
+          case 'code': return <CodeBlock key={i} block={block} theme={theme} onInsert={onInsert} onReview={onReview} />;
+          case 'heading': return <div key={i} className={`font-bold text-gray-100 ${block.level <= 2 ? 'text-sm' : 'text-xs'}`}><Inline text={block.text} /></div>;
+          case 'list': {
+            const List = block.ordered ? 'ol' : 'ul';
+            return (
+              <List key={i} className={`pl-4 space-y-0.5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+                {block.items.map((item, j) => <li key={j}><Inline text={item} /></li>)}
+              </List>
+            );
+          }
+          case 'quote': return <blockquote key={i} className="border-l-2 border-[#30363d] pl-2 text-gray-400"><Inline text={block.text} /></blockquote>;
+          case 'rule': return <hr key={i} className="border-[#30363d]" />;
+          default: return <p key={i}><Inline text={block.text} /></p>;
+        }
+      })}
+    </div>
+  );
+};
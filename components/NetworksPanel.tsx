@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import { formatEther, parseEther } from 'viem';
+import { AccountSource, CompiledContract, DeploymentRecord, Hex, NetworkAccount, NetworkConfig } from '../types';
+import { abiConstructor } from '../services/abi';
+import { explorerLink, LOCAL_NETWORK, NetworkStatus, validateNetwork } from '../services/networks';
+import { ArgsForm } from './DeployRunPanel';
+import { StatusDot, TechLoader } from './UiverseElements';
+
+const inputClass = 'w-full min-w-0 bg-[#161b22] border border-[#30363d] rounded px-1.5 py-1 text-[11px] text-gray-300 code-font focus:outline-none focus:ring-1 focus:ring-blue-500';
+const labelClass = 'text-[10px] text-gray-500 font-semibold uppercase tracking-widest';
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+export type NetworkHealth = NetworkStatus | { error: string };
+
+const AddNetworkForm: React.FC<{ onAdd: (network: Omit<NetworkConfig, 'id'>) => void, onCancel: () => void }> = ({ onAdd, onCancel }) => {
+  const [name, setName] = useState('');
+  const [rpcUrl, setRpcUrl] = useState('');
+  const [chainId, setChainId] = useState('');
+  const [explorerUrl, setExplorerUrl] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = validateNetwork(name, rpcUrl, chainId);
+    if (problem) return setError(problem);
+    onAdd({
+      name: name.trim(),
+      rpcUrl: rpcUrl.trim(),
+      chainId: chainId.trim() ? Number(chainId) : undefined,
+      explorerUrl: explorerUrl.trim() || undefined
+    });
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-1 bg-[#161b22] border border-[#30363d] rounded-lg p-2">
+      <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name, e.g. Sepolia" className={inputClass} />
+      <input value={rpcUrl} onChange={(e) => setRpcUrl(e.target.value)} placeholder="RPC URL (http/https)" className={inputClass} />
+      <input value={chainId} onChange={(e) => setChainId(e.target.value)} placeholder="Chain ID (optional, checked before deploying)" className={inputClass} />
+      <input value={explorerUrl} onChange={(e) => setExplorerUrl(e.target.value)} placeholder="Block explorer URL (optional)" className={inputClass} />
+      {error && <div className="text-[10px] text-red-400">{error}</div>}
+      <div className="flex gap-2 justify-end text-[10px] uppercase tracking-widest">
+        <button type="button" onClick={onCancel} className="text-gray-500 hover:text-white">Cancel</button>
+        <button type="submit" className="text-blue-400 hover:text-blue-300">Add</button>
+      </div>
+    </form>
+  );
+};
+
+// JSON-RPC networks, the account that signs for them and the deployments made to each.
+// Deploying only prepares a plan; the App asks for confirmation before anything is sent.
+export const NetworksPanel: React.FC<{
+  networks: NetworkConfig[],
+  activeNetworkId: string,
+  health: Record<string, NetworkHealth>,
+  accountSource: AccountSource,
+  accounts: NetworkAccount[],
+  sender?: Hex,
+  walletAvailable: boolean,
+  contracts: CompiledContract[],
+  deployments: DeploymentRecord[],
+  busy: boolean,
+  onSelectNetwork: (id: string) => void,
+  onAddNetwork: (network: Omit<NetworkConfig, 'id'>) => void,
+  onRemoveNetwork: (id: string) => void,
+  onRefresh: () => void,
+  onSetAccountSource: (source: AccountSource) => void,
+  onSelectAccount: (address: Hex) => void,
+  onDeploy: (contract: CompiledContract, args: unknown[], from: Hex, value: bigint) => void,
+  onInteract: (deployment: DeploymentRecord) => void
+}> = ({
+  networks, activeNetworkId, health, accountSource, accounts, sender, walletAvailable, contracts, deployments, busy,
+  onSelectNetwork, onAddNetwork, onRemoveNetwork, onRefresh, onSetAccountSource, onSelectAccount, onDeploy, onInteract
+}) => {
+  const [adding, setAdding] = useState(false);
+  const [contractKey, setContractKey] = useState('');
+  const [amount, setAmount] = useState('0');
+  const [valueError, setValueError] = useState<string | null>(null);
+
+  const network = networks.find(n => n.id === activeNetworkId) || networks[0];
+  const deployable = contracts.filter(c => c.bytecode && c.bytecode !== '0x');
+  const keyOf = (c: CompiledContract) => `${c.sourcePath}:${c.name}`;
+  const selected = deployable.find(c => keyOf(c) === contractKey) || deployable[0];
+  const payable = selected && abiConstructor(selected.abi).stateMutability === 'payable';
+
+  const deploy = (args: unknown[]) => {
+    let value = 0n;
+    if (payable) {
+      try {
+        value = parseEther(amount.trim() || '0');
+        setValueError(null);
+      } catch {
+        return setValueError(`"${amount}" is not a valid ETH amount`);
+      }
+    }
+    if (selected && sender) onDeploy(selected, args, sender, value);
+  };
+
+  return (
+    <div className="px-3 space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className={labelClass}>Networks</span>
+          <div className="flex items-center gap-2">
+            {busy && <TechLoader size="w-1 h-1" />}
+            <button onClick={onRefresh} disabled={busy} className="text-[10px] text-gray-500 hover:text-white uppercase tracking-widest disabled:opacity-50">Refresh</button>
+            <button onClick={() => setAdding(true)} className="text-[10px] text-blue-400 hover:text-blue-300 uppercase tracking-widest">Add</button>
+          </div>
+        </div>
+        {networks.map(n => {
+          const status = health[n.id];
+          return (
+            <div
+              key={n.id}
+              onClick={() => onSelectNetwork(n.id)}
+              className={`group rounded-lg border p-2 cursor-pointer ${n.id === network?.id ? 'border-blue-500/50 bg-blue-500/5' : 'border-[#30363d] hover:bg-[#161b22]'}`}
+            >
+              <div className="flex items-center gap-2">
+                <StatusDot status={!status ? 'offline' : 'error' in status ? 'failed' : 'online'} />
+                <span className="text-xs text-gray-200 flex-1 truncate">{n.name}</span>
+                {n.id !== LOCAL_NETWORK.id && (
+                  <button
+                    title="Remove network"
+                    onClick={(e) => { e.stopPropagation(); onRemoveNetwork(n.id); }}
+                    className="hidden group-hover:block text-gray-600 hover:text-white"
+                  >
+                    ×
+                  </button>
+                )}
+              </div>
+              <div className="text-[10px] text-gray-500 code-font truncate" title={n.rpcUrl}>{n.rpcUrl}</div>
+              {status && ('error' in status
+                ? <div className="text-[10px] text-red-400 break-words">{status.error}</div>
+                : <div className="text-[10px] text-gray-500">chain {status.chainId} · block {status.blockNumber.toString()}</div>)}
+            </div>
+          );
+        })}
+        {adding && <AddNetworkForm onAdd={(n) => { onAddNetwork(n); setAdding(false); }} onCancel={() => setAdding(false)} />}
+      </div>
+
+      <div className="space-y-2">
+        <span className={labelClass}>Account</span>
+        <div className="flex rounded border border-[#30363d] overflow-hidden text-[10px]">
+          {([['local', 'Local test keys'], ['injected', 'Browser wallet']] as const).map(([source, label]) => (
+            <button
+              key={source}
+              onClick={() => onSetAccountSource(source)}
+              disabled={source === 'injected' && !walletAvailable}
+              title={source === 'injected' && !walletAvailable ? 'No EIP-1193 wallet found in this browser' : undefined}
+              className={`flex-1 py-1 disabled:opacity-40 ${accountSource === source ? 'bg-[#30363d] text-white' : 'text-gray-500 hover:text-gray-300'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {accounts.length ? (
+          <select value={sender || ''} onChange={(e) => onSelectAccount(e.target.value as Hex)} className={inputClass}>
+            {accounts.map(a => (
+              <option key={a.address} value={a.address}>{shortAddress(a.address)} ({Number(formatEther(a.balance)).toFixed(4)} ETH)</option>
+            ))}
+          </select>
+        ) : (
+          <div className="text-[11px] text-gray-500">
+            {accountSource === 'injected' ? 'Refresh to connect the browser wallet.' : 'Refresh once the node is running to load the test accounts.'}
+          </div>
+        )}
+        {accountSource === 'local' && (
+          <div className="text-[10px] text-gray-600">The test keys are public. Only use them with a local node.</div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <span className={labelClass}>Deploy</span>
+        {deployable.length ? (
+          <>
+            <select value={selected ? keyOf(selected) : ''} onChange={(e) => setContractKey(e.target.value)} className={inputClass}>
+              {deployable.map(c => <option key={keyOf(c)} value={keyOf(c)}>{c.name} — {c.sourcePath}</option>)}
+            </select>
+            {payable && (
+              <div className="flex gap-1 items-center">
+                <input value={amount} onChange={(e) => setAmount(e.target.value)} className={inputClass} />
+                <span className="text-[10px] text-gray-500">ETH</span>
+              </div>
+            )}
+            {valueError && <div className="text-[10px] text-red-400">{valueError}</div>}
+            {selected && (
+              <ArgsForm
+                key={keyOf(selected)}
+                label={`Deploy to ${network?.name || 'network'}…`}
+                inputs={abiConstructor(selected.abi).inputs}
+                buttonClass="border-green-500/40 text-green-300 hover:bg-green-500/10"
+                disabled={busy || !sender}
+                onSubmit={deploy}
+              />
+            )}
+          </>
+        ) : (
+          <div className="text-[11px] text-gray-500">Compile the workspace to deploy its contracts.</div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <span className={labelClass}>Deployments on {network?.name}</span>
+        {!deployments.length && <div className="text-[11px] text-gray-500">Nothing deployed to this network yet.</div>}
+        {deployments.map(d => {
+          const addressLink = network && explorerLink(network, 'address', d.address);
+          const txLink = network && explorerLink(network, 'tx', d.transactionHash);
+          return (
+            <div key={d.transactionHash} className="bg-[#161b22] border border-[#30363d] rounded-lg p-2 text-[10px] code-font space-y-0.5">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs font-sans font-semibold text-gray-200 truncate">{d.contractName}</span>
+                <span className="text-gray-600">{new Date(d.deployedAt).toLocaleDateString()}</span>
+                <button onClick={() => onInteract(d)} className="font-sans text-blue-400 hover:text-blue-300 uppercase tracking-widest">Interact</button>
+              </div>
+              <div className="flex justify-between text-gray-500">
+                <span>address</span>
+                {addressLink
+                  ? <a href={addressLink} target="_blank" rel="noreferrer" className="text-blue-400 hover:underline" title={d.address}>{shortAddress(d.address)}</a>
+                  : <button onClick={() => navigator.clipboard.writeText(d.address)} className="text-gray-300 hover:text-white" title={`${d.address} (click to copy)`}>{shortAddress(d.address)}</button>}
+              </div>
+              <div className="flex justify-between text-gray-500">
+                <span>tx</span>
+                {txLink
+                  ? <a href={txLink} target="_blank" rel="noreferrer" className="text-blue-400 hover:underline" title={d.transactionHash}>{shortAddress(d.transactionHash)}</a>
+                  : <span className="text-gray-400" title={d.transactionHash}>{shortAddress(d.transactionHash)}</span>}
+              </div>
+              {d.args.length > 0 && <div className="text-gray-500 break-all">args {d.args.join(', ')}</div>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
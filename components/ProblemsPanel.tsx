@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { AuditIssueStatus, Diagnostic, DiagnosticSeverity } from '../types';
+
+const SEVERITY_STYLES: Record<DiagnosticSeverity, string> = {
+  error: 'text-red-400',
+  warning: 'text-yellow-400',
+  info: 'text-blue-400'
+};
+
+const SEVERITY_ICONS: Record<DiagnosticSeverity, string> = {
+  error: '⊗',
+  warning: '⚠',
+  info: 'ⓘ'
+};
+
+const SOURCES: { id: Diagnostic['source'] | 'all', label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'solc', label: 'Compiler' },
+  { id: 'workflow', label: 'Workflows' },
+  { id: 'audit', label: 'AI audit' }
+];
+
+export const ProblemsPanel: React.FC<{
+  diagnostics: Diagnostic[],
+  onSelect: (diagnostic: Diagnostic) => void,
+  onSetAuditStatus?: (issueId: string, status: AuditIssueStatus) => void
+}> = ({ diagnostics, onSelect, onSetAuditStatus }) => {
+  const [source, setSource] = useState<Diagnostic['source'] | 'all'>('all');
+
+  if (!diagnostics.length) {
+    return <div className="p-3 text-xs text-gray-500">No problems have been detected in the workspace.</div>;
+  }
+
+  const byPath: Record<string, Diagnostic[]> = {};
+  diagnostics
+    .filter(d => source === 'all' || d.source === source)
+    .forEach((d: Diagnostic) => (byPath[d.path] ||= []).push(d));
+  Object.values(byPath).forEach(items => items.sort((a, b) => a.line - b.line || a.column - b.column));
+
+  return (
+    <div className="p-2 code-font text-xs">
+      <div className="flex gap-1 mb-2 font-sans text-[10px]">
+        {SOURCES.map(s => {
+          const count = s.id === 'all' ? diagnostics.length : diagnostics.filter(d => d.source === s.id).length;
+          return (
+            <button
+              key={s.id}
+              onClick={() => setSource(s.id)}
+              className={`px-2 py-0.5 rounded ${source === s.id ? 'bg-[#30363d] text-white' : 'text-gray-500 hover:text-gray-300'}`}
+            >
+              {s.label} {count}
+            </button>
+          );
+        })}
+      </div>
+      {Object.entries(byPath).map(([path, items]) => (
+        <div key={path} className="mb-2">
+          <div className="flex items-center gap-2 px-1 py-0.5 text-gray-300">
+            <span className="font-semibold">{path.split('/').pop()}</span>
+            <span className="text-gray-600 text-[10px]">{path}</span>
+            <span className="ml-1 px-1.5 rounded-full bg-[#30363d] text-[10px] text-gray-400">{items.length}</span>
+          </div>
+          {items.map((d, i) => (
+            <div key={i} className="group flex items-start rounded hover:bg-[#21262d] transition-colors">
+              <button onClick={() => onSelect(d)} className="flex-1 text-left flex items-start gap-2 pl-4 pr-2 py-0.5">
+                <span className={`${SEVERITY_STYLES[d.severity]} flex-shrink-0`}>{SEVERITY_ICONS[d.severity]}</span>
+                <span className="text-gray-400 flex-1">{d.message}</span>
+                <span className="text-gray-600 flex-shrink-0">{d.source}{d.code ? `(${d.code})` : ''} [Ln {d.line}, Col {d.column}]</span>
+              </button>
+              {d.auditIssueId && onSetAuditStatus && (
+                <div className="hidden group-hover:flex gap-2 pr-2 py-0.5 font-sans text-[10px] text-gray-500">
+                  <button onClick={() => onSetAuditStatus(d.auditIssueId!, 'dismissed')} className="hover:text-white">Dismiss</button>
+                  <button onClick={() => onSetAuditStatus(d.auditIssueId!, 'wontfix')} className="hover:text-white">Won't fix</button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { CompiledContract, StorageType } from '../types';
+import { packingSummary, SlotRow, storageRows } from '../services/storageLayout';
+
+const COLORS = ['bg-blue-500/60', 'bg-purple-500/60', 'bg-green-500/60', 'bg-orange-500/60', 'bg-pink-500/60', 'bg-teal-500/60'];
+const TEXT_COLORS = ['text-blue-300', 'text-purple-300', 'text-green-300', 'text-orange-300', 'text-pink-300', 'text-teal-300'];
+
+// Where the data of variables that do not fit in their slot actually lives.
+const ENCODING_NOTES: Partial<Record<StorageType['encoding'], string>> = {
+  mapping: 'values at keccak256(key . slot)',
+  dynamic_array: 'length here, elements from keccak256(slot)',
+  bytes: 'inline if under 32 bytes, else from keccak256(slot)'
+};
+
+// A slot's 32 bytes, high-order byte first as in its hex value; solc offsets count from the right.
+const SlotBar: React.FC<{ row: SlotRow }> = ({ row }) => {
+  const owner = (byte: number) => row.variables.findIndex(v => byte >= v.offset && byte < v.offset + Math.min(v.size, 32));
+  return (
+    <div className="flex gap-px">
+      {Array.from({ length: 32 }, (_, i) => 31 - i).map(byte => {
+        const index = owner(byte);
+        return (
+          <div
+            key={byte}
+            title={index === -1 ? `byte ${byte}: unused` : `byte ${byte}: ${row.variables[index].label}`}
+            className={`w-2 h-3 rounded-sm ${index === -1 ? 'bg-[#21262d]' : COLORS[index % COLORS.length]}`}
+          />
+        );
+      })}
+    </div>
+  );
+};
+
+const slotLabel = (row: SlotRow) => row.span > 1n ? `${row.slot}–${row.slot + row.span - 1n}` : `${row.slot}`;
+
+export const StorageLayoutPanel: React.FC<{
+  contracts: CompiledContract[],
+  // Contracts from this file are shown first, usually the file open in the editor.
+  preferredPath?: string
+}> = ({ contracts, preferredPath }) => {
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const withLayout = contracts.filter(c => c.storageLayout);
+  const keyOf = (c: CompiledContract) => `${c.sourcePath}:${c.name}`;
+
+  if (!withLayout.length) {
+    return <div className="p-3 text-xs text-gray-500">Compile the workspace to see the storage layout of each contract.</div>;
+  }
+
+  const contract = withLayout.find(c => keyOf(c) === selectedKey)
+    || withLayout.find(c => c.sourcePath === preferredPath)
+    || withLayout[0];
+  const rows = storageRows(contract.storageLayout!);
+  const { used, minimum } = packingSummary(rows);
+
+  return (
+    <div className="p-2 code-font text-xs">
+      <div className="flex items-center gap-3 mb-2 font-sans text-[10px] text-gray-500">
+        <select
+          value={keyOf(contract)}
+          onChange={(e) => setSelectedKey(e.target.value)}
+          className="bg-[#161b22] border border-[#30363d] rounded px-1 text-gray-300 focus:outline-none"
+        >
+          {withLayout.map(c => <option key={keyOf(c)} value={keyOf(c)}>{c.name} ({c.sourcePath})</option>)}
+        </select>
+        <span>{used.toString()} slot(s) used</span>
+        {minimum < used && (
+          <span className="text-yellow-400">
+            Reordering the smaller variables could fit them in {minimum.toString()} slot(s)
+          </span>
+        )}
+      </div>
+
+      {!rows.length && <div className="font-sans text-gray-500">{contract.name} has no state variables.</div>}
+      {rows.length > 0 && (
+        <table className="w-full">
+          <thead>
+            <tr className="text-[10px] text-gray-500 border-b border-[#30363d]">
+              <th className="px-2 py-0.5 text-left font-normal">Slot</th>
+              <th className="px-2 py-0.5 text-left font-normal">Bytes 31 … 0</th>
+              <th className="px-2 py-0.5 text-left font-normal">Variables (offset, size)</th>
+              <th className="px-2 py-0.5 text-right font-normal">Free</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.slot.toString()} className="align-top hover:bg-[#161b22]">
+                <td className="px-2 py-1 text-gray-400">{slotLabel(row)}</td>
+                <td className="px-2 py-1"><SlotBar row={row} /></td>
+                <td className="px-2 py-1 space-y-0.5">
+                  {row.variables.map((v, i) => (
+                    <div key={v.label}>
+                      <span className={TEXT_COLORS[i % TEXT_COLORS.length]}>{v.label}</span>
+                      <span className="text-gray-500"> {v.type}</span>
+                      <span className="text-gray-600"> ({v.offset}, {v.size} byte{v.size === 1 ? '' : 's'})</span>
+                      {ENCODING_NOTES[v.encoding] && <span className="text-gray-600 font-sans text-[10px]"> · {ENCODING_NOTES[v.encoding]}</span>}
+                    </div>
+                  ))}
+                </td>
+                <td className={`px-2 py-1 text-right ${row.freeBytes ? 'text-yellow-400' : 'text-gray-600'}`}>{row.freeBytes}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
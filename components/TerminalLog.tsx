@@ -0,0 +1,139 @@
+import React, { useRef, useState } from 'react';
+import { LogEntry, LogLevel, LogSource } from '../types';
+import { EMPTY_LOG_FILTER, formatTime, isFiltering, LOG_LEVELS, LOG_SOURCES, LogFilter, LOGS_DIR, SCROLLBACK_OPTIONS } from '../services/terminalLog';
+import { AnsiText } from './AnsiText';
+import { useVirtualRows } from './useVirtualRows';
+
+// Rows never wrap, so every line has the same height and only the visible ones are rendered.
+const ROW_HEIGHT = 18;
+
+const LEVEL_STYLES: Record<LogLevel, string | null> = {
+  info: null,
+  success: 'text-green-400',
+  warning: 'text-yellow-400',
+  error: 'text-red-400'
+};
+
+export interface TerminalColors {
+  text: string;
+  prompt: string;
+  workflow: string;
+}
+
+const TerminalLogLine: React.FC<{ entry: LogEntry, colors: TerminalColors, showTimestamp: boolean }> = ({ entry, colors, showTimestamp }) => {
+  const color = LEVEL_STYLES[entry.level] ?? (entry.source === 'workflow' ? colors.workflow : colors.text);
+  return (
+    <div className={`flex gap-2 whitespace-pre ${color}`} style={{ height: ROW_HEIGHT, lineHeight: `${ROW_HEIGHT}px` }} title={`${formatTime(entry.timestamp)} · ${entry.source}`}>
+      {showTimestamp && <span className="opacity-40 select-none flex-shrink-0">{formatTime(entry.timestamp)}</span>}
+      {entry.prompt !== undefined ? (
+        <>
+          <span className={`${colors.prompt} flex-shrink-0`}>{entry.prompt}</span>
+          <span><AnsiText text={entry.text} /></span>
+        </>
+      ) : (
+        <>
+          <span className="opacity-30 select-none">❯</span>
+          <span><AnsiText text={entry.text} /></span>
+        </>
+      )}
+    </div>
+  );
+};
+
+const MemoLogLine = React.memo(TerminalLogLine);
+
+export const TerminalLogView: React.FC<{
+  logs: LogEntry[],
+  colors: TerminalColors,
+  showTimestamps: boolean,
+  scrollRef: React.RefObject<HTMLElement | null>
+}> = ({ logs, colors, showTimestamps, scrollRef }) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const { start, end, padTop, totalHeight } = useVirtualRows(scrollRef, listRef, logs.length, ROW_HEIGHT);
+  return (
+    <div ref={listRef} className="relative select-text w-max min-w-full" style={{ height: totalHeight }}>
+      <div style={{ transform: `translateY(${padTop}px)` }}>
+        {logs.slice(start, end).map((entry, i) => (
+          <MemoLogLine key={start + i} entry={entry} colors={colors} showTimestamp={showTimestamps} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const toggle = <T,>(items: T[], item: T) => items.includes(item) ? items.filter(i => i !== item) : [...items, item];
+
+const ToolbarButton: React.FC<{ title: string, active?: boolean, onClick: (e: React.MouseEvent<HTMLButtonElement>) => void, children: React.ReactNode }> = ({ title, active, onClick, children }) => (
+  <button title={title} onClick={onClick} className={`${active ? 'text-blue-400' : 'hover:text-white'} transition-colors`}>
+    {children}
+  </button>
+);
+
+export const TerminalLogToolbar: React.FC<{
+  filter: LogFilter,
+  onFilterChange: (filter: LogFilter) => void,
+  showTimestamps: boolean,
+  onToggleTimestamps: () => void,
+  onCopy: () => void,
+  onSave: () => void,
+  scrollback: number,
+  onScrollbackChange: (scrollback: number) => void
+}> = ({ filter, onFilterChange, showTimestamps, onToggleTimestamps, onCopy, onSave, scrollback, onScrollbackChange }) => {
+  // Viewport position of the filter menu; it is fixed so the scrolling panel header cannot clip it.
+  const [menuAt, setMenuAt] = useState<{ top: number, right: number } | null>(null);
+
+  const checkbox = (label: string, checked: boolean, onChange: () => void) => (
+    <label key={label} className="flex items-center gap-2 px-2 py-0.5 cursor-pointer hover:bg-[#21262d] rounded normal-case tracking-normal font-normal text-gray-300">
+      <input type="checkbox" checked={checked} onChange={onChange} className="accent-blue-500" />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="flex items-center gap-3">
+      <ToolbarButton title="Filter output" active={isFiltering(filter)} onClick={(e) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        setMenuAt(menuAt ? null : { top: rect.bottom + 8, right: window.innerWidth - rect.right });
+      }}>
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4h18l-7 9v6l-4 2v-8L3 4z" /></svg>
+      </ToolbarButton>
+      <ToolbarButton title="Show timestamps" active={showTimestamps} onClick={onToggleTimestamps}>
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+      </ToolbarButton>
+      <ToolbarButton title="Copy output" onClick={onCopy}>
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>
+      </ToolbarButton>
+      <ToolbarButton title={`Save output to ${LOGS_DIR}/`} onClick={onSave}>
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v2a2 2 0 002 2h12a2 2 0 002-2v-2M7 10l5 5 5-5M12 15V3" /></svg>
+      </ToolbarButton>
+
+      {menuAt && (
+        <div style={menuAt} className="fixed w-44 bg-[#161b22] border border-[#30363d] rounded-lg shadow-xl z-50 p-1.5 text-[10px]">
+          <div className="px-2 pb-1 text-gray-500">Levels</div>
+          {LOG_LEVELS.map(level => checkbox(level, !filter.hiddenLevels.includes(level), () =>
+            onFilterChange({ ...filter, hiddenLevels: toggle<LogLevel>(filter.hiddenLevels, level) })))}
+          <div className="px-2 pt-2 pb-1 text-gray-500">Sources</div>
+          {LOG_SOURCES.map(source => checkbox(source, !filter.hiddenSources.includes(source), () =>
+            onFilterChange({ ...filter, hiddenSources: toggle<LogSource>(filter.hiddenSources, source) })))}
+          <label className="flex items-center justify-between gap-2 px-2 pt-2 mt-1 border-t border-[#30363d] normal-case tracking-normal font-normal text-gray-500">
+            Scrollback
+            <select
+              value={scrollback}
+              onChange={(e) => onScrollbackChange(Number(e.target.value))}
+              className="bg-[#0d1117] border border-[#30363d] rounded px-1 text-gray-300 focus:outline-none"
+            >
+              {[...new Set([...SCROLLBACK_OPTIONS, scrollback])].sort((a, b) => a - b).map(n => (
+                <option key={n} value={n}>{n.toLocaleString()} lines</option>
+              ))}
+            </select>
+          </label>
+          {isFiltering(filter) && (
+            <button onClick={() => onFilterChange(EMPTY_LOG_FILTER)} className="w-full mt-1 px-2 py-1 text-left text-blue-400 hover:text-blue-300">
+              Show all
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
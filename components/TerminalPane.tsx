@@ -0,0 +1,100 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { TerminalInstance, TerminalProfile } from '../types';
+import { filterLogs, LogFilter } from '../services/terminalLog';
+import { TERMINAL_PROFILES } from '../services/terminalProfiles';
+import { TerminalColors, TerminalLogView } from './TerminalLog';
+import { TerminalPrompt } from './TerminalPrompt';
+
+// One terminal's output and prompt. Split panes each own a scroller, so they follow their own output.
+export const TerminalPane: React.FC<{
+  terminal: TerminalInstance,
+  filter: LogFilter,
+  colors: TerminalColors & { bg: string },
+  showTimestamps: boolean,
+  // Highlighted when the panel is split and this pane has focus.
+  focused: boolean,
+  prompt: string,
+  running: boolean,
+  complete: (line: string) => string[],
+  onSubmit: (line: string) => void,
+  onInterrupt: (line: string) => void,
+  onClear: () => void,
+  onFocus: () => void,
+  children?: React.ReactNode
+}> = ({ terminal, filter, colors, showTimestamps, focused, prompt, running, complete, onSubmit, onInterrupt, onClear, onFocus, children }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const logs = useMemo(() => filterLogs(terminal.logs, filter), [terminal.logs, filter]);
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [terminal.logs]);
+
+  return (
+    <div
+      ref={scrollRef}
+      onMouseDown={onFocus}
+      className={`flex-1 min-w-0 p-3 code-font text-xs overflow-auto ${colors.bg} transition-colors duration-500 border-t ${focused ? 'border-blue-500/60' : 'border-transparent'}`}
+    >
+      <TerminalLogView logs={logs} colors={colors} showTimestamps={showTimestamps} scrollRef={scrollRef} />
+      <TerminalPrompt
+        prompt={prompt}
+        history={terminal.history}
+        running={running}
+        promptClass={colors.prompt}
+        textClass={colors.text}
+        complete={complete}
+        onSubmit={onSubmit}
+        onInterrupt={onInterrupt}
+        onClear={onClear}
+      />
+      {children}
+    </div>
+  );
+};
+
+// The "+" button: a click opens a shell, the arrow offers the other profiles.
+export const NewTerminalButton: React.FC<{ onCreate: (profile: TerminalProfile) => void }> = ({ onCreate }) => {
+  // Fixed like the log filter menu, so the scrolling panel header cannot clip it.
+  const [menuAt, setMenuAt] = useState<{ top: number, left: number } | null>(null);
+
+  return (
+    <div className="flex items-center h-full">
+      <button
+        title={`New ${TERMINAL_PROFILES.shell.label}`}
+        onClick={() => onCreate('shell')}
+        className="pl-3 pr-1 h-full text-gray-500 hover:text-white hover:bg-[#1f242b] transition-colors"
+      >
+        +
+      </button>
+      <button
+        title="New terminal profile"
+        onClick={(e) => {
+          const rect = e.currentTarget.getBoundingClientRect();
+          setMenuAt(menuAt ? null : { top: rect.bottom + 4, left: rect.left });
+        }}
+        className="pl-1 pr-2 h-full text-gray-500 hover:text-white hover:bg-[#1f242b] transition-colors text-[8px]"
+      >
+        ▾
+      </button>
+      {menuAt && (
+        <div style={menuAt} className="fixed w-44 bg-[#161b22] border border-[#30363d] rounded-lg shadow-xl z-50 p-1 text-[11px]">
+          {(Object.keys(TERMINAL_PROFILES) as TerminalProfile[]).map(profile => (
+            <button
+              key={profile}
+              onClick={() => {
+                setMenuAt(null);
+                onCreate(profile);
+              }}
+              className="w-full flex items-center gap-2 px-2 py-1 rounded text-left text-gray-300 hover:bg-[#21262d]"
+            >
+              <span className="w-5 text-center text-gray-500 code-font">{TERMINAL_PROFILES[profile].icon}</span>
+              {TERMINAL_PROFILES[profile].label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
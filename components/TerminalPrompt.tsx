@@ -0,0 +1,243 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface SearchState {
+  query: string;
+  // Index into `history` of the current match, or -1 when nothing matches.
+  index: number;
+}
+
+interface MenuState {
+  candidates: string[];
+  index: number;
+  // The line as typed before the menu opened, restored by Escape.
+  original: string;
+}
+
+const commonPrefix = (items: string[]) =>
+  items.reduce((prefix, item) => {
+    let i = 0;
+    while (i < prefix.length && prefix[i] === item[i]) i++;
+    return prefix.slice(0, i);
+  });
+
+// Searches backwards from `from` for the newest history entry containing `query`.
+const findInHistory = (history: string[], query: string, from: number) => {
+  for (let i = Math.min(from, history.length - 1); i >= 0; i--) {
+    if (history[i].includes(query)) return i;
+  }
+  return -1;
+};
+
+// Menu labels show just the word being completed, not the whole line.
+const menuLabel = (candidate: string, prefix: string) => candidate.slice(prefix.search(/[^\s|;&>]*$/));
+
+export const TerminalPrompt: React.FC<{
+  prompt: string,
+  history: string[],
+  // While a command runs the line can still be edited, but Enter waits for it to finish.
+  running: boolean,
+  promptClass: string,
+  textClass: string,
+  complete: (line: string) => string[],
+  onSubmit: (line: string) => void,
+  onInterrupt: (line: string) => void,
+  onClear: () => void
+}> = ({ prompt, history, running, promptClass, textClass, complete, onSubmit, onInterrupt, onClear }) => {
+  const [input, setInput] = useState('');
+  const [suggestion, setSuggestion] = useState('');
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+  const [search, setSearch] = useState<SearchState | null>(null);
+  const [menu, setMenu] = useState<MenuState | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!running) inputRef.current?.focus();
+  }, [running]);
+
+  const setLine = (line: string) => {
+    setInput(line);
+    const [match] = line.trim() ? complete(line) : [];
+    setSuggestion(match || '');
+  };
+
+  const reset = () => {
+    setLine('');
+    setHistoryIndex(null);
+    setSearch(null);
+    setMenu(null);
+  };
+
+  const submit = (line: string) => {
+    reset();
+    onSubmit(line);
+  };
+
+  const recallHistory = (index: number | null) => {
+    setHistoryIndex(index);
+    setLine(index === null ? draft : history[index]);
+  };
+
+  const tabComplete = () => {
+    const candidates = complete(input);
+    if (!candidates.length) return;
+    if (candidates.length === 1) {
+      setLine(/[/\s]$/.test(candidates[0]) ? candidates[0] : `${candidates[0]} `);
+      return;
+    }
+    const prefix = commonPrefix(candidates);
+    if (prefix.length > input.length) {
+      setLine(prefix);
+      return;
+    }
+    setMenu({ candidates, index: 0, original: input });
+    setInput(candidates[0]);
+    setSuggestion('');
+  };
+
+  const moveMenu = (step: number) => {
+    if (!menu) return;
+    const index = (menu.index + step + menu.candidates.length) % menu.candidates.length;
+    setMenu({ ...menu, index });
+    setInput(menu.candidates[index]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.ctrlKey && e.key === 'c') {
+      // With text selected, Ctrl+C keeps its usual meaning of copy.
+      const el = e.currentTarget;
+      if (el.selectionStart !== el.selectionEnd) return;
+      e.preventDefault();
+      onInterrupt(search ? '' : input);
+      reset();
+      return;
+    }
+    if (e.ctrlKey && e.key === 'l') {
+      e.preventDefault();
+      onClear();
+      return;
+    }
+    if (e.ctrlKey && e.key === 'r') {
+      e.preventDefault();
+      setMenu(null);
+      if (!search) setSearch({ query: '', index: -1 });
+      else if (search.query) setSearch({ ...search, index: findInHistory(history, search.query, (search.index === -1 ? history.length : search.index) - 1) });
+      return;
+    }
+
+    if (search) {
+      const match = search.index === -1 ? '' : history[search.index];
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        if (!running && match) submit(match);
+        else {
+          setSearch(null);
+          setLine(match);
+        }
+      } else if (e.key === 'Escape' || e.key === 'Tab' || e.key.startsWith('Arrow') || (e.ctrlKey && e.key === 'g')) {
+        // Ctrl+G abandons the search; everything else keeps the match for editing.
+        e.preventDefault();
+        const abandon = e.ctrlKey && e.key === 'g';
+        setSearch(null);
+        setLine(abandon ? input : match);
+      }
+      return;
+    }
+
+    if (menu) {
+      if (e.key === 'Tab' || e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        moveMenu(e.key === 'ArrowUp' || (e.key === 'Tab' && e.shiftKey) ? -1 : 1);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMenu(null);
+        setLine(menu.original);
+        return;
+      }
+      if (e.key === 'Enter') {
+        // Enter picks the highlighted candidate; a second Enter runs the line.
+        e.preventDefault();
+        setMenu(null);
+        setLine(input);
+        return;
+      }
+      setMenu(null);
+    }
+
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (!running) submit(input);
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      tabComplete();
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (!history.length) return;
+      if (historyIndex === null) setDraft(input);
+      recallHistory(historyIndex === null ? history.length - 1 : Math.max(historyIndex - 1, 0));
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      if (historyIndex === null) return;
+      recallHistory(historyIndex + 1 < history.length ? historyIndex + 1 : null);
+    }
+  };
+
+  const handleChange = (value: string) => {
+    if (search) {
+      setSearch({ query: value, index: value ? findInHistory(history, value, history.length - 1) : -1 });
+      return;
+    }
+    setMenu(null);
+    setHistoryIndex(null);
+    setLine(value);
+  };
+
+  const searchMatch = search && search.index !== -1 ? history[search.index] : '';
+  const menuPrefix = menu ? commonPrefix(menu.candidates) : '';
+
+  return (
+    <div className="mt-1 flex gap-2 relative">
+      {menu && (
+        <div className="absolute bottom-full left-0 mb-1 max-h-40 overflow-y-auto bg-[#161b22] border border-[#30363d] rounded shadow-lg z-10 py-0.5">
+          {menu.candidates.map((candidate, i) => (
+            <div
+              key={candidate}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                setMenu(null);
+                setLine(candidate);
+              }}
+              className={`px-2 py-0.5 cursor-pointer whitespace-pre ${i === menu.index ? 'bg-blue-600/40 text-white' : 'text-gray-400 hover:bg-[#21262d]'}`}
+            >
+              {menuLabel(candidate, menuPrefix)}
+            </div>
+          ))}
+        </div>
+      )}
+      <span className={`${search ? 'text-gray-500' : promptClass} select-none whitespace-pre`}>
+        {search ? `(${search.query && search.index === -1 ? 'failed ' : ''}reverse-i-search)` : running ? '' : prompt}
+      </span>
+      <div className="relative flex-1 flex">
+        {!search && !menu && suggestion.startsWith(input) && (
+          <span className="absolute left-0 top-0 text-gray-600 whitespace-pre pointer-events-none">
+            {suggestion}
+          </span>
+        )}
+        <input
+          ref={inputRef}
+          autoFocus
+          type="text"
+          spellCheck={false}
+          value={search ? search.query : input}
+          onChange={(e) => handleChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setMenu(null)}
+          className={`bg-transparent border-none outline-none p-0 m-0 ${textClass} caret-blue-500 ${search ? 'w-24' : 'w-full'}`}
+        />
+        {search && <span className={`${textClass} whitespace-pre truncate`}>: {searchMatch}</span>}
+      </div>
+    </div>
+  );
+};
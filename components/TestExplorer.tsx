@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { TestCase, TestStatus } from '../types';
+import { TechLoader } from './UiverseElements';
+
+const STATUS_ICONS: Record<TestStatus, { icon: string, className: string }> = {
+  pending: { icon: '○', className: 'text-gray-600' },
+  running: { icon: '◌', className: 'text-blue-400 animate-pulse' },
+  passed: { icon: '✓', className: 'text-green-400' },
+  failed: { icon: '✗', className: 'text-red-400' },
+  skipped: { icon: '–', className: 'text-gray-500' }
+};
+
+const groupTests = (tests: TestCase[]) => {
+  const groups: { key: string, path: string, suite: string, tests: TestCase[] }[] = [];
+  tests.forEach(test => {
+    const key = `${test.path}\n${test.suite}`;
+    const group = groups.find(g => g.key === key);
+    if (group) group.tests.push(test);
+    else groups.push({ key, path: test.path, suite: test.suite, tests: [test] });
+  });
+  return groups;
+};
+
+const worst = (tests: TestCase[]): TestStatus =>
+  (['running', 'failed', 'pending', 'skipped'] as const).find(s => tests.some(t => t.status === s)) || 'passed';
+
+export const TestExplorer: React.FC<{
+  tests: TestCase[],
+  running: boolean,
+  discovering: boolean,
+  onRun: (ids?: string[]) => void,
+  onStop: () => void,
+  onRefresh: () => void,
+  onOpen: (test: TestCase) => void
+}> = ({ tests, running, discovering, onRun, onStop, onRefresh, onOpen }) => {
+  const [collapsed, setCollapsed] = useState<string[]>([]);
+  const failed = tests.filter(t => t.status === 'failed');
+  const passed = tests.filter(t => t.status === 'passed');
+  const toggle = (key: string) => setCollapsed((c: string[]) => c.includes(key) ? c.filter(k => k !== key) : [...c, key]);
+  const buttonClass = 'px-2 py-1 rounded border border-[#30363d] text-[10px] text-gray-300 hover:bg-[#21262d] disabled:opacity-50 disabled:pointer-events-none';
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="px-3 pb-2 flex flex-wrap gap-1">
+        {running
+          ? <button onClick={onStop} className={buttonClass}>■ Stop</button>
+          : <button onClick={() => onRun()} disabled={!tests.length} className={buttonClass}>▶ Run all</button>}
+        <button onClick={() => onRun(failed.map(t => t.id))} disabled={running || !failed.length} className={buttonClass}>Run failed</button>
+        <button onClick={onRefresh} disabled={running || discovering} className={buttonClass}>↻ Refresh</button>
+      </div>
+      <div className="px-3 pb-2 text-[10px] text-gray-500 flex items-center gap-3">
+        <span><span className="text-green-400">{passed.length}</span> passed</span>
+        <span><span className="text-red-400">{failed.length}</span> failed</span>
+        <span>{tests.length} total</span>
+        {(running || discovering) && <TechLoader size="w-1.5 h-1.5" />}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-2 pb-2 code-font text-[11px]">
+        {!tests.length && !discovering && (
+          <div className="px-1 font-sans text-gray-500">
+            No tests found. Add a *.t.sol contract with test* functions, or a *.test.js / *.test.ts file.
+          </div>
+        )}
+        {groupTests(tests).map(group => {
+          const status = STATUS_ICONS[worst(group.tests)];
+          const isCollapsed = collapsed.includes(group.key);
+          return (
+            <div key={group.key} className="mb-1">
+              <div className="group flex items-center gap-1 px-1 py-0.5 rounded hover:bg-[#161b22]">
+                <button onClick={() => toggle(group.key)} className="flex-1 min-w-0 flex items-center gap-1 text-left">
+                  <span className="text-gray-600 w-3">{isCollapsed ? '▸' : '▾'}</span>
+                  <span className={status.className}>{status.icon}</span>
+                  <span className="text-gray-300 truncate">{group.suite || group.path.split('/').pop()}</span>
+                  <span className="text-gray-600 text-[10px] truncate">{group.path}</span>
+                </button>
+                <button
+                  onClick={() => onRun(group.tests.map(t => t.id))}
+                  disabled={running}
+                  title="Run these tests"
+                  className="hidden group-hover:block text-gray-500 hover:text-green-400 disabled:opacity-50"
+                >
+                  ▶
+                </button>
+              </div>
+              {!isCollapsed && group.tests.map(test => (
+                <div key={test.id} className="pl-5">
+                  <div className="group flex items-center gap-1 px-1 py-0.5 rounded hover:bg-[#161b22]">
+                    <span className={STATUS_ICONS[test.status].className}>{STATUS_ICONS[test.status].icon}</span>
+                    <button onClick={() => onOpen(test)} className="flex-1 min-w-0 text-left text-gray-400 hover:text-white truncate">
+                      {test.name}{test.kind === 'solidity' ? '()' : ''}
+                    </button>
+                    {test.gasUsed !== undefined && <span className="text-gray-600 text-[10px]" title="Gas used">{test.gasUsed.toLocaleString()}</span>}
+                    {test.durationMs !== undefined && <span className="text-gray-600 text-[10px]">{Math.round(test.durationMs)}ms</span>}
+                    <button
+                      onClick={() => onRun([test.id])}
+                      disabled={running}
+                      title="Run this test"
+                      className="hidden group-hover:block text-gray-500 hover:text-green-400 disabled:opacity-50"
+                    >
+                      ▶
+                    </button>
+                  </div>
+                  {test.error && <div className="pl-5 pr-1 pb-1 text-[10px] text-red-400/80 whitespace-pre-wrap break-words">{test.error}</div>}
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
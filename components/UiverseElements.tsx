@@ -52,6 +52,7 @@ export const WorkflowBadge: React.FC<{ status: string }> = ({ status }) => {
     success: 'bg-green-500/10 text-green-400 border-green-500/20',
     failed: 'bg-red-500/10 text-red-400 border-red-500/20',
     running: 'bg-blue-500/10 text-blue-400 border-blue-500/20',
+    cancelled: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20',
     idle: 'bg-gray-500/10 text-gray-400 border-gray-500/20'
   }[status] || 'bg-gray-500/10 text-gray-400 border-gray-500/20';
 
@@ -63,13 +64,25 @@ export const WorkflowBadge: React.FC<{ status: string }> = ({ status }) => {
 };
 
 // Terminal Tab Component
-export const TerminalTab: React.FC<{ name: string, active: boolean, onClick: () => void, onClose: (e: React.MouseEvent) => void }> = ({ name, active, onClick, onClose }) => (
+export const TerminalTab: React.FC<{
+  name: string,
+  active: boolean,
+  icon?: string,
+  // Shown in the split view but not focused.
+  visible?: boolean,
+  onClick: () => void,
+  onRename?: () => void,
+  onClose: (e: React.MouseEvent) => void
+}> = ({ name, active, icon, visible, onClick, onRename, onClose }) => (
   <div 
     onClick={onClick}
+    onDoubleClick={onRename}
+    title={onRename ? 'Double-click to rename' : undefined}
     className={`group flex items-center gap-2 px-3 h-full cursor-pointer transition-all border-b-2 text-[10px] font-bold uppercase tracking-wider
-      ${active ? 'bg-[#0d1117] text-gray-200 border-blue-500' : 'text-gray-500 border-transparent hover:text-gray-300 hover:bg-[#1f242b]'}`}
+      ${active ? 'bg-[#0d1117] text-gray-200 border-blue-500' : visible ? 'text-gray-300 border-[#30363d] hover:bg-[#1f242b]' : 'text-gray-500 border-transparent hover:text-gray-300 hover:bg-[#1f242b]'}`}
   >
-    <span>{name}</span>
+    {icon && <span className="code-font normal-case opacity-50">{icon}</span>}
+    <span className="whitespace-nowrap">{name}</span>
     <button 
       onClick={onClose}
       className={`opacity-0 group-hover:opacity-100 hover:text-white rounded px-1 transition-opacity`}
@@ -79,6 +92,39 @@ export const TerminalTab: React.FC<{ name: string, active: boolean, onClick: ()
   </div>
 );
 
+// Editor Tab Component
+export const EditorTab: React.FC<{
+  name: string,
+  active: boolean,
+  secondary?: boolean,
+  dirty?: boolean,
+  onClick: () => void,
+  onClose: (e: React.MouseEvent) => void,
+  onDragStart: () => void,
+  onDrop: () => void
+}> = ({ name, active, secondary, dirty, onClick, onClose, onDragStart, onDrop }) => (
+  <div
+    draggable
+    onClick={onClick}
+    onDragStart={onDragStart}
+    onDragOver={(e) => e.preventDefault()}
+    onDrop={(e) => { e.preventDefault(); onDrop(); }}
+    className={`group px-4 h-full border-r border-[#30363d] flex items-center gap-2 text-xs cursor-pointer border-t-2 flex-shrink-0 transition-colors
+      ${active ? 'bg-[#0d1117] text-gray-300 border-t-blue-500' : secondary ? 'bg-[#0d1117]/60 text-gray-400 border-t-purple-500/60' : 'text-gray-500 border-t-transparent hover:bg-[#1f242b] hover:text-gray-300'}`}
+  >
+    <svg className="w-3 h-3 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" /></svg>
+    {name}
+    <button
+      onClick={onClose}
+      title={dirty ? 'Unsaved changes (Ctrl+S to save)' : 'Close'}
+      className="hover:bg-gray-700 rounded px-1 ml-2 w-5 text-center"
+    >
+      {dirty ? <span className="group-hover:hidden">●</span> : null}
+      <span className={dirty ? 'hidden group-hover:inline' : ''}>×</span>
+    </button>
+  </div>
+);
+
 // Task Item UI Component
 export const TaskItem: React.FC<{ text: string, completed: boolean, onToggle: () => void, onDelete: () => void }> = ({ text, completed, onToggle, onDelete }) => (
   <div className="group flex items-center justify-between p-2 rounded-md hover:bg-[#1f242b] transition-all border border-transparent hover:border-[#30363d]">
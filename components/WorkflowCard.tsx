@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { JobRun, StepRun, StepStatus, WorkflowRun, WorkflowRunRecord, WorkflowStatus, WorkflowTrigger } from '../types';
+import { availableTriggers } from '../services/workflows';
+import { NeonButton, TechLoader, WorkflowBadge } from './UiverseElements';
+import { AnsiText } from './AnsiText';
+
+const STATUS_ICONS: Record<StepStatus | WorkflowStatus, { icon: string; className: string }> = {
+  idle: { icon: '○', className: 'text-gray-500' },
+  pending: { icon: '○', className: 'text-gray-500' },
+  running: { icon: '●', className: 'text-blue-400 animate-pulse' },
+  success: { icon: '✓', className: 'text-green-400' },
+  failed: { icon: '✗', className: 'text-red-400' },
+  skipped: { icon: '⊘', className: 'text-gray-500' },
+  cancelled: { icon: '⊘', className: 'text-yellow-500' }
+};
+
+const StatusIcon: React.FC<{ status: StepStatus | WorkflowStatus }> = ({ status }) => (
+  <span className={`w-3 flex-shrink-0 text-center ${STATUS_ICONS[status].className}`}>{STATUS_ICONS[status].icon}</span>
+);
+
+export const formatDuration = (start?: number, end?: number) => {
+  if (!start) return '';
+  const ms = (end ?? Date.now()) - start;
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`;
+};
+
+const StepRow: React.FC<{ step: StepRun }> = ({ step }) => {
+  const [open, setOpen] = useState(step.status === 'failed');
+  return (
+    <div>
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={!step.logs.length}
+        className="w-full flex items-center gap-1.5 pl-6 pr-1 py-0.5 text-left hover:bg-[#21262d] rounded disabled:hover:bg-transparent"
+      >
+        <StatusIcon status={step.status} />
+        <span className="flex-1 truncate text-gray-400">{step.name}</span>
+        <span className="text-gray-600">{formatDuration(step.startedAt, step.finishedAt)}</span>
+      </button>
+      {open && step.logs.length > 0 && (
+        <pre className="ml-6 my-0.5 p-1.5 max-h-40 overflow-auto bg-black/40 rounded text-[10px] text-gray-400 whitespace-pre-wrap break-all">
+          {step.logs.map((line, i) => <div key={i}><AnsiText text={line} /></div>)}
+        </pre>
+      )}
+    </div>
+  );
+};
+
+const JobRow: React.FC<{ job: JobRun }> = ({ job }) => {
+  const [open, setOpen] = useState(job.status !== 'success' && job.status !== 'skipped');
+  return (
+    <div>
+      <button onClick={() => setOpen(!open)} className="w-full flex items-center gap-1.5 pl-2 pr-1 py-0.5 text-left hover:bg-[#21262d] rounded">
+        <span className="w-2 text-gray-600">{open ? '▾' : '▸'}</span>
+        <StatusIcon status={job.status} />
+        <span className="flex-1 truncate text-gray-300">{job.name}</span>
+        {job.reused && <span className="text-gray-600" title="Kept from the previous attempt">reused</span>}
+        <span className="text-gray-600">{formatDuration(job.startedAt, job.finishedAt)}</span>
+      </button>
+      {open && job.steps.map((step, i) => <StepRow key={i} step={step} />)}
+    </div>
+  );
+};
+
+const RunRow: React.FC<{
+  run: WorkflowRunRecord,
+  open: boolean,
+  onToggle: () => void,
+  onRerunFailed?: () => void
+}> = ({ run, open, onToggle, onRerunFailed }) => (
+  <div className="border-t border-[#30363d] pt-1">
+    <div className="flex items-center gap-1.5 px-1">
+      <button onClick={onToggle} className="flex-1 min-w-0 flex items-center gap-1.5 py-0.5 text-left">
+        <span className="w-2 text-gray-600">{open ? '▾' : '▸'}</span>
+        <StatusIcon status={run.status} />
+        <span className="text-gray-300">#{run.runNumber}{run.attempt > 1 ? `.${run.attempt}` : ''}</span>
+        <span className="text-gray-500 truncate">{run.trigger} · {new Date(run.startedAt).toLocaleTimeString()}</span>
+      </button>
+      <span className="text-gray-600">{formatDuration(run.startedAt, run.finishedAt)}</span>
+    </div>
+    {open && (
+      <div className="pb-1">
+        {run.jobs.map(job => <JobRow key={job.id} job={job} />)}
+        {onRerunFailed && (
+          <button onClick={onRerunFailed} className="ml-2 mt-1 text-[10px] uppercase tracking-widest text-gray-500 hover:text-white">
+            ↻ Re-run failed jobs
+          </button>
+        )}
+      </div>
+    )}
+  </div>
+);
+
+export const WorkflowCard: React.FC<{
+  workflow: WorkflowRun,
+  onRun: (trigger: WorkflowTrigger) => void,
+  onCancel: () => void,
+  onRerunFailed: (run: WorkflowRunRecord) => void
+}> = ({ workflow, onRun, onCancel, onRerunFailed }) => {
+  const [trigger, setTrigger] = useState<WorkflowTrigger>('manual');
+  const [openRunId, setOpenRunId] = useState<string | null>(null);
+  const triggers = availableTriggers(workflow);
+  const running = workflow.status === 'running';
+  const latest = workflow.history[0];
+  // The newest run stays expanded until another one is picked.
+  const expandedId = openRunId ?? latest?.id;
+
+  return (
+    <div className="bg-[#161b22] border border-[#30363d] rounded-lg p-3 hover:border-blue-500/30 transition-all group">
+      <div className="flex justify-between items-start mb-2">
+        <div className="text-xs font-semibold text-gray-200">{workflow.workflowName}</div>
+        <WorkflowBadge status={workflow.status} />
+      </div>
+      <div className="text-[10px] text-gray-500 truncate" title={workflow.path}>{workflow.path}</div>
+      <div className="text-[10px] text-gray-500 mb-3">On: {workflow.triggers?.length ? workflow.triggers.join(', ') : '—'}</div>
+      {workflow.error && <div className="text-[10px] text-red-400 mb-3 break-words">{workflow.error}</div>}
+
+      <div className={`flex gap-1 ${running ? '' : 'opacity-0 group-hover:opacity-100 transition-opacity'}`}>
+        {triggers.length > 1 && !running && (
+          <select
+            value={trigger}
+            onChange={(e) => setTrigger(e.target.value as WorkflowTrigger)}
+            className="bg-[#0d1117] border border-[#30363d] rounded px-1 text-[10px] text-gray-300 focus:outline-none"
+          >
+            {triggers.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+        )}
+        {running ? (
+          <NeonButton onClick={onCancel} className="flex-1 justify-center py-1">
+            <TechLoader size="w-1 h-1" /> Cancel
+          </NeonButton>
+        ) : (
+          <NeonButton onClick={() => onRun(triggers.includes(trigger) ? trigger : 'manual')} className="flex-1 justify-center py-1">
+            Run Workflow
+          </NeonButton>
+        )}
+      </div>
+
+      {workflow.history.length > 0 && (
+        <div className="mt-3 space-y-1 code-font text-[10px]">
+          {workflow.history.map(run => (
+            <RunRow
+              key={run.id}
+              run={run}
+              open={expandedId === run.id}
+              onToggle={() => setOpenRunId(expandedId === run.id ? '' : run.id)}
+              onRerunFailed={run === latest && !running && (run.status === 'failed' || run.status === 'cancelled') ? () => onRerunFailed(run) : undefined}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import React from 'react';
+import { WorkspaceSummary } from '../types';
+
+export type SaveStatus = 'loading' | 'saved' | 'saving' | 'error';
+
+const STATUS_LABELS: Record<SaveStatus, string> = {
+  loading: 'Restoring…',
+  saved: 'Saved',
+  saving: 'Saving…',
+  error: 'Not saved'
+};
+
+export const WorkspaceSwitcher: React.FC<{
+  workspaces: WorkspaceSummary[],
+  activeId: string,
+  status: SaveStatus,
+  onSwitch: (id: string) => void,
+  onCreate: () => void,
+  onDelete: () => void
+}> = ({ workspaces, activeId, status, onSwitch, onCreate, onDelete }) => (
+  <div className="mb-4">
+    <div className="flex items-center justify-between mb-2">
+      <span className="text-[10px] text-gray-500 font-semibold uppercase tracking-widest">Workspace</span>
+      <span className={`text-[10px] ${status === 'error' ? 'text-red-400' : 'text-gray-600'}`}>{STATUS_LABELS[status]}</span>
+    </div>
+    <div className="flex gap-1">
+      <select
+        value={activeId}
+        disabled={status === 'loading'}
+        onChange={(e) => onSwitch(e.target.value)}
+        className="flex-1 min-w-0 bg-[#161b22] border border-[#30363d] rounded p-1.5 text-xs text-gray-300 focus:outline-none focus:ring-1 focus:ring-blue-500"
+      >
+        {workspaces.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+      </select>
+      <button
+        title="New workspace"
+        onClick={onCreate}
+        className="px-2 bg-[#161b22] border border-[#30363d] rounded text-gray-400 hover:text-white hover:border-blue-500/50 transition-colors"
+      >
+        +
+      </button>
+      <button
+        title="Delete workspace"
+        disabled={workspaces.length <= 1}
+        onClick={onDelete}
+        className="px-2 bg-[#161b22] border border-[#30363d] rounded text-gray-400 hover:text-red-400 hover:border-red-500/50 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+      >
+        ×
+      </button>
+    </div>
+  </div>
+);
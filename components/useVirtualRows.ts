@@ -0,0 +1,46 @@
+import React, { useLayoutEffect, useState } from 'react';
+
+export interface VirtualRows {
+  // Rows [start, end) are rendered; everything else is represented by padding.
+  start: number;
+  end: number;
+  padTop: number;
+  totalHeight: number;
+}
+
+// Windows a list of fixed-height rows inside `scrollRef`, which may also hold other content:
+// the list's own offset inside the scroller is measured rather than assumed.
+export const useVirtualRows = (
+  scrollRef: React.RefObject<HTMLElement | null>,
+  listRef: React.RefObject<HTMLElement | null>,
+  count: number,
+  rowHeight: number,
+  overscan = 20
+): VirtualRows => {
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0, offset: 0 });
+
+  useLayoutEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+    const update = () => {
+      const list = listRef.current;
+      const offset = list ? list.getBoundingClientRect().top - scroller.getBoundingClientRect().top + scroller.scrollTop : 0;
+      setViewport(v => v.scrollTop === scroller.scrollTop && v.height === scroller.clientHeight && v.offset === offset
+        ? v
+        : { scrollTop: scroller.scrollTop, height: scroller.clientHeight, offset });
+    };
+    update();
+    scroller.addEventListener('scroll', update, { passive: true });
+    const observer = new ResizeObserver(update);
+    observer.observe(scroller);
+    return () => {
+      scroller.removeEventListener('scroll', update);
+      observer.disconnect();
+    };
+  }, [scrollRef, listRef]);
+
+  const first = Math.floor((viewport.scrollTop - viewport.offset) / rowHeight);
+  const start = Math.min(Math.max(first - overscan, 0), count);
+  const end = Math.min(Math.max(first + Math.ceil(viewport.height / rowHeight) + overscan, 0), count);
+  return { start, end, padTop: start * rowHeight, totalHeight: count * rowHeight };
+};
@@ -0,0 +1,150 @@
+import { AbiParameter, BaseError, decodeErrorResult, decodeFunctionData, Hex, isAddress, isHex, parseAbiItem, toFunctionSelector } from 'viem';
+
+export type AbiFunction = {
+  type: 'function';
+  name: string;
+  inputs: AbiParameter[];
+  outputs: AbiParameter[];
+  stateMutability: 'pure' | 'view' | 'nonpayable' | 'payable';
+};
+
+export const abiFunctions = (abi: any[]): AbiFunction[] => abi.filter(item => item.type === 'function');
+
+export const abiConstructor = (abi: any[]): { inputs: AbiParameter[]; stateMutability?: string } =>
+  abi.find(item => item.type === 'constructor') || { inputs: [] };
+
+export const isReadOnly = (fn: AbiFunction) => fn.stateMutability === 'view' || fn.stateMutability === 'pure';
+
+export const signatureOf = (fn: { name: string; inputs: readonly AbiParameter[] }) =>
+  `${fn.name}(${fn.inputs.map(i => i.type).join(',')})`;
+
+const coerce = (param: AbiParameter, value: unknown): unknown => {
+  const { type } = param;
+  if (type.endsWith(']')) {
+    if (!Array.isArray(value)) throw new Error(`expected a JSON array for ${type}`);
+    const inner = { ...param, type: type.slice(0, type.lastIndexOf('[')) } as AbiParameter;
+    return value.map(v => coerce(inner, v));
+  }
+  if (type === 'tuple') {
+    const components = (param as { components?: readonly AbiParameter[] }).components || [];
+    return Array.isArray(value)
+      ? components.map((c, i) => coerce(c, value[i]))
+      : Object.fromEntries(components.map(c => [c.name, coerce(c, (value as Record<string, unknown>)?.[c.name || ''])]));
+  }
+
+  const text = String(value ?? '').trim();
+  if (/^u?int\d*$/.test(type)) {
+    if (!/^-?(0x[\da-f]+|\d+)$/i.test(text)) throw new Error(`"${text}" is not a valid ${type}`);
+    return BigInt(text);
+  }
+  if (type === 'bool') {
+    if (!/^(true|false|1|0)$/i.test(text)) throw new Error(`"${text}" is not a valid bool`);
+    return /^(true|1)$/i.test(text);
+  }
+  if (type === 'address' && !isAddress(text)) throw new Error(`"${text}" is not a valid address`);
+  if (type.startsWith('bytes') && !isHex(text)) throw new Error(`"${text}" is not valid hex for ${type}`);
+  return text;
+};
+
+// Turns the text typed into a form field into the value viem expects for `param`;
+// arrays and tuples are entered as JSON.
+export const parseArg = (param: AbiParameter, raw: string) => {
+  const composite = param.type.endsWith(']') || param.type === 'tuple';
+  return coerce(param, composite ? JSON.parse(raw.trim() || '[]') : raw);
+};
+
+export const parseArgs = (params: readonly AbiParameter[], raw: string[]) =>
+  params.map((p, i) => {
+    try {
+      return parseArg(p, raw[i] || '');
+    } catch (err) {
+      throw new Error(`${p.name || `arg ${i}`}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  });
+
+// JSON.stringify that renders bigints as plain decimal strings.
+export const formatValue = (value: unknown): string => {
+  if (typeof value === 'bigint') return value.toString();
+  if (typeof value === 'string') return value;
+  if (value === undefined) return '';
+  return JSON.stringify(value, (_, v) => typeof v === 'bigint' ? v.toString() : v);
+};
+
+// Decodes Error(string), Panic(uint256) and any custom errors declared in the ABI.
+export const decodeRevert = (abi: any[], data: Hex) => {
+  if (!data || data === '0x') return 'execution reverted';
+  try {
+    const { errorName, args } = decodeErrorResult({ abi, data });
+    if (errorName === 'Error') return `reverted: ${args?.[0]}`;
+    if (errorName === 'Panic') return `panic: 0x${(args?.[0] as bigint).toString(16)}`;
+    return `reverted: ${errorName}(${(args || []).map(formatValue).join(', ')})`;
+  } catch {
+    return `reverted with data ${data}`;
+  }
+};
+
+// Index of the parenthesis that closes the group opening at `start`.
+const closingParen = (text: string, start: number) => {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    else if (text[i] === ')' && --depth === 0) return i;
+  }
+  return -1;
+};
+
+// Reads a function signature the way cast does: `transfer(address,uint256)`, optionally followed
+// by its return types, `balanceOf(address)(uint256)`. Full human-readable ABI entries
+// (`function balanceOf(address) view returns (uint256)`) are accepted as well.
+export const parseSignature = (signature: string): AbiFunction => {
+  const text = signature.trim();
+  let source = text;
+  if (!text.startsWith('function ')) {
+    const open = text.indexOf('(');
+    const close = open === -1 ? -1 : closingParen(text, open);
+    const name = text.slice(0, open);
+    const rest = text.slice(close + 1).trim();
+    if (!/^[A-Za-z_$][\w$]*$/.test(name) || close === -1 || (rest && (!rest.startsWith('(') || closingParen(rest, 0) !== rest.length - 1))) {
+      throw new Error(`"${signature}" is not a function signature, e.g. balanceOf(address)(uint256)`);
+    }
+    source = `function ${text.slice(0, close + 1)}${rest ? ` returns ${rest}` : ''}`;
+  }
+  let item: { type: string };
+  try {
+    item = parseAbiItem(source) as { type: string };
+  } catch (err) {
+    throw new Error(`"${signature}" is not a valid signature: ${err instanceof BaseError ? err.shortMessage : String(err)}`);
+  }
+  if (item.type !== 'function') throw new Error(`"${signature}" is not a function signature`);
+  return item as AbiFunction;
+};
+
+// Accepts a bare ABI array or a compiler artifact / explorer response with an `abi` field.
+export const parseAbiJson = (text: string): any[] => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error('The ABI is not valid JSON');
+  }
+  const abi = Array.isArray(value) ? value : (value as { abi?: unknown })?.abi;
+  if (!Array.isArray(abi) || abi.some(item => typeof item?.type !== 'string')) {
+    throw new Error('Expected a JSON array of ABI entries, or an object with an "abi" array');
+  }
+  return abi;
+};
+
+// Names pasted hex data: calldata for one of the ABI's functions, or revert data for Error(string),
+// Panic(uint256) or one of its custom errors.
+export const describeData = (abi: any[], data: string) => {
+  const hex = data.trim().replace(/^(?!0x)/, '0x');
+  if (!isHex(hex) || hex.length < 10) throw new Error('Paste hex data that starts with a 4-byte selector');
+  const fn = abiFunctions(abi).find(f => toFunctionSelector(f) === hex.slice(0, 10).toLowerCase());
+  if (fn) {
+    const { args } = decodeFunctionData({ abi: [fn], data: hex });
+    return `call ${signatureOf(fn)}: ${(args || []).map(formatValue).join(', ')}`;
+  }
+  const revert = decodeRevert(abi, hex);
+  if (!revert.startsWith('reverted with data')) return revert;
+  throw new Error(`No function or error in the ABI has selector ${hex.slice(0, 10)}`);
+};
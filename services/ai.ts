@@ -0,0 +1,45 @@
+import { AIProviderId, AISettings } from '../types';
+import { AIChatTurn, AIProvider, ChatOptions } from './aiProvider';
+import { createGeminiProvider } from './gemini';
+import { createOpenAIProvider } from './openaiCompatible';
+import { createMockProvider } from './mockAI';
+
+export const AI_PROVIDERS: Record<AIProviderId, {
+  label: string;
+  defaultModel: string;
+  usesApiKey: boolean;
+  usesBaseUrl: boolean;
+  contextTokens: number;
+  create: (settings: AISettings) => AIProvider;
+}> = {
+  gemini: { label: 'Google Gemini', defaultModel: 'gemini-3-flash-preview', usesApiKey: true, usesBaseUrl: false, contextTokens: 1_000_000, create: createGeminiProvider },
+  openai: { label: 'OpenAI-compatible', defaultModel: 'gpt-4o-mini', usesApiKey: true, usesBaseUrl: true, contextTokens: 128_000, create: createOpenAIProvider },
+  mock: { label: 'Offline mock', defaultModel: 'mock', usesApiKey: false, usesBaseUrl: false, contextTokens: 8_000, create: createMockProvider }
+};
+
+// Without a build-time key there is nothing to talk to, so start offline.
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: process.env.API_KEY ? 'gemini' : 'mock',
+  model: process.env.API_KEY ? AI_PROVIDERS.gemini.defaultModel : AI_PROVIDERS.mock.defaultModel,
+  temperature: 0.7,
+  apiKey: '',
+  baseUrl: 'http://localhost:11434/v1',
+  contextTokens: process.env.API_KEY ? AI_PROVIDERS.gemini.contextTokens : AI_PROVIDERS.mock.contextTokens
+};
+
+let settings: AISettings = DEFAULT_AI_SETTINGS;
+let provider: AIProvider = AI_PROVIDERS[settings.provider].create(settings);
+
+export const getAISettings = () => settings;
+
+export const configureAI = (next: AISettings) => {
+  settings = next;
+  provider = AI_PROVIDERS[next.provider].create(next);
+};
+
+export const analyzeCode = (code: string, language: string, path: string) => provider.analyzeCode(code, language, path);
+
+export const streamChat = (turns: AIChatTurn[], context: string, options?: ChatOptions) => provider.chat(turns, context, options);
+
+// A single question with no conversation around it, as the AI terminal asks.
+export const chatWithAI = (message: string, context: string) => provider.chat([{ role: 'user', text: message }], context);
@@ -0,0 +1,61 @@
+import { ChatMessage, CodeAnalysis, CodeAnalysisIssue } from '../types';
+
+export type AIChatTurn = Pick<ChatMessage, 'role' | 'text'>;
+
+export interface ChatOptions {
+  // Called with each piece of the reply as it arrives.
+  onToken?: (token: string) => void;
+  // Aborting stops generation; the promise then resolves with what arrived so far.
+  signal?: AbortSignal;
+}
+
+// What the rest of the app needs from a model backend. A provider is built from one set of
+// settings and rebuilt whenever they change.
+export interface AIProvider {
+  analyzeCode: (code: string, language: string, path: string) => Promise<CodeAnalysis>;
+  // Continues a conversation (oldest turn first, ending with the user's) and resolves with the full reply.
+  chat: (turns: AIChatTurn[], context: string, options?: ChatOptions) => Promise<string>;
+}
+
+// Edits come back as whole files, not patches: the app diffs them itself, so a model that
+// miscounts lines cannot corrupt a file.
+export const EDIT_INSTRUCTION = 'When you propose changes to a workspace file, give the complete new file in one fenced code block whose info string is the language followed by path=<workspace path>, for example ```solidity path=contracts/Storage.sol.';
+
+export const SYSTEM_INSTRUCTION = `You are Soluf-th AI, a senior developer assistant. You specialize in VS Code, GitHub Actions, and Solidity smart contracts. Keep answers concise and code-focused. ${EDIT_INSTRUCTION}`;
+
+export const analysisPrompt = (code: string, language: string, path: string) =>
+  `Analyze the following ${language} code from ${path} for errors, security vulnerabilities (especially if it's Solidity), and suggest optimizations. If you can implement the optimization, include it in "edits" as the complete new content of ${path}:\n\n${code}`;
+
+// The active file travels in the system prompt, so it is sent once per request rather than repeated in every turn.
+export const systemPrompt = (context: string) =>
+  context ? `${SYSTEM_INSTRUCTION}\n\nContext:\n${context}` : SYSTEM_INSTRUCTION;
+
+// Providers without schema-constrained output are asked for this shape explicitly.
+export const ANALYSIS_FORMAT = 'Respond with a JSON object only: {"summary": string, "issues": [{"severity": "Low" | "Medium" | "High", "message": string, "line": number}], "optimization": string, "edits": [{"path": string, "content": string}]}.';
+
+const SEVERITIES: CodeAnalysisIssue['severity'][] = ['Low', 'Medium', 'High'];
+
+// Models wrap JSON in code fences and drift from the schema; normalise what came back
+// rather than trusting it, and fail loudly when it is not JSON at all.
+export const parseAnalysis = (text: string): CodeAnalysis => {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let raw: any;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('AI response was not valid JSON');
+  }
+  const issues: any[] = Array.isArray(raw?.issues) ? raw.issues : [];
+  const edits: any[] = Array.isArray(raw?.edits) ? raw.edits : [];
+  return {
+    summary: String(raw?.summary ?? ''),
+    optimization: String(raw?.optimization ?? ''),
+    issues: issues.map(issue => {
+      const severity = SEVERITIES.find(s => s.toLowerCase() === String(issue?.severity).toLowerCase()) || 'Low';
+      return { severity, message: String(issue?.message ?? ''), line: Number(issue?.line) || 0 };
+    }),
+    edits: edits
+      .filter(edit => typeof edit?.path === 'string' && typeof edit?.content === 'string')
+      .map(edit => ({ path: edit.path.replace(/^\.?\//, ''), content: edit.content }))
+  };
+};
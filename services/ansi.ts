@@ -0,0 +1,100 @@
+// Parses the ANSI escape sequences terminal output uses for styling: SGR colours
+// (16, 256 and 24-bit), bold/dim/italic/underline/inverse, and OSC 8 hyperlinks.
+
+export interface AnsiStyle {
+  // CSS colours.
+  fg?: string;
+  bg?: string;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  inverse?: boolean;
+  href?: string;
+}
+
+export interface AnsiSegment {
+  text: string;
+  style: AnsiStyle;
+}
+
+// Normal then bright variants of black, red, green, yellow, blue, magenta, cyan and white.
+const PALETTE = [
+  '#484f58', '#ff7b72', '#3fb950', '#d29922', '#58a6ff', '#bc8cff', '#39c5cf', '#b1bac4',
+  '#6e7681', '#ffa198', '#56d364', '#e3b341', '#79c0ff', '#d2a8ff', '#56d4dd', '#ffffff'
+];
+
+const color256 = (n: number) => {
+  if (n < 16) return PALETTE[n];
+  if (n >= 232) {
+    const level = 8 + (n - 232) * 10;
+    return `rgb(${level},${level},${level})`;
+  }
+  const cube = n - 16;
+  const channel = (v: number) => v ? 55 + v * 40 : 0;
+  return `rgb(${channel(Math.floor(cube / 36))},${channel(Math.floor(cube / 6) % 6)},${channel(cube % 6)})`;
+};
+
+// CSI sequences (only `m` affects styling) and OSC sequences terminated by BEL or ESC \.
+const ESCAPE = /\x1b\[([\d;]*)([A-Za-z])|\x1b\](\d+);([^\x07\x1b]*)(?:\x07|\x1b\\)/g;
+
+// Applies one SGR parameter list to `style`; `38;5;n`-style extended colours consume extra parameters.
+const applySgr = (style: AnsiStyle, params: number[]): AnsiStyle => {
+  let next = { ...style };
+  for (let i = 0; i < params.length; i++) {
+    const p = params[i];
+    // A reset clears the styling but not an open hyperlink, which only OSC 8 closes.
+    if (p === 0) next = style.href ? { href: style.href } : {};
+    else if (p === 1) next.bold = true;
+    else if (p === 2) next.dim = true;
+    else if (p === 3) next.italic = true;
+    else if (p === 4) next.underline = true;
+    else if (p === 7) next.inverse = true;
+    else if (p === 22) next.bold = next.dim = false;
+    else if (p === 23) next.italic = false;
+    else if (p === 24) next.underline = false;
+    else if (p === 27) next.inverse = false;
+    else if (p >= 30 && p <= 37) next.fg = PALETTE[p - 30];
+    else if (p >= 90 && p <= 97) next.fg = PALETTE[p - 90 + 8];
+    else if (p === 39) delete next.fg;
+    else if (p >= 40 && p <= 47) next.bg = PALETTE[p - 40];
+    else if (p >= 100 && p <= 107) next.bg = PALETTE[p - 100 + 8];
+    else if (p === 49) delete next.bg;
+    else if (p === 38 || p === 48) {
+      const key = p === 38 ? 'fg' : 'bg';
+      if (params[i + 1] === 5 && params[i + 2] !== undefined) {
+        next[key] = color256(params[i + 2]);
+        i += 2;
+      } else if (params[i + 1] === 2 && params[i + 4] !== undefined) {
+        next[key] = `rgb(${params[i + 2]},${params[i + 3]},${params[i + 4]})`;
+        i += 4;
+      }
+    }
+  }
+  return next;
+};
+
+export const parseAnsi = (text: string): AnsiSegment[] => {
+  const segments: AnsiSegment[] = [];
+  let style: AnsiStyle = {};
+  let last = 0;
+  const push = (chunk: string) => {
+    if (chunk) segments.push({ text: chunk, style });
+  };
+
+  for (const m of text.matchAll(ESCAPE)) {
+    push(text.slice(last, m.index));
+    last = m.index! + m[0].length;
+    if (m[2] === 'm') {
+      style = applySgr(style, (m[1] || '0').split(';').map(p => Number(p) || 0));
+    } else if (m[3] === '8') {
+      // OSC 8 ; params ; uri — an empty uri closes the link.
+      const uri = m[4].slice(m[4].indexOf(';') + 1);
+      style = { ...style, href: uri || undefined };
+    }
+  }
+  push(text.slice(last));
+  return segments;
+};
+
+export const stripAnsi = (text: string) => text.replace(ESCAPE, '');
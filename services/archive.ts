@@ -0,0 +1,116 @@
+import { unzipSync, zipSync, strToU8 } from 'fflate';
+import { FileEntry, ImportSummary } from '../types';
+import { createId, inferLanguage } from './fileTree';
+
+const MAX_FILE_BYTES = 1024 * 1024;
+const IGNORED_SEGMENTS = ['__MACOSX', '.git', 'node_modules', '.DS_Store'];
+const BINARY_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'ico', 'pdf', 'zip', 'gz', 'tar', 'woff', 'woff2', 'ttf', 'otf', 'mp3', 'mp4', 'wasm', 'exe', 'dll', 'so', 'dylib', 'bin'];
+
+interface RawEntry {
+  path: string;
+  bytes: Uint8Array;
+}
+
+const utf8 = new TextDecoder('utf-8', { fatal: true });
+
+// A file is treated as text when it has no NUL bytes and decodes as strict UTF-8.
+const decodeText = (bytes: Uint8Array) => {
+  if (bytes.subarray(0, 8000).includes(0)) return null;
+  try {
+    return utf8.decode(bytes);
+  } catch {
+    return null;
+  }
+};
+
+const skipReason = (path: string, bytes: Uint8Array) => {
+  const ext = path.split('.').pop()?.toLowerCase() || '';
+  if (BINARY_EXTENSIONS.includes(ext)) return 'binary file';
+  if (bytes.length > MAX_FILE_BYTES) return 'larger than 1 MB';
+  return null;
+};
+
+const buildTree = (source: string, entries: RawEntry[]): { files: FileEntry[]; summary: ImportSummary } => {
+  const root: FileEntry[] = [];
+  const summary: ImportSummary = { source, importedFiles: 0, importedFolders: 0, skipped: [] };
+  const folders = new Map<string, FileEntry>();
+
+  const folderFor = (segments: string[]) => {
+    let children = root;
+    segments.forEach((name, i) => {
+      const key = segments.slice(0, i + 1).join('/');
+      let folder = folders.get(key);
+      if (!folder) {
+        folder = { id: createId('dir'), name, type: 'folder', children: [] };
+        folders.set(key, folder);
+        children.push(folder);
+        summary.importedFolders++;
+      }
+      children = folder.children!;
+    });
+    return children;
+  };
+
+  for (const { path, bytes } of entries.sort((a, b) => a.path.localeCompare(b.path))) {
+    const segments = path.split('/').filter(Boolean);
+    if (!segments.length || segments.some(s => IGNORED_SEGMENTS.includes(s))) continue;
+    // Zip archives list directories as empty entries with a trailing slash.
+    if (path.endsWith('/')) {
+      folderFor(segments);
+      continue;
+    }
+    const name = segments[segments.length - 1];
+    const reason = skipReason(path, bytes);
+    const content = reason ? null : decodeText(bytes);
+    if (content === null) {
+      summary.skipped.push({ path, reason: reason || 'binary file' });
+      continue;
+    }
+    folderFor(segments.slice(0, -1)).push({ id: createId('file'), name, type: 'file', language: inferLanguage(name), content });
+    summary.importedFiles++;
+  }
+  return { files: root, summary };
+};
+
+export const importZip = async (file: File) => {
+  const archive = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  const result = buildTree(file.name, Object.entries(archive).map(([path, bytes]) => ({ path, bytes })));
+  // Archives that are not already wrapped in a single folder get one named after the zip.
+  if (result.files.length === 1 && result.files[0].type === 'folder') return result;
+  const folder: FileEntry = { id: createId('dir'), name: file.name.replace(/\.zip$/i, ''), type: 'folder', children: result.files };
+  return { files: [folder], summary: { ...result.summary, importedFolders: result.summary.importedFolders + 1 } };
+};
+
+// Files picked through a directory input carry their folder-relative path.
+export const importFolder = async (fileList: FileList) => {
+  const files = Array.from(fileList);
+  const entries = await Promise.all(files.map(async f => ({
+    path: f.webkitRelativePath || f.name,
+    bytes: new Uint8Array(await f.arrayBuffer())
+  })));
+  const source = files[0]?.webkitRelativePath.split('/')[0] || 'folder';
+  return buildTree(source, entries);
+};
+
+export const exportZip = (entries: FileEntry[]) => {
+  const tree: Record<string, any> = {};
+  const walk = (items: FileEntry[], target: Record<string, any>) => items.forEach(item => {
+    if (item.type === 'folder') {
+      target[item.name] = {};
+      walk(item.children || [], target[item.name]);
+    } else {
+      target[item.name] = strToU8(item.content || '');
+    }
+  });
+  walk(entries, tree);
+  return new Blob([zipSync(tree, { level: 6 })], { type: 'application/zip' });
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
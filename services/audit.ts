@@ -0,0 +1,134 @@
+import { AuditIssue, AuditIssueStatus, AuditReport, CodeAnalysis, CodeAnalysisIssue, Diagnostic, DiagnosticSeverity, FileEntry } from '../types';
+import { createId } from './fileTree';
+
+// Older reports are kept so a file's findings can be compared across versions.
+const MAX_REPORTS_PER_FILE = 5;
+// How far (in lines) an issue may drift from its audited line and still be re-anchored.
+const ANCHOR_SEARCH_LINES = 200;
+
+export const AUDIT_SEVERITY: Record<CodeAnalysisIssue['severity'], DiagnosticSeverity> = {
+  High: 'error',
+  Medium: 'warning',
+  Low: 'info'
+};
+
+// FNV-1a; only used to tell versions of a file apart, not for integrity.
+export const contentVersion = (content: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const fingerprint = (issue: { message: string; snippet: string }) => `${issue.message}\n${issue.snippet}`;
+
+// Issues the previous report already had keep their status, so a re-audit does not
+// resurface findings that were dismissed or marked won't fix.
+export const createAuditReport = (fileId: string, content: string, analysis: CodeAnalysis, model: string, previous?: AuditReport): AuditReport => {
+  const lines = content.split('\n');
+  const statuses = new Map((previous?.issues || []).map(issue => [fingerprint(issue), issue.status]));
+  const issues = analysis.issues.map((issue): AuditIssue => {
+    const snippet = (lines[issue.line - 1] || '').trim();
+    return { ...issue, id: createId('issue'), snippet, status: statuses.get(fingerprint({ message: issue.message, snippet })) || 'open' };
+  });
+  return {
+    id: createId('audit'),
+    fileId,
+    version: contentVersion(content),
+    model,
+    summary: analysis.summary,
+    optimization: analysis.optimization,
+    issues,
+    edits: analysis.edits,
+    createdAt: Date.now()
+  };
+};
+
+// Static findings come first; an AI issue is dropped when a rule already flagged the same
+// line at the same severity, since both are then almost always describing one problem.
+export const mergeAnalysis = (staticIssues: CodeAnalysisIssue[], ai: CodeAnalysis | null): CodeAnalysis => {
+  const flagged = new Set(staticIssues.map(i => `${i.line}:${i.severity}`));
+  const aiIssues = (ai?.issues || []).filter(i => !flagged.has(`${i.line}:${i.severity}`));
+  const counts = `${staticIssues.length} static finding(s)`;
+  return {
+    summary: ai ? `${ai.summary} (${counts} merged.)` : `Static analysis: ${counts}.`,
+    issues: [...staticIssues, ...aiIssues].sort((a, b) => a.line - b.line),
+    optimization: ai?.optimization || '',
+    edits: ai?.edits
+  };
+};
+
+export const latestReport = (reports: AuditReport[], fileId: string) =>
+  reports.reduce<AuditReport | undefined>((latest, r) => r.fileId === fileId && (!latest || r.createdAt > latest.createdAt) ? r : latest, undefined);
+
+export const addAuditReport = (reports: AuditReport[], report: AuditReport) => {
+  const forFile = reports.filter(r => r.fileId === report.fileId).sort((a, b) => b.createdAt - a.createdAt);
+  const dropped = new Set(forFile.slice(MAX_REPORTS_PER_FILE - 1).map(r => r.id));
+  return [...reports.filter(r => !dropped.has(r.id)), report];
+};
+
+export const setAuditIssueStatus = (reports: AuditReport[], issueId: string, status: AuditIssueStatus) =>
+  reports.map(r => r.issues.some(i => i.id === issueId)
+    ? { ...r, issues: r.issues.map(i => i.id === issueId ? { ...i, status } : i) }
+    : r);
+
+// The 1-based line the issue refers to in `lines`: its audited line if that still holds the
+// flagged code, otherwise the nearest line that does. Null when the code is gone.
+export const anchorLine = (issue: AuditIssue, lines: string[]): number | null => {
+  if (!issue.snippet) return issue.line >= 1 && issue.line <= lines.length ? issue.line : null;
+  const matches = (line: number) => lines[line - 1]?.trim() === issue.snippet;
+  for (let d = 0; d <= ANCHOR_SEARCH_LINES; d++) {
+    if (matches(issue.line - d)) return issue.line - d;
+    if (d && matches(issue.line + d)) return issue.line + d;
+  }
+  return null;
+};
+
+export interface AnchoredIssue {
+  issue: AuditIssue;
+  line: number;
+  // The flagged code can no longer be found; `line` is where it was.
+  stale: boolean;
+}
+
+export const anchorIssues = (report: AuditReport, content: string): AnchoredIssue[] => {
+  const lines = content.split('\n');
+  return report.issues.map(issue => {
+    const line = anchorLine(issue, lines);
+    return { issue, line: line ?? Math.min(Math.max(issue.line, 1), lines.length), stale: line === null };
+  });
+};
+
+// Open findings from each file's latest report, as diagnostics against the file's current text.
+export const auditDiagnostics = (
+  reports: AuditReport[],
+  fileIndex: Map<string, FileEntry>,
+  readFile: (file: FileEntry) => string,
+  pathOf: (file: FileEntry) => string
+): Diagnostic[] => {
+  const fileIds = [...new Set(reports.map(r => r.fileId))];
+  return fileIds.flatMap(fileId => {
+    const report = latestReport(reports, fileId)!;
+    const file = fileIndex.get(fileId);
+    if (!file) return [];
+    const content = readFile(file);
+    const lines = content.split('\n');
+    return anchorIssues(report, content)
+      .filter(({ issue }) => issue.status === 'open')
+      .map(({ issue, line, stale }): Diagnostic => ({
+        fileId: file.id,
+        path: pathOf(file),
+        line,
+        column: Math.max(lines[line - 1]?.search(/\S/) ?? 0, 0) + 1,
+        endLine: line,
+        endColumn: (lines[line - 1]?.length || 0) + 1,
+        severity: AUDIT_SEVERITY[issue.severity],
+        message: stale ? `${issue.message} (the flagged code has changed since the audit)` : issue.message,
+        source: 'audit',
+        code: issue.detector || issue.severity,
+        auditIssueId: issue.id
+      }));
+  });
+};
@@ -0,0 +1,44 @@
+import { ChatMessage, ChatThread } from '../types';
+import { AIChatTurn } from './aiProvider';
+import { createId } from './fileTree';
+
+// How many past messages go back to the model with each question.
+export const MAX_CHAT_TURNS = 20;
+const TITLE_LENGTH = 40;
+
+export const createChatThread = (): ChatThread => {
+  const now = Date.now();
+  return { id: createId('chat'), title: 'New chat', messages: [], createdAt: now, updatedAt: now };
+};
+
+export const createChatMessage = (role: ChatMessage['role'], text: string): ChatMessage =>
+  ({ id: createId('msg'), role, text, timestamp: Date.now() });
+
+export const threadTitle = (text: string) => {
+  const line = text.trim().split('\n')[0];
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1)}…` : line || 'New chat';
+};
+
+// The conversation as the model sees it: stopped, failed and empty replies are left out along
+// with the user turns they answered, and it always opens with a user turn.
+export const chatTurns = (messages: ChatMessage[]): AIChatTurn[] => {
+  const turns = messages
+    .filter((m, i) => {
+      const unanswered = (r?: ChatMessage) => !!r && (!!r.status || !r.text);
+      return m.role === 'user' ? !unanswered(messages[i + 1]) : !unanswered(m);
+    })
+    .slice(-MAX_CHAT_TURNS)
+    .map(({ role, text }) => ({ role, text }));
+  while (turns.length && turns[0].role !== 'user') turns.shift();
+  return turns;
+};
+
+export const upsertThread = (threads: ChatThread[], thread: ChatThread) =>
+  threads.some(t => t.id === thread.id) ? threads.map(t => t.id === thread.id ? thread : t) : [...threads, thread];
+
+export const updateChatMessage = (threads: ChatThread[], threadId: string, messageId: string, fn: (m: ChatMessage) => ChatMessage) =>
+  threads.map(t => t.id !== threadId ? t : {
+    ...t,
+    updatedAt: Date.now(),
+    messages: t.messages.map(m => m.id === messageId ? fn(m) : m)
+  });
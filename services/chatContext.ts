@@ -0,0 +1,153 @@
+import { ChatContextItem, FileEntry, LogEntry, WorkflowRun } from '../types';
+import { findFile, flattenFiles } from './fileTree';
+import { plainText } from './terminalLog';
+
+// A rough, model-independent estimate: English text and code average about four characters a token.
+const CHARS_PER_TOKEN = 4;
+// Left free in the context window for the model's reply.
+export const REPLY_RESERVE_TOKENS = 2048;
+export const DEFAULT_TERMINAL_LINES = 50;
+const MAX_MENTION_CANDIDATES = 20;
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+// Everything an @-mention can point at, read at the moment the question is sent.
+export interface ContextSources {
+  files: FileEntry[];
+  // A file's current text, including unsaved edits.
+  readFile: (file: FileEntry) => string;
+  selection: { path: string; text: string } | null;
+  terminal: { name: string; logs: LogEntry[] } | null;
+  workflows: WorkflowRun[];
+}
+
+export interface ContextSection {
+  label: string;
+  text: string;
+  // What survives truncation: both ends of a file, or the most recent part of a log.
+  keep: 'ends' | 'tail';
+}
+
+export const contextLabel = (item: ChatContextItem) => {
+  switch (item.kind) {
+    case 'file': return item.path;
+    case 'folder': return `${item.path}/`;
+    case 'selection': return 'selection';
+    case 'terminal': return `terminal:${item.lines}`;
+    case 'workflow': return `workflow:${item.name}`;
+  }
+};
+
+const sameItem = (a: ChatContextItem, b: ChatContextItem) => contextLabel(a) === contextLabel(b);
+
+export const addContextItem = (items: ChatContextItem[], item: ChatContextItem) =>
+  items.some(i => sameItem(i, item)) ? items : [...items, item];
+
+const folderPaths = (files: FileEntry[], prefix = ''): { path: string; folder: FileEntry }[] =>
+  files.flatMap(f => f.type === 'folder'
+    ? [{ path: `${prefix}${f.name}`, folder: f }, ...folderPaths(f.children || [], `${prefix}${f.name}/`)]
+    : []);
+
+const latestFailedRun = (workflow: WorkflowRun) =>
+  [...workflow.history].reverse().find(run => run.status === 'failed');
+
+// Candidates for the word after "@", best matches first: exact prefixes before substrings.
+export const mentionCandidates = (query: string, sources: ContextSources): { item: ChatContextItem; detail: string }[] => {
+  const q = query.toLowerCase();
+  const terminalLines = q.match(/^terminal:(\d+)$/);
+  const specials: { item: ChatContextItem; detail: string }[] = [];
+  if (sources.selection) specials.push({ item: { kind: 'selection' }, detail: `Selected text in ${sources.selection.path}` });
+  if (sources.terminal) {
+    const lines = terminalLines ? Number(terminalLines[1]) : DEFAULT_TERMINAL_LINES;
+    specials.push({ item: { kind: 'terminal', lines }, detail: `Last ${lines} lines of ${sources.terminal.name}` });
+  }
+  sources.workflows.forEach(workflow => {
+    const run = latestFailedRun(workflow);
+    if (run) specials.push({ item: { kind: 'workflow', workflowId: workflow.id, runId: run.id, name: workflow.workflowName }, detail: `Logs of failed run #${run.runNumber}` });
+  });
+
+  const entries: { item: ChatContextItem; detail: string }[] = [
+    ...folderPaths(sources.files).map(({ path, folder }) => ({ item: { kind: 'folder', id: folder.id, path } as ChatContextItem, detail: 'Folder' })),
+    ...flattenFiles(sources.files).map(({ path, file }) => ({ item: { kind: 'file', id: file.id, path } as ChatContextItem, detail: file.language || 'File' }))
+  ];
+
+  const rank = (label: string) => {
+    const l = label.toLowerCase();
+    const name = l.slice(l.replace(/\/$/, '').lastIndexOf('/') + 1);
+    return name.startsWith(q) || l.startsWith(q) ? 0 : l.includes(q) ? 1 : -1;
+  };
+  return [...specials, ...entries]
+    .map(c => ({ c, r: terminalLines && c.item.kind === 'terminal' ? 0 : rank(contextLabel(c.item)) }))
+    .filter(({ r }) => r >= 0)
+    .sort((a, b) => a.r - b.r)
+    .slice(0, MAX_MENTION_CANDIDATES)
+    .map(({ c }) => c);
+};
+
+const runLogs = (workflow: WorkflowRun, runId: string) => {
+  const run = workflow.history.find(r => r.id === runId);
+  if (!run) return null;
+  return run.jobs.flatMap(job => [
+    `# Job ${job.name} (${job.status})`,
+    ...job.steps.flatMap(step => [`## ${step.name} (${step.status})`, ...step.logs])
+  ]).join('\n');
+};
+
+// Turns attached items into text. Items whose target has since gone (a deleted file, an
+// empty selection) are dropped rather than sent as empty sections.
+export const resolveContext = (items: ChatContextItem[], sources: ContextSources): ContextSection[] =>
+  items.flatMap((item): ContextSection[] => {
+    switch (item.kind) {
+      case 'file': {
+        const file = findFile(sources.files, item.id);
+        return file ? [{ label: item.path, text: sources.readFile(file), keep: 'ends' }] : [];
+      }
+      case 'folder': {
+        const folder = findFile(sources.files, item.id);
+        return folder ? flattenFiles(folder.children || [], `${item.path}/`).map(({ path, file }) => ({ label: path, text: sources.readFile(file), keep: 'ends' })) : [];
+      }
+      case 'selection':
+        return sources.selection?.text ? [{ label: `Selection in ${sources.selection.path}`, text: sources.selection.text, keep: 'ends' }] : [];
+      case 'terminal':
+        return sources.terminal ? [{
+          label: `Terminal ${sources.terminal.name} (last ${item.lines} lines)`,
+          text: sources.terminal.logs.slice(-item.lines).map(plainText).join('\n'),
+          keep: 'tail'
+        }] : [];
+      case 'workflow': {
+        const workflow = sources.workflows.find(w => w.id === item.workflowId);
+        const logs = workflow && runLogs(workflow, item.runId);
+        return logs ? [{ label: `Workflow ${item.name} run logs`, text: logs, keep: 'tail' }] : [];
+      }
+    }
+  });
+
+// Cuts `text` to `chars` characters, the omission marker included.
+const truncate = (text: string, chars: number, keep: ContextSection['keep']) => {
+  if (text.length <= chars) return text;
+  const marker = `\n… [${text.length} characters, truncated] …\n`;
+  const room = Math.max(0, chars - marker.length);
+  if (keep === 'tail') return marker.trimStart() + text.slice(text.length - room);
+  const head = Math.ceil(room * 2 / 3);
+  return text.slice(0, head) + marker + text.slice(text.length - (room - head));
+};
+
+const header = (section: ContextSection) => `--- ${section.label} ---\n`;
+const SEPARATOR = '\n\n';
+
+// Fits the sections into `budgetTokens`. When they do not all fit, the budget is shared
+// fairly: small sections are kept whole and the large ones split what remains equally.
+export const fitContext = (sections: ContextSection[], budgetTokens: number) => {
+  const overhead = sections.reduce((n, s) => n + header(s).length + SEPARATOR.length, 0);
+  const budget = Math.max(0, budgetTokens * CHARS_PER_TOKEN - overhead);
+  const allotted = new Map<ContextSection, number>();
+  let remaining = budget;
+  [...sections].sort((a, b) => a.text.length - b.text.length).forEach((section, i, sorted) => {
+    const share = Math.min(section.text.length, Math.floor(remaining / (sorted.length - i)));
+    allotted.set(section, share);
+    remaining -= share;
+  });
+  const truncated = sections.some(s => allotted.get(s)! < s.text.length);
+  const text = sections.map(s => header(s) + truncate(s.text, allotted.get(s)!, s.keep)).join(SEPARATOR);
+  return { text, tokens: estimateTokens(text), truncated };
+};
@@ -0,0 +1,194 @@
+import { AccountSource, FileEntry, NetworkConfig, TerminalTheme } from '../types';
+
+// What the shell can ask of the hub: the workspace files plus the IDE actions some commands trigger.
+export interface ShellHost {
+  getFiles: () => FileEntry[];
+  setFiles: (files: FileEntry[]) => void;
+  // Called after entries are deleted so editors holding them can close.
+  closeFiles: (ids: string[]) => void;
+  clear: () => void;
+  setTheme: (theme: TerminalTheme) => void;
+  compile: () => Promise<boolean>;
+  deploy: () => Promise<boolean>;
+  test: (signal?: AbortSignal) => Promise<boolean>;
+  audit: (options?: { staticOnly?: boolean }) => Promise<boolean>;
+  // The network and account source selected in the Networks panel, used by call and send.
+  getNetwork: () => { network: NetworkConfig; source: AccountSource };
+}
+
+// Mutable so that a `cd` is seen by the commands that follow it in the same session.
+export interface ShellSession {
+  cwd: string;
+}
+
+export interface CommandContext {
+  args: string[];
+  session: ShellSession;
+  host: ShellHost;
+  print: (line: string) => void;
+  // Error output: shown in the terminal, but never piped into the next command or redirected to a file.
+  printError: (line: string) => void;
+  // Output of the previous command in a pipeline; undefined when nothing is piped in.
+  stdin?: string[];
+  // Aborted by Ctrl+C or when a workflow run is cancelled.
+  signal?: AbortSignal;
+}
+
+export type CompletionContext = Pick<CommandContext, 'session' | 'host'>;
+
+export interface Command {
+  name: string;
+  // Usage synopsis shown by `help`, e.g. "[-p] <dir>...".
+  args?: string;
+  description: string;
+  // Candidates for the last (partial) argument in `args`.
+  complete?: (args: string[], ctx: CompletionContext) => string[];
+  // Resolves with the exit code: 0 on success.
+  run: (ctx: CommandContext) => number | Promise<number>;
+}
+
+const registry = new Map<string, Command>();
+
+export const registerCommand = (command: Command) => {
+  registry.set(command.name, command);
+};
+
+export const registerCommands = (commands: Command[]) => commands.forEach(registerCommand);
+
+export const getCommand = (name: string) => registry.get(name);
+
+export const listCommands = () => [...registry.values()].sort((a, b) => a.name.localeCompare(b.name));
+
+export interface ShellToken {
+  text: string;
+  // Unquoted operator such as `|`, `&&` or `>`; quoted text is never an operator.
+  operator?: boolean;
+}
+
+const OPERATORS = ['&&', '||', '>>', '|', ';', '>'];
+
+// Splits a command line into words and operators, honouring single and double quotes and backslash escapes.
+export const tokenizeLine = (line: string): ShellToken[] => {
+  const tokens: ShellToken[] = [];
+  let current = '';
+  let inWord = false;
+  let quote: '"' | "'" | null = null;
+  const flush = () => {
+    if (inWord) tokens.push({ text: current });
+    current = '';
+    inWord = false;
+  };
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+      else if (ch === '\\' && quote === '"' && i + 1 < line.length) current += line[++i];
+      else current += ch;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+      inWord = true;
+    } else if (ch === '\\' && i + 1 < line.length) {
+      current += line[++i];
+      inWord = true;
+    } else if (/\s/.test(ch)) {
+      flush();
+    } else if (OPERATORS.some(op => line.startsWith(op, i))) {
+      flush();
+      const op = OPERATORS.find(o => line.startsWith(o, i))!;
+      tokens.push({ text: op, operator: true });
+      i += op.length - 1;
+    } else {
+      current += ch;
+      inWord = true;
+    }
+  }
+  if (quote) throw new Error('unterminated quote');
+  flush();
+  return tokens;
+};
+
+export interface PipelineStage {
+  words: string[];
+  redirect?: { target: string; append: boolean };
+}
+
+export interface ChainLink {
+  // How this pipeline depends on the one before it; the first link always runs.
+  connector: ';' | '&&' | '||';
+  stages: PipelineStage[];
+}
+
+// Groups tokens into `;`/`&&`/`||`-separated pipelines of `|`-separated commands.
+export const parseCommandLine = (line: string): ChainLink[] => {
+  const links: ChainLink[] = [];
+  let connector: ChainLink['connector'] = ';';
+  let stages: PipelineStage[] = [];
+  let stage: PipelineStage = { words: [] };
+  const tokens = tokenizeLine(line);
+
+  const endStage = (op: string) => {
+    if (!stage.words.length) throw new Error(`syntax error near unexpected token '${op}'`);
+    stages.push(stage);
+    stage = { words: [] };
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (!token.operator) {
+      if (stage.redirect) throw new Error(`syntax error near unexpected token '${token.text}'`);
+      stage.words.push(token.text);
+    } else if (token.text === '>' || token.text === '>>') {
+      const target = tokens[i + 1];
+      if (!target || target.operator || stage.redirect) throw new Error(`syntax error near unexpected token '${target?.text || 'newline'}'`);
+      stage.redirect = { target: target.text, append: token.text === '>>' };
+      i++;
+    } else if (token.text === '|') {
+      endStage('|');
+    } else {
+      endStage(token.text);
+      links.push({ connector, stages });
+      connector = token.text as ChainLink['connector'];
+      stages = [];
+    }
+  }
+  if (stage.words.length) stages.push(stage);
+  else if (stages.length || connector !== ';') throw new Error('syntax error: unexpected end of line');
+  if (stages.length) links.push({ connector, stages });
+  return links;
+};
+
+// The trailing word of a line as typed, quotes and escapes included.
+const RAW_LAST_WORD = /(?:\\.|"(?:[^"\\]|\\.)*"|'[^']*'|[^\s|;&>"'\\])+$/;
+
+const quoteIfNeeded = (word: string) => /[\s"'\\>|;&]/.test(word) ? `"${word.replace(/(["\\])/g, '\\$1')}"` : word;
+
+// Full-line completions for what has been typed so far. Only the command after the last
+// operator is completed: its name for the first word, otherwise whatever it offers for its last argument.
+export const completeLine = (line: string, ctx: CompletionContext): string[] => {
+  let tokens: ShellToken[];
+  try {
+    tokens = tokenizeLine(line);
+  } catch {
+    return [];
+  }
+  const lastOp = tokens.map(t => !!t.operator).lastIndexOf(true);
+  const words = tokens.slice(lastOp + 1).map(t => t.text);
+  if (!line.trim() || /\s$/.test(line) || (lastOp !== -1 && lastOp === tokens.length - 1)) words.push('');
+  const partial = words[words.length - 1];
+  // Everything before the word being completed, kept exactly as typed.
+  const head = partial ? line.slice(0, line.length - (line.match(RAW_LAST_WORD)?.[0].length ?? 0)) : line;
+
+  let candidates: string[];
+  if (tokens[lastOp]?.text === '>' || tokens[lastOp]?.text === '>>') {
+    // Redirection targets are paths, which `ls` already knows how to complete.
+    candidates = getCommand('ls')?.complete?.([partial], ctx) || [];
+  } else if (words.length === 1) {
+    candidates = listCommands().map(c => c.name);
+  } else {
+    candidates = getCommand(words[0])?.complete?.(words.slice(1), ctx) || [];
+  }
+  return candidates
+    .filter(candidate => candidate.startsWith(partial) && candidate !== partial)
+    .map(candidate => `${head}${quoteIfNeeded(candidate)}`);
+};
@@ -0,0 +1,114 @@
+import { CompilationResult, CompiledContract, Diagnostic, FileEntry } from '../types';
+import { caretPosition } from './editorBuffer';
+import { ensureFolderPath, flattenFiles, upsertFile } from './fileTree';
+
+export const ARTIFACTS_DIR = 'artifacts';
+// Matches the hardfork the in-browser EVM sandbox runs.
+export const EVM_VERSION = 'cancun';
+
+interface WorkerReply {
+  id: number;
+  version?: string;
+  output?: string;
+  error?: string;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (r: WorkerReply) => void; reject: (e: Error) => void }>();
+
+const getWorker = () => {
+  if (!worker) {
+    worker = new Worker(new URL('./compiler.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<WorkerReply>) => {
+      pending.get(e.data.id)?.resolve(e.data);
+      pending.delete(e.data.id);
+    };
+    worker.onerror = (e) => {
+      pending.forEach(p => p.reject(new Error(e.message || 'Compiler worker crashed')));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+};
+
+const runCompiler = (input: object) => new Promise<WorkerReply>((resolve, reject) => {
+  const id = nextRequestId++;
+  pending.set(id, { resolve, reject });
+  getWorker().postMessage({ id, input: JSON.stringify(input) });
+});
+
+export const solidityFiles = (files: FileEntry[]) =>
+  flattenFiles(files).filter(({ path }) => path.endsWith('.sol') && !path.startsWith(`${ARTIFACTS_DIR}/`));
+
+export const compileSolidity = async (files: FileEntry[]): Promise<CompilationResult> => {
+  const sources = solidityFiles(files);
+  const input = {
+    language: 'Solidity',
+    sources: Object.fromEntries(sources.map(({ path, file }) => [path, { content: file.content || '' }])),
+    settings: {
+      optimizer: { enabled: true, runs: 200 },
+      evmVersion: EVM_VERSION,
+      outputSelection: { '*': { '*': ['abi', 'evm.bytecode.object', 'evm.deployedBytecode.object', 'storageLayout'] } }
+    }
+  };
+
+  const reply = await runCompiler(input);
+  if (reply.error || !reply.output) throw new Error(reply.error || 'Compiler returned no output');
+  const output = JSON.parse(reply.output);
+
+  const diagnostics: Diagnostic[] = (output.errors || []).map((err: any): Diagnostic => {
+    const loc = err.sourceLocation;
+    const source = sources.find(s => s.path === loc?.file) || sources[0];
+    const content = source?.file.content || '';
+    const start = caretPosition(content, Math.max(loc?.start ?? 0, 0));
+    const end = caretPosition(content, Math.max(loc?.end ?? loc?.start ?? 0, 0));
+    return {
+      fileId: source?.file.id || '',
+      path: loc?.file || source?.path || '',
+      line: start.line,
+      column: start.col,
+      endLine: end.line,
+      endColumn: end.col,
+      severity: err.severity === 'error' ? 'error' : err.severity === 'warning' ? 'warning' : 'info',
+      message: err.message,
+      source: 'solc',
+      code: err.errorCode
+    };
+  });
+
+  const contracts: CompiledContract[] = Object.entries(output.contracts || {}).flatMap(([sourcePath, byName]: [string, any]) =>
+    Object.entries(byName).map(([name, c]: [string, any]) => ({
+      name,
+      sourcePath,
+      abi: c.abi,
+      bytecode: `0x${c.evm?.bytecode?.object || ''}`,
+      deployedBytecode: `0x${c.evm?.deployedBytecode?.object || ''}`,
+      storageLayout: c.storageLayout
+    })));
+
+  return {
+    success: !diagnostics.some(d => d.severity === 'error'),
+    compilerVersion: reply.version || 'unknown',
+    contracts,
+    diagnostics,
+    compiledAt: Date.now()
+  };
+};
+
+// Hardhat-style layout: artifacts/<source path>/<Contract>.json
+export const writeArtifacts = (files: FileEntry[], result: CompilationResult): FileEntry[] =>
+  result.contracts.reduce((tree, contract) => {
+    const { files: next, folderId } = ensureFolderPath(tree, [ARTIFACTS_DIR, ...contract.sourcePath.split('/')]);
+    const artifact = {
+      contractName: contract.name,
+      sourceName: contract.sourcePath,
+      compiler: result.compilerVersion,
+      abi: contract.abi,
+      bytecode: contract.bytecode,
+      deployedBytecode: contract.deployedBytecode
+    };
+    return upsertFile(next, folderId, `${contract.name}.json`, JSON.stringify(artifact, null, 2));
+  }, files);
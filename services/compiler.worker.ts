@@ -0,0 +1,17 @@
+/// <reference lib="webworker" />
+import * as soljson from 'solc/soljson.js';
+
+// soljson is bundled with the app, so compiling never needs the network. Imports are
+// resolved by solc itself because every workspace source is passed in up front.
+const compile: (input: string, readCallback: number, context: number) => string =
+  soljson.cwrap('solidity_compile', 'string', ['string', 'number', 'number'], {});
+const version: () => string = soljson.cwrap('solidity_version', 'string', [], {});
+
+self.onmessage = (e: MessageEvent<{ id: number; input: string }>) => {
+  const { id, input } = e.data;
+  try {
+    self.postMessage({ id, version: version(), output: compile(input, 0, 0) });
+  } catch (err) {
+    self.postMessage({ id, error: err instanceof Error ? err.message : String(err) });
+  }
+};
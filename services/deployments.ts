@@ -0,0 +1,33 @@
+import { DeploymentRecord, FileEntry, NetworkConfig } from '../types';
+import { ensureFolderPath, findByPath, upsertFile } from './fileTree';
+
+// One JSON file per network under deployments/, so the registry travels with the workspace
+// (and its exports) like the compiler artifacts do. Files are named by network id, which survives
+// renames; the name inside is only for people reading it. RPC URLs are left out: they often carry API keys.
+export const DEPLOYMENTS_DIR = 'deployments';
+
+interface RegistryFile {
+  network: string;
+  deployments: DeploymentRecord[];
+}
+
+const fileName = (network: NetworkConfig) => `${network.id}.json`;
+
+export const registryPath = (network: NetworkConfig) => `${DEPLOYMENTS_DIR}/${fileName(network)}`;
+
+// Newest first. A file that is missing or was edited into invalid JSON reads as empty.
+export const readDeployments = (files: FileEntry[], network: NetworkConfig): DeploymentRecord[] => {
+  const file = findByPath(files, [DEPLOYMENTS_DIR, fileName(network)]);
+  try {
+    const registry: RegistryFile = JSON.parse(file?.content || '{}');
+    return Array.isArray(registry.deployments) ? [...registry.deployments].reverse() : [];
+  } catch {
+    return [];
+  }
+};
+
+export const recordDeployment = (files: FileEntry[], network: NetworkConfig, record: DeploymentRecord): FileEntry[] => {
+  const registry: RegistryFile = { network: network.name, deployments: [...readDeployments(files, network).reverse(), record] };
+  const { files: next, folderId } = ensureFolderPath(files, [DEPLOYMENTS_DIR]);
+  return upsertFile(next, folderId, fileName(network), JSON.stringify(registry, null, 2));
+};
@@ -0,0 +1,89 @@
+import { DiffHunk } from '../types';
+
+// Above this many changed-region cells the LCS table gets too big; the region is then
+// treated as one replacement, which is still a correct (if coarse) diff.
+const MAX_LCS_CELLS = 4_000_000;
+export const DIFF_CONTEXT_LINES = 3;
+
+type Op = { type: 'same' | 'del' | 'add'; line: string };
+
+const lcsOps = (a: string[], b: string[]): Op[] => {
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [...a.map(line => ({ type: 'del' as const, line })), ...b.map(line => ({ type: 'add' as const, line }))];
+  }
+  // lengths[i][j] is the LCS length of a[i..] and b[j..].
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: 'same', line: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      ops.push({ type: 'del', line: a[i++] });
+    } else {
+      ops.push({ type: 'add', line: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ type: 'del', line: a[i++] });
+  while (j < b.length) ops.push({ type: 'add', line: b[j++] });
+  return ops;
+};
+
+// Line diff as a list of hunks, one per contiguous run of changes, so each can be
+// accepted or rejected on its own. Line numbers are 0-based.
+export const diffLines = (oldText: string, newText: string): DiffHunk[] => {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const ops = lcsOps(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix));
+  const hunks: DiffHunk[] = [];
+  let oldLine = prefix;
+  let newLine = prefix;
+  let current: DiffHunk | null = null;
+  for (const op of ops) {
+    if (op.type === 'same') {
+      current = null;
+      oldLine++;
+      newLine++;
+      continue;
+    }
+    if (!current) {
+      current = { id: `hunk-${hunks.length}`, oldStart: oldLine, newStart: newLine, oldLines: [], newLines: [] };
+      hunks.push(current);
+    }
+    if (op.type === 'del') {
+      current.oldLines.push(op.line);
+      oldLine++;
+    } else {
+      current.newLines.push(op.line);
+      newLine++;
+    }
+  }
+  return hunks;
+};
+
+// The original text with only the accepted hunks applied.
+export const applyHunks = (oldText: string, hunks: DiffHunk[], accepted: (hunk: DiffHunk) => boolean) => {
+  const lines = oldText.split('\n');
+  const result: string[] = [];
+  let cursor = 0;
+  for (const hunk of hunks) {
+    result.push(...lines.slice(cursor, hunk.oldStart));
+    result.push(...(accepted(hunk) ? hunk.newLines : hunk.oldLines));
+    cursor = hunk.oldStart + hunk.oldLines.length;
+  }
+  result.push(...lines.slice(cursor));
+  return result.join('\n');
+};
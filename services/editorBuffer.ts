@@ -0,0 +1,81 @@
+import { EditorBuffer, EditorSelection, FileEntry } from '../types';
+
+// Consecutive keystrokes within this window collapse into a single undo step.
+const COALESCE_MS = 800;
+const MAX_HISTORY = 200;
+
+export const createBuffer = (file: FileEntry): EditorBuffer => ({
+  fileId: file.id,
+  content: file.content || '',
+  savedContent: file.content || '',
+  selection: { start: 0, end: 0 },
+  undoStack: [],
+  redoStack: [],
+  lastEditAt: 0,
+  scrollTop: 0
+});
+
+export const isDirty = (buffer?: EditorBuffer) => !!buffer && buffer.content !== buffer.savedContent;
+
+export const applyEdit = (buffer: EditorBuffer, content: string, selection: EditorSelection, now = Date.now()): EditorBuffer => {
+  if (content === buffer.content) return { ...buffer, selection };
+
+  // Small single-caret edits typed in quick succession extend the previous undo step;
+  // pastes, deletions of a selection and pauses start a new one.
+  const isTyping = Math.abs(content.length - buffer.content.length) <= 1
+    && buffer.selection.start === buffer.selection.end
+    && now - buffer.lastEditAt < COALESCE_MS;
+
+  const undoStack = isTyping && buffer.undoStack.length > 0
+    ? buffer.undoStack
+    : [...buffer.undoStack, { content: buffer.content, selection: buffer.selection }].slice(-MAX_HISTORY);
+
+  return { ...buffer, content, selection, undoStack, redoStack: [], lastEditAt: now };
+};
+
+export const undo = (buffer: EditorBuffer): EditorBuffer => {
+  const prev = buffer.undoStack[buffer.undoStack.length - 1];
+  if (!prev) return buffer;
+  return {
+    ...buffer,
+    content: prev.content,
+    selection: prev.selection,
+    undoStack: buffer.undoStack.slice(0, -1),
+    redoStack: [...buffer.redoStack, { content: buffer.content, selection: buffer.selection }],
+    lastEditAt: 0
+  };
+};
+
+export const redo = (buffer: EditorBuffer): EditorBuffer => {
+  const next = buffer.redoStack[buffer.redoStack.length - 1];
+  if (!next) return buffer;
+  return {
+    ...buffer,
+    content: next.content,
+    selection: next.selection,
+    undoStack: [...buffer.undoStack, { content: buffer.content, selection: buffer.selection }],
+    redoStack: buffer.redoStack.slice(0, -1),
+    lastEditAt: 0
+  };
+};
+
+export const markSaved = (buffer: EditorBuffer): EditorBuffer => ({ ...buffer, savedContent: buffer.content });
+
+// Converts a character offset into 1-based line/column numbers for the status bar.
+export const caretPosition = (content: string, offset: number) => {
+  const before = content.slice(0, offset);
+  const lastBreak = before.lastIndexOf('\n');
+  return {
+    line: before.split('\n').length,
+    col: offset - lastBreak
+  };
+};
+
+// Inverse of caretPosition: 1-based line/column to a character offset, clamped to the content.
+export const offsetOf = (content: string, line: number, col: number) => {
+  const lines = content.split('\n');
+  const target = Math.min(Math.max(line, 1), lines.length);
+  let offset = 0;
+  for (let i = 0; i < target - 1; i++) offset += lines[i].length + 1;
+  return offset + Math.min(Math.max(col - 1, 0), lines[target - 1].length);
+};
@@ -0,0 +1,255 @@
+import { Common, Hardfork, Mainnet } from '@ethereumjs/common';
+import { createLegacyTx } from '@ethereumjs/tx';
+import { Account, Address, bigIntToBytes, bytesToHex, createAddressFromString, hexToBytes, setLengthLeft } from '@ethereumjs/util';
+import type { EVMResult, InterpreterStep, Message } from '@ethereumjs/evm';
+import { createVM, runTx, VM } from '@ethereumjs/vm';
+import { decodeEventLog, decodeFunctionResult, encodeDeployData, encodeFunctionData, parseEther, toHex } from 'viem';
+import { mnemonicToAccount } from 'viem/accounts';
+import { CompiledContract, DecodedEvent, DeployedContract, Hex, SandboxAccount, SandboxTxResult, StorageChange } from '../types';
+import { AbiFunction, decodeRevert, isReadOnly } from './abi';
+import { createId } from './fileTree';
+
+// Same mnemonic anvil and hardhat use, so sandbox accounts match the usual local-node accounts.
+export const TEST_MNEMONIC = 'test test test test test test test test test test test junk';
+const ACCOUNT_COUNT = 5;
+const INITIAL_BALANCE = parseEther('10000');
+const GAS_LIMIT = 30_000_000n;
+const GAS_PRICE = 1_000_000_000n;
+
+// Must match the evmVersion the compiler targets.
+export const SANDBOX_HARDFORK = Hardfork.Cancun;
+
+export const testAccountKeys = (count = ACCOUNT_COUNT) =>
+  Array.from({ length: count }, (_, i) => {
+    const account = mnemonicToAccount(TEST_MNEMONIC, { addressIndex: i });
+    return { address: account.address as Hex, privateKey: toHex(account.getHdKey().privateKey!) as Hex };
+  });
+
+export interface Sandbox {
+  vm: VM;
+  common: Common;
+  keys: { address: Hex; privateKey: Hex }[];
+}
+
+let sandbox: Promise<Sandbox> | null = null;
+
+// A fresh chain with funded test accounts. The Deploy & Run panel shares one; the test
+// runner makes its own so tests never touch what the user deployed.
+export const createSandbox = async (): Promise<Sandbox> => {
+  const common = new Common({ chain: Mainnet, hardfork: SANDBOX_HARDFORK });
+  const vm = await createVM({ common });
+  const keys = testAccountKeys();
+  for (const { address } of keys) {
+    await vm.stateManager.putAccount(createAddressFromString(address), new Account(0n, INITIAL_BALANCE));
+  }
+  return { vm, common, keys };
+};
+
+const getSandbox = () => {
+  if (!sandbox) sandbox = createSandbox();
+  return sandbox;
+};
+
+export const resetSandbox = async () => {
+  sandbox = createSandbox();
+  await sandbox;
+};
+
+export const getSandboxAccounts = async (): Promise<SandboxAccount[]> => {
+  const { vm, keys } = await getSandbox();
+  return Promise.all(keys.map(async key => {
+    const account = await vm.stateManager.getAccount(createAddressFromString(key.address));
+    return { ...key, balance: account?.balance ?? 0n };
+  }));
+};
+
+// Runs `fn` and then rolls back every state change it made.
+export const withSnapshot = async <T>(chain: Promise<Sandbox>, fn: () => Promise<T>) => {
+  const { vm } = await chain;
+  await vm.stateManager.checkpoint();
+  try {
+    return await fn();
+  } finally {
+    await vm.stateManager.revert();
+  }
+};
+
+const hexAddress = (address: Address) => address.toString() as Hex;
+
+export interface CallFrame {
+  kind: 'create' | 'call';
+  // The created contract, or the account whose code ran (the implementation for a delegatecall).
+  address?: Hex;
+  // Init code for a create, calldata for a call.
+  data: Hex;
+  // Gas spent inside the frame, without the base cost of the enclosing transaction.
+  gasUsed: bigint;
+  success: boolean;
+}
+
+// Reports every message frame that finishes on `chain`, top-level and nested, until the
+// returned function is called.
+export const watchCallFrames = async (chain: Promise<Sandbox>, onFrame: (frame: CallFrame) => void) => {
+  const { vm } = await chain;
+  // Frames nest strictly, so each afterMessage belongs to the latest beforeMessage.
+  // A create moves its init code out of `data` and fills in `to` while it runs, so both
+  // are taken up front.
+  const open: { kind: CallFrame['kind']; data: Hex; message: Message }[] = [];
+  const before = (message: Message, resolve?: () => void) => {
+    open.push({ kind: message.to ? 'call' : 'create', data: bytesToHex(message.data) as Hex, message });
+    resolve?.();
+  };
+  const after = (result: EVMResult, resolve?: () => void) => {
+    const frame = open.pop();
+    if (frame) {
+      const target: Address | undefined = frame.kind === 'create' ? result.createdAddress : frame.message.codeAddress ?? frame.message.to;
+      onFrame({
+        kind: frame.kind,
+        address: target ? hexAddress(target) : undefined,
+        data: frame.data,
+        gasUsed: result.execResult.executionGasUsed,
+        success: !result.execResult.exceptionError
+      });
+    }
+    resolve?.();
+  };
+  vm.evm.events!.on('beforeMessage', before);
+  vm.evm.events!.on('afterMessage', after);
+  return () => {
+    vm.evm.events!.off('beforeMessage', before);
+    vm.evm.events!.off('afterMessage', after);
+  };
+};
+
+// Records every SSTORE executed during `fn` so results can show which slots changed.
+const traceStorage = async <T>(vm: VM, fn: () => Promise<T>) => {
+  const writes = new Map<string, StorageChange>();
+  const recordWrite = async ({ stack, address, stateManager }: InterpreterStep) => {
+    const slot = setLengthLeft(bigIntToBytes(stack[stack.length - 1]), 32);
+    const key = `${address.toString()}:${bytesToHex(slot)}`;
+    const existing = writes.get(key);
+    let before = existing?.before;
+    if (!existing) {
+      try {
+        before = toHex(setLengthLeft(await stateManager.getStorage(address, slot), 32));
+      } catch {
+        // Listed with `before` unknown rather than left out of the results.
+      }
+    }
+    writes.set(key, { address: hexAddress(address), slot: bytesToHex(slot) as Hex, before, after: toHex(stack[stack.length - 2], { size: 32 }) });
+  };
+  // The EVM waits for `resolve`, so it is called whatever happens while recording.
+  const onStep = async (step: InterpreterStep, resolve?: () => void) => {
+    try {
+      if (step.opcode.name === 'SSTORE') await recordWrite(step);
+    } finally {
+      resolve?.();
+    }
+  };
+  vm.evm.events!.on('step', onStep);
+  try {
+    const result = await fn();
+    return { result, stateChanges: [...writes.values()].filter(c => c.before !== c.after) };
+  } finally {
+    vm.evm.events!.off('step', onStep);
+  }
+};
+
+const decodeLogs = (logs: [Uint8Array, Uint8Array[], Uint8Array][], abis: Map<string, any[]>): DecodedEvent[] =>
+  logs.map(([address, topics, data]) => {
+    const emitter = bytesToHex(address).toLowerCase() as Hex;
+    try {
+      const { eventName, args } = decodeEventLog({
+        abi: abis.get(emitter) || [],
+        topics: topics.map(t => bytesToHex(t)) as [Hex, ...Hex[]],
+        data: bytesToHex(data) as Hex
+      }) as { eventName?: string; args?: unknown };
+      return { name: eventName || 'anonymous', address: emitter, args: (args ?? {}) as DecodedEvent['args'] };
+    } catch {
+      return { name: 'UnknownEvent', address: emitter, args: { topics: topics.map(t => bytesToHex(t)), data: bytesToHex(data) } };
+    }
+  });
+
+const sendTransaction = async (chain: Promise<Sandbox>, from: Hex, to: Hex | undefined, data: Hex, value: bigint) => {
+  const { vm, common, keys } = await chain;
+  const key = keys.find(k => k.address.toLowerCase() === from.toLowerCase());
+  if (!key) throw new Error(`${from} is not a sandbox account`);
+  const sender = await vm.stateManager.getAccount(createAddressFromString(from));
+  const tx = createLegacyTx(
+    { nonce: sender?.nonce ?? 0n, gasPrice: GAS_PRICE, gasLimit: GAS_LIMIT, to, value, data },
+    { common }
+  ).sign(hexToBytes(key.privateKey));
+  return traceStorage(vm, () => runTx(vm, { tx, skipBlockGasLimitValidation: true }));
+};
+
+export const deployContract = async (
+  contract: CompiledContract, args: unknown[], from: Hex, value = 0n, chain = getSandbox()
+): Promise<{ result: SandboxTxResult; deployed?: DeployedContract }> => {
+  const data = encodeDeployData({ abi: contract.abi, bytecode: contract.bytecode as Hex, args });
+  const { result: run, stateChanges } = await sendTransaction(chain, from, undefined, data, value);
+  const error = run.execResult.exceptionError;
+  const address = run.createdAddress ? hexAddress(run.createdAddress) : undefined;
+  const result: SandboxTxResult = {
+    id: createId('tx'),
+    kind: 'deploy',
+    contractName: contract.name,
+    from,
+    to: address,
+    success: !error,
+    gasUsed: run.totalGasSpent,
+    events: error || !address ? [] : decodeLogs(run.receipt.logs, new Map([[address.toLowerCase(), contract.abi]])),
+    stateChanges: error ? [] : stateChanges,
+    error: error ? decodeRevert(contract.abi, bytesToHex(run.execResult.returnValue) as Hex) : undefined,
+    timestamp: Date.now()
+  };
+  return {
+    result,
+    deployed: !error && address ? { address, name: contract.name, abi: contract.abi, deployedAt: result.timestamp } : undefined
+  };
+};
+
+// View and pure functions run as a free eth_call; everything else is mined as a transaction.
+export const callContract = async (
+  contract: DeployedContract, fn: AbiFunction, args: unknown[], from: Hex, value = 0n, chain = getSandbox()
+): Promise<SandboxTxResult> => {
+  const data = encodeFunctionData({ abi: contract.abi, functionName: fn.name, args });
+  const base = { id: createId('tx'), contractName: contract.name, functionName: fn.name, from, to: contract.address, timestamp: Date.now() };
+  const decodeReturn = (bytes: Uint8Array) =>
+    fn.outputs.length ? decodeFunctionResult({ abi: contract.abi, functionName: fn.name, data: bytesToHex(bytes) as Hex }) : undefined;
+
+  if (isReadOnly(fn)) {
+    const { vm } = await chain;
+    // runCall commits touched state, so roll it back to keep calls side-effect free.
+    await vm.stateManager.checkpoint();
+    const run = await vm.evm.runCall({
+      caller: createAddressFromString(from),
+      to: createAddressFromString(contract.address),
+      data: hexToBytes(data),
+      gasLimit: GAS_LIMIT
+    }).finally(() => vm.stateManager.revert());
+    const error = run.execResult.exceptionError;
+    return {
+      ...base,
+      kind: 'call',
+      success: !error,
+      gasUsed: run.execResult.executionGasUsed,
+      returnValue: error ? undefined : decodeReturn(run.execResult.returnValue),
+      events: [],
+      stateChanges: [],
+      error: error ? decodeRevert(contract.abi, bytesToHex(run.execResult.returnValue) as Hex) : undefined
+    };
+  }
+
+  const { result: run, stateChanges } = await sendTransaction(chain, from, contract.address, data, value);
+  const error = run.execResult.exceptionError;
+  return {
+    ...base,
+    kind: 'transaction',
+    success: !error,
+    gasUsed: run.totalGasSpent,
+    returnValue: error ? undefined : decodeReturn(run.execResult.returnValue),
+    events: error ? [] : decodeLogs(run.receipt.logs, new Map([[contract.address.toLowerCase(), contract.abi]])),
+    stateChanges: error ? [] : stateChanges,
+    error: error ? decodeRevert(contract.abi, bytesToHex(run.execResult.returnValue) as Hex) : undefined
+  };
+};
@@ -0,0 +1,185 @@
+import { FileEntry } from '../types';
+
+export const findFile = (files: FileEntry[], id: string): FileEntry | undefined => {
+  for (const f of files) {
+    if (f.id === id) return f;
+    if (f.children) {
+      const found = findFile(f.children, id);
+      if (found) return found;
+    }
+  }
+  return undefined;
+};
+
+// Flat id -> entry lookup over the whole tree. Build it once per tree (e.g. in a useMemo)
+// instead of calling findFile repeatedly.
+export const indexFiles = (files: FileEntry[], index = new Map<string, FileEntry>()) => {
+  files.forEach(f => {
+    index.set(f.id, f);
+    if (f.children) indexFiles(f.children, index);
+  });
+  return index;
+};
+
+export const updateFile = (files: FileEntry[], id: string, patch: Partial<FileEntry>): FileEntry[] =>
+  files.map(f => {
+    if (f.id === id) return { ...f, ...patch };
+    if (f.children) return { ...f, children: updateFile(f.children, id, patch) };
+    return f;
+  });
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  sol: 'solidity',
+  yml: 'yaml',
+  yaml: 'yaml',
+  md: 'markdown',
+  markdown: 'markdown',
+  ts: 'typescript',
+  tsx: 'typescript',
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  json: 'json',
+  html: 'html',
+  css: 'css',
+  sh: 'shell',
+  toml: 'toml',
+  txt: 'plaintext'
+};
+
+export const inferLanguage = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  const ext = dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+  return LANGUAGE_BY_EXTENSION[ext] || 'plaintext';
+};
+
+export const createId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+// Children of `parentId`, or the workspace root when it is null.
+export const childrenOf = (files: FileEntry[], parentId: string | null) =>
+  parentId ? findFile(files, parentId)?.children || [] : files;
+
+export const findParent = (files: FileEntry[], id: string, parent: FileEntry | null = null): FileEntry | null | undefined => {
+  for (const f of files) {
+    if (f.id === id) return parent;
+    if (f.children) {
+      const found = findParent(f.children, id, f);
+      if (found !== undefined) return found;
+    }
+  }
+  return undefined;
+};
+
+export const collectIds = (entry: FileEntry): string[] =>
+  [entry.id, ...(entry.children || []).flatMap(collectIds)];
+
+export const validateName = (files: FileEntry[], parentId: string | null, name: string, excludeId?: string) => {
+  const trimmed = name.trim();
+  if (!trimmed) return 'A name must be provided.';
+  if (/[\\/]/.test(trimmed)) return 'Names cannot contain slashes.';
+  if (trimmed === '.' || trimmed === '..') return `"${trimmed}" is not a valid name.`;
+  const clash = childrenOf(files, parentId).some(f => f.id !== excludeId && f.name.toLowerCase() === trimmed.toLowerCase());
+  return clash ? `"${trimmed}" already exists at this location.` : null;
+};
+
+// Appends " (n)" before the extension until the name is free in the target folder.
+export const uniqueName = (files: FileEntry[], parentId: string | null, name: string) => {
+  if (!validateName(files, parentId, name)) return name;
+  const dot = name.lastIndexOf('.');
+  const [base, ext] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+  let n = 1;
+  while (validateName(files, parentId, `${base} (${n})${ext}`)) n++;
+  return `${base} (${n})${ext}`;
+};
+
+const sortEntries = (entries: FileEntry[]) =>
+  [...entries].sort((a, b) => a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'folder' ? -1 : 1);
+
+export const insertEntry = (files: FileEntry[], parentId: string | null, entry: FileEntry): FileEntry[] => {
+  if (!parentId) return sortEntries([...files, entry]);
+  return files.map(f => {
+    if (f.id === parentId) return { ...f, children: sortEntries([...(f.children || []), entry]) };
+    if (f.children) return { ...f, children: insertEntry(f.children, parentId, entry) };
+    return f;
+  });
+};
+
+export const removeEntry = (files: FileEntry[], id: string): FileEntry[] =>
+  files
+    .filter(f => f.id !== id)
+    .map(f => f.children ? { ...f, children: removeEntry(f.children, id) } : f);
+
+export const renameEntry = (files: FileEntry[], id: string, name: string): FileEntry[] => {
+  const entry = findFile(files, id);
+  if (!entry) return files;
+  const patch: Partial<FileEntry> = entry.type === 'file' ? { name, language: inferLanguage(name) } : { name };
+  const parent = findParent(files, id) || null;
+  const renamed = updateFile(files, id, patch);
+  // Re-insert so the parent stays sorted under the new name.
+  return insertEntry(removeEntry(renamed, id), parent?.id || null, findFile(renamed, id)!);
+};
+
+export const isDescendantOf = (files: FileEntry[], id: string, ancestorId: string) => {
+  const ancestor = findFile(files, ancestorId);
+  return !!ancestor && collectIds(ancestor).includes(id);
+};
+
+export const moveEntry = (files: FileEntry[], id: string, targetFolderId: string | null): FileEntry[] => {
+  const entry = findFile(files, id);
+  if (!entry) return files;
+  return insertEntry(removeEntry(files, id), targetFolderId, entry);
+};
+
+// Every file in the tree paired with its slash-separated workspace path.
+export const flattenFiles = (files: FileEntry[], prefix = ''): { path: string; file: FileEntry }[] =>
+  files.flatMap(f => f.type === 'folder'
+    ? flattenFiles(f.children || [], `${prefix}${f.name}/`)
+    : [{ path: `${prefix}${f.name}`, file: f }]);
+
+export const pathOf = (files: FileEntry[], id: string, prefix = ''): string | undefined => {
+  for (const f of files) {
+    if (f.id === id) return `${prefix}${f.name}`;
+    if (f.children) {
+      const found = pathOf(f.children, id, `${prefix}${f.name}/`);
+      if (found) return found;
+    }
+  }
+  return undefined;
+};
+
+// The entry at a chain of names from the workspace root, matched exactly.
+export const findByPath = (files: FileEntry[], segments: string[]): FileEntry | undefined => {
+  let entries = files;
+  let found: FileEntry | undefined;
+  for (const name of segments) {
+    found = entries.find(f => f.name === name);
+    if (!found) return undefined;
+    entries = found.children || [];
+  }
+  return found;
+};
+
+// Walks (and creates where missing) a chain of folders, returning the innermost folder id.
+export const ensureFolderPath = (files: FileEntry[], segments: string[], parentId: string | null = null): { files: FileEntry[]; folderId: string | null } => {
+  let next = files;
+  let currentId = parentId;
+  for (const name of segments) {
+    const existing = childrenOf(next, currentId).find(f => f.name === name && f.type === 'folder');
+    if (existing) {
+      currentId = existing.id;
+      continue;
+    }
+    const folder: FileEntry = { id: createId('dir'), name, type: 'folder', children: [] };
+    next = insertEntry(next, currentId, folder);
+    currentId = folder.id;
+  }
+  return { files: next, folderId: currentId };
+};
+
+// Overwrites the content of `name` inside the folder, creating the file if needed.
+export const upsertFile = (files: FileEntry[], parentId: string | null, name: string, content: string): FileEntry[] => {
+  const existing = childrenOf(files, parentId).find(f => f.name === name && f.type === 'file');
+  if (existing) return updateFile(files, existing.id, { content });
+  return insertEntry(files, parentId, { id: createId('file'), name, type: 'file', language: inferLanguage(name), content });
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { CompiledContract } from '../types';
+import { buildGasReport, compareGasReports, DEPLOYMENT, gasOf } from './gasReport';
+
+const contract = (name: string, sourcePath = `src/${name}.sol`): CompiledContract => ({
+  name, sourcePath, abi: [], bytecode: '0x', deployedBytecode: '0x60806040'
+});
+
+const counter = contract('Counter');
+const token = contract('Token');
+
+describe('buildGasReport', () => {
+  it('summarises the samples of each function and the deployment', () => {
+    const report = buildGasReport([
+      { contract: counter, fn: DEPLOYMENT, gas: 100000 },
+      { contract: counter, fn: 'increment()', gas: 30 },
+      { contract: counter, fn: 'increment()', gas: 10 },
+      { contract: counter, fn: 'increment()', gas: 20 },
+      { contract: counter, fn: 'increment()', gas: 45 }
+    ]);
+    expect(report.contracts).toEqual([{
+      name: 'Counter',
+      sourcePath: 'src/Counter.sol',
+      deployment: { gas: 100000, size: 4 },
+      functions: { 'increment()': { calls: 4, min: 10, avg: 26, median: 25, max: 45 } }
+    }]);
+    expect(gasOf(report, counter, 'increment()')).toBe(26);
+    expect(gasOf(report, counter, DEPLOYMENT)).toBe(100000);
+    expect(gasOf(report, token, 'increment()')).toBeUndefined();
+  });
+});
+
+describe('compareGasReports', () => {
+  const baseline = buildGasReport([
+    { contract: counter, fn: DEPLOYMENT, gas: 100000 },
+    { contract: counter, fn: 'increment()', gas: 100 },
+    { contract: counter, fn: 'reset()', gas: 50 },
+    { contract: token, fn: 'transfer(address,uint256)', gas: 500 },
+    { contract: token, fn: 'burn(uint256)', gas: 300 }
+  ]);
+
+  it('lists what moved in both reports, largest increase first', () => {
+    const report = buildGasReport([
+      { contract: counter, fn: DEPLOYMENT, gas: 90000 },
+      { contract: counter, fn: 'increment()', gas: 120 },
+      { contract: counter, fn: 'reset()', gas: 50 },
+      { contract: token, fn: 'transfer(address,uint256)', gas: 700 }
+    ]);
+    expect(compareGasReports(report, baseline)).toEqual([
+      { contract: 'Token', fn: 'transfer(address,uint256)', before: 500, after: 700 },
+      { contract: 'Counter', fn: 'increment()', before: 100, after: 120 },
+      { contract: 'Counter', fn: DEPLOYMENT, before: 100000, after: 90000 }
+    ]);
+  });
+
+  it('ignores functions and contracts the baseline did not measure', () => {
+    const report = buildGasReport([
+      { contract: counter, fn: 'decrement()', gas: 80 },
+      { contract: contract('Counter', 'src/v2/Counter.sol'), fn: 'increment()', gas: 999 }
+    ]);
+    expect(compareGasReports(report, baseline)).toEqual([]);
+  });
+});
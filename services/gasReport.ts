@@ -0,0 +1,108 @@
+import { Hex, toFunctionSelector } from 'viem';
+import { CompiledContract, GasReport, GasReportContract, GasStats } from '../types';
+import { abiFunctions, signatureOf } from './abi';
+import { CallFrame } from './evmSandbox';
+import { createId } from './fileTree';
+
+// Reports older than this many runs are dropped.
+const MAX_GAS_REPORTS = 10;
+export const DEPLOYMENT = 'deployment';
+
+export interface GasSample {
+  contract: CompiledContract;
+  // A function signature, or DEPLOYMENT.
+  fn: string;
+  gas: number;
+}
+
+const key = (contract: Pick<CompiledContract, 'sourcePath' | 'name'>) => `${contract.sourcePath}:${contract.name}`;
+
+// Turns the call frames of one chain into samples for the given contracts. Contracts are
+// recognised when they are created (by their init code), so each chain needs its own sampler.
+export const gasSampler = (contracts: CompiledContract[], onSample: (sample: GasSample) => void) => {
+  const byAddress = new Map<string, CompiledContract>();
+  // Longest bytecode first, so a contract whose code happens to extend another's wins.
+  const byInitCode = contracts
+    .filter(c => c.bytecode.length > 2)
+    .sort((a, b) => b.bytecode.length - a.bytecode.length);
+  const selectors = new Map(contracts.map(c => [key(c), new Map(abiFunctions(c.abi).map(fn => [toFunctionSelector(fn), signatureOf(fn)]))]));
+
+  const functionOf = (contract: CompiledContract, data: Hex) => {
+    if (data.length < 10) return contract.abi.some(item => item.type === 'receive') && data === '0x' ? 'receive()' : 'fallback()';
+    return selectors.get(key(contract))!.get(data.slice(0, 10).toLowerCase() as Hex) || 'fallback()';
+  };
+
+  return (frame: CallFrame) => {
+    if (frame.kind === 'create') {
+      const data = frame.data.toLowerCase();
+      const contract = byInitCode.find(c => data.startsWith(c.bytecode.toLowerCase()));
+      if (!contract) return;
+      if (frame.address) byAddress.set(frame.address.toLowerCase(), contract);
+      onSample({ contract, fn: DEPLOYMENT, gas: Number(frame.gasUsed) });
+      return;
+    }
+    const contract = frame.address && byAddress.get(frame.address.toLowerCase());
+    if (contract) onSample({ contract, fn: functionOf(contract, frame.data), gas: Number(frame.gasUsed) });
+  };
+};
+
+const stats = (values: number[]): GasStats => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return {
+    calls: sorted.length,
+    min: sorted[0],
+    avg: Math.round(sorted.reduce((sum, v) => sum + v, 0) / sorted.length),
+    median: sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2),
+    max: sorted[sorted.length - 1]
+  };
+};
+
+export const buildGasReport = (samples: GasSample[]): GasReport => {
+  const byContract = new Map<string, { contract: CompiledContract; byFn: Map<string, number[]> }>();
+  samples.forEach(({ contract, fn, gas }) => {
+    const entry = byContract.get(key(contract)) || { contract, byFn: new Map<string, number[]>() };
+    entry.byFn.set(fn, [...(entry.byFn.get(fn) || []), gas]);
+    byContract.set(key(contract), entry);
+  });
+  const contracts = [...byContract.values()].map(({ contract, byFn }): GasReportContract => {
+    const deployments = byFn.get(DEPLOYMENT);
+    byFn.delete(DEPLOYMENT);
+    return {
+      name: contract.name,
+      sourcePath: contract.sourcePath,
+      deployment: deployments && { gas: stats(deployments).avg, size: (contract.deployedBytecode.length - 2) / 2 },
+      functions: Object.fromEntries([...byFn.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([fn, values]) => [fn, stats(values)]))
+    };
+  });
+  return {
+    id: createId('gas'),
+    createdAt: Date.now(),
+    contracts: contracts.sort((a, b) => a.name.localeCompare(b.name) || a.sourcePath.localeCompare(b.sourcePath))
+  };
+};
+
+export const addGasReport = (reports: GasReport[], report: GasReport) => [...reports, report].slice(-MAX_GAS_REPORTS);
+
+// Average gas of a function (or the deployment) in `report`, if it was measured there.
+export const gasOf = (report: GasReport | undefined, contract: Pick<GasReportContract, 'name' | 'sourcePath'>, fn: string) => {
+  const entry = report?.contracts.find(c => c.name === contract.name && c.sourcePath === contract.sourcePath);
+  return fn === DEPLOYMENT ? entry?.deployment?.gas : entry?.functions[fn]?.avg;
+};
+
+export interface GasChange {
+  contract: string;
+  fn: string;
+  before: number;
+  after: number;
+}
+
+// Everything measured in both reports whose average cost moved, largest increase first.
+export const compareGasReports = (report: GasReport, baseline: GasReport): GasChange[] =>
+  report.contracts.flatMap(contract =>
+    [DEPLOYMENT, ...Object.keys(contract.functions)].flatMap(fn => {
+      const before = gasOf(baseline, contract, fn);
+      const after = gasOf(report, contract, fn);
+      return before !== undefined && after !== undefined && before !== after ? [{ contract: contract.name, fn, before, after }] : [];
+    }))
+    .sort((a, b) => (b.after - b.before) - (a.after - a.before));
@@ -1,48 +1,81 @@
-
 import { GoogleGenAI, Type } from "@google/genai";
+import { AISettings } from '../types';
+import { AIProvider, analysisPrompt, parseAnalysis, systemPrompt } from './aiProvider';
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export const createGeminiProvider = (settings: AISettings): AIProvider => {
+  // The client is only built on first use, so a missing key surfaces as a request error
+  // instead of breaking the app at load time.
+  let ai: GoogleGenAI | null = null;
+  const client = () => {
+    const apiKey = settings.apiKey || process.env.API_KEY;
+    if (!apiKey) throw new Error('Gemini API key is not set');
+    return ai ||= new GoogleGenAI({ apiKey });
+  };
 
-export const analyzeCode = async (code: string, language: string) => {
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: `Analyze the following ${language} code for errors, security vulnerabilities (especially if it's Solidity), and suggest optimizations:\n\n${code}`,
-    config: {
-      temperature: 0.7,
-      topP: 0.95,
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          summary: { type: Type.STRING },
-          issues: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                severity: { type: Type.STRING, description: "Low, Medium, High" },
-                message: { type: Type.STRING },
-                line: { type: Type.NUMBER }
+  return {
+    analyzeCode: async (code, language, path) => {
+      const response = await client().models.generateContent({
+        model: settings.model,
+        contents: analysisPrompt(code, language, path),
+        config: {
+          temperature: settings.temperature,
+          topP: 0.95,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              summary: { type: Type.STRING },
+              issues: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    severity: { type: Type.STRING, description: "Low, Medium, High" },
+                    message: { type: Type.STRING },
+                    line: { type: Type.NUMBER }
+                  }
+                }
+              },
+              optimization: { type: Type.STRING },
+              edits: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    path: { type: Type.STRING },
+                    content: { type: Type.STRING }
+                  }
+                }
               }
-            }
-          },
-          optimization: { type: Type.STRING }
-        },
-        required: ["summary", "issues", "optimization"]
-      }
-    }
-  });
+            },
+            required: ["summary", "issues", "optimization"]
+          }
+        }
+      });
+      return parseAnalysis(response.text || '');
+    },
 
-  return JSON.parse(response.text);
-};
-
-export const chatWithAI = async (message: string, context: string) => {
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: `Context: ${context}\n\nUser: ${message}`,
-    config: {
-      systemInstruction: "You are Soluf-th AI, a senior developer assistant. You specialize in VS Code, GitHub Actions, and Solidity smart contracts. Keep answers concise and code-focused.",
+    chat: async (turns, context, { onToken, signal } = {}) => {
+      const stream = await client().models.generateContentStream({
+        model: settings.model,
+        contents: turns.map(turn => ({ role: turn.role === 'assistant' ? 'model' : 'user', parts: [{ text: turn.text }] })),
+        config: {
+          systemInstruction: systemPrompt(context),
+          temperature: settings.temperature,
+          abortSignal: signal
+        }
+      });
+      let text = '';
+      try {
+        for await (const chunk of stream) {
+          const token = chunk.text || '';
+          text += token;
+          if (token) onToken?.(token);
+        }
+      } catch (err) {
+        if (!signal?.aborted) throw err;
+      }
+      return text;
     }
-  });
-  return response.text;
+  };
 };
@@ -0,0 +1,240 @@
+export type TokenType =
+  | 'plain' | 'keyword' | 'type' | 'builtin' | 'string' | 'number' | 'comment'
+  | 'function' | 'property' | 'constant' | 'operator' | 'punctuation'
+  | 'heading' | 'emphasis' | 'link' | 'code';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+// Tokenizers are line-based: each line starts in the state the previous line ended in,
+// which is what lets an edit re-tokenize only the lines it can actually affect.
+type LineState = string;
+type LineTokenizer = (line: string, state: LineState) => { tokens: Token[]; state: LineState };
+
+export interface HighlightCache {
+  language: string;
+  lines: string[];
+  // startStates[i] is the state line i was tokenized from; startStates[lines.length] is the final state.
+  startStates: LineState[];
+  tokens: Token[][];
+}
+
+const words = (list: string) => new Set(list.split(' '));
+
+const push = (tokens: Token[], type: TokenType, text: string) => {
+  if (!text) return;
+  const last = tokens[tokens.length - 1];
+  if (last && last.type === type) last.text += text;
+  else tokens.push({ type, text });
+};
+
+interface CLikeGrammar {
+  keywords: Set<string>;
+  types: Set<string>;
+  builtins: Set<string>;
+  constants: Set<string>;
+  typePattern?: RegExp;
+  templateStrings?: boolean;
+  propertyKeys?: boolean;
+}
+
+const cLike = (grammar: CLikeGrammar): LineTokenizer => (line, state) => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readUntil = (close: string, type: TokenType, openState: LineState): LineState => {
+    const end = line.indexOf(close, i);
+    if (end === -1) {
+      push(tokens, type, line.slice(i));
+      i = line.length;
+      return openState;
+    }
+    push(tokens, type, line.slice(i, end + close.length));
+    i = end + close.length;
+    return 'normal';
+  };
+
+  if (state === 'comment') state = readUntil('*/', 'comment', 'comment');
+  else if (state === 'template') state = readUntil('`', 'string', 'template');
+
+  while (i < line.length) {
+    const rest = line.slice(i);
+    const ch = line[i];
+    let m: RegExpMatchArray | null;
+
+    if (rest.startsWith('//')) {
+      push(tokens, 'comment', rest);
+      break;
+    } else if (rest.startsWith('/*')) {
+      i += 2;
+      push(tokens, 'comment', '/*');
+      state = readUntil('*/', 'comment', 'comment');
+    } else if (ch === '`' && grammar.templateStrings) {
+      i += 1;
+      push(tokens, 'string', '`');
+      state = readUntil('`', 'string', 'template');
+    } else if ((m = rest.match(/^(["'])(?:\\.|(?!\1).)*\1?/))) {
+      const isKey = grammar.propertyKeys && /^\s*:/.test(rest.slice(m[0].length));
+      push(tokens, isKey ? 'property' : 'string', m[0]);
+      i += m[0].length;
+    } else if ((m = rest.match(/^(?:0x[\da-fA-F_]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?)\b/))) {
+      push(tokens, 'number', m[0]);
+      i += m[0].length;
+    } else if ((m = rest.match(/^[A-Za-z_$][\w$]*/))) {
+      const word = m[0];
+      const after = line.slice(i + word.length);
+      let type: TokenType = 'plain';
+      if (grammar.keywords.has(word)) type = 'keyword';
+      else if (grammar.constants.has(word)) type = 'constant';
+      else if (grammar.types.has(word) || grammar.typePattern?.test(word)) type = 'type';
+      else if (grammar.builtins.has(word)) type = 'builtin';
+      else if (/^\s*\(/.test(after)) type = 'function';
+      else if (/^[A-Z]/.test(word)) type = 'type';
+      push(tokens, type, word);
+      i += word.length;
+    } else if ((m = rest.match(/^[+\-*/%=!<>&|^~?:]+/))) {
+      push(tokens, 'operator', m[0]);
+      i += m[0].length;
+    } else if (/[{}()[\];,.]/.test(ch)) {
+      push(tokens, 'punctuation', ch);
+      i += 1;
+    } else {
+      push(tokens, 'plain', ch);
+      i += 1;
+    }
+  }
+  return { tokens, state };
+};
+
+const solidity = cLike({
+  keywords: words('pragma solidity import as from contract interface library abstract is using for function modifier event error struct enum constructor fallback receive returns return if else while do for break continue try catch emit revert new delete public private internal external pure view payable constant immutable virtual override memory storage calldata indexed anonymous unchecked assembly let type'),
+  types: words('address bool string bytes byte uint int mapping fixed ufixed'),
+  typePattern: /^(?:u?int|bytes)\d+$/,
+  builtins: words('msg block tx abi this super require assert keccak256 sha256 ecrecover selfdestruct gasleft blockhash'),
+  constants: words('true false wei gwei ether seconds minutes hours days weeks')
+});
+
+const typescript = cLike({
+  keywords: words('import export from as default const let var function return if else for while do switch case break continue new delete typeof instanceof in of class extends implements interface type enum namespace declare readonly public private protected static abstract async await yield try catch finally throw keyof satisfies'),
+  types: words('string number boolean any unknown never void object symbol bigint'),
+  builtins: words('console window document Promise Array Object JSON Math Date Map Set Error this super process require module'),
+  constants: words('true false null undefined NaN Infinity'),
+  templateStrings: true
+});
+
+const json = cLike({
+  keywords: new Set(),
+  types: new Set(),
+  builtins: new Set(),
+  constants: words('true false null'),
+  propertyKeys: true
+});
+
+const yaml: LineTokenizer = (line) => {
+  if (/^\s*#/.test(line)) return { tokens: [{ type: 'comment', text: line }], state: 'normal' };
+  const tokens: Token[] = [];
+  const m = line.match(/^(\s*)(-\s+)?(?:([\w.\-/"' ]+?)(:)(?=\s|$))?(.*)$/)!;
+  const [, indent, dash, key, colon, value] = m;
+  if (indent) push(tokens, 'plain', indent);
+  if (dash) push(tokens, 'punctuation', dash);
+  if (key) {
+    push(tokens, 'property', key);
+    push(tokens, 'punctuation', colon);
+  }
+  const comment = value.search(/(^|\s)#/);
+  const body = comment === -1 ? value : value.slice(0, comment);
+  const trimmed = body.trim();
+  if (trimmed) {
+    const lead = body.slice(0, body.indexOf(trimmed));
+    if (lead) push(tokens, 'plain', lead);
+    let type: TokenType = 'plain';
+    if (/^["'].*["']$/.test(trimmed)) type = 'string';
+    else if (/^-?\d+(\.\d+)?$/.test(trimmed)) type = 'number';
+    else if (/^(true|false|yes|no|on|off|null|~)$/i.test(trimmed)) type = 'constant';
+    else if (/^[|>][+-]?$/.test(trimmed) || /^[[{]/.test(trimmed)) type = 'punctuation';
+    else if (/^\$\{\{.*\}\}$/.test(trimmed)) type = 'builtin';
+    push(tokens, type, trimmed);
+    push(tokens, 'plain', body.slice(lead.length + trimmed.length));
+  } else if (body) {
+    push(tokens, 'plain', body);
+  }
+  if (comment !== -1) push(tokens, 'comment', value.slice(comment));
+  return { tokens, state: 'normal' };
+};
+
+const markdown: LineTokenizer = (line, state) => {
+  if (/^\s*(```|~~~)/.test(line)) {
+    return { tokens: [{ type: 'code', text: line }], state: state === 'fence' ? 'normal' : 'fence' };
+  }
+  if (state === 'fence') return { tokens: [{ type: 'code', text: line }], state };
+  if (/^#{1,6}\s/.test(line)) return { tokens: [{ type: 'heading', text: line }], state };
+
+  const tokens: Token[] = [];
+  const lead = line.match(/^(\s*(?:[-*+]|\d+\.|>)\s+)/);
+  if (lead) push(tokens, 'punctuation', lead[1]);
+  const inline = /(`[^`]+`)|(\*\*[^*]+\*\*|__[^_]+__)|(\*[^*]+\*|_[^_]+_)|(\[[^\]]*\]\([^)]*\))/g;
+  const text = line.slice(lead ? lead[1].length : 0);
+  let last = 0;
+  let m: RegExpExecArray | null;
+  while ((m = inline.exec(text))) {
+    if (m.index > last) push(tokens, 'plain', text.slice(last, m.index));
+    push(tokens, m[1] ? 'code' : m[4] ? 'link' : 'emphasis', m[0]);
+    last = m.index + m[0].length;
+  }
+  if (last < text.length) push(tokens, 'plain', text.slice(last));
+  return { tokens, state };
+};
+
+const plain: LineTokenizer = (line, state) => ({ tokens: line ? [{ type: 'plain', text: line }] : [], state });
+
+const TOKENIZERS: Record<string, LineTokenizer> = {
+  solidity,
+  typescript,
+  javascript: typescript,
+  json,
+  yaml,
+  markdown
+};
+
+export const tokenizerFor = (language?: string) => TOKENIZERS[language || ''] || plain;
+
+// Re-tokenizes only the edited region: unchanged leading lines are reused outright, and
+// tokenizing stops as soon as an unchanged trailing line is reached in the same start state
+// it had before, since everything after it would tokenize identically.
+export const updateHighlight = (cache: HighlightCache | undefined, language: string, content: string): HighlightCache => {
+  const lines = content.split('\n');
+  const tokenize = tokenizerFor(language);
+  const previous = cache && cache.language === language ? cache : undefined;
+
+  let prefix = 0;
+  if (previous) {
+    const max = Math.min(lines.length, previous.lines.length);
+    while (prefix < max && lines[prefix] === previous.lines[prefix]) prefix++;
+  }
+
+  let suffix = 0;
+  if (previous) {
+    const max = Math.min(lines.length, previous.lines.length) - prefix;
+    while (suffix < max && lines[lines.length - 1 - suffix] === previous.lines[previous.lines.length - 1 - suffix]) suffix++;
+  }
+
+  const startStates: LineState[] = previous ? previous.startStates.slice(0, prefix + 1) : ['normal'];
+  const tokens: Token[][] = previous ? previous.tokens.slice(0, prefix) : [];
+  const shift = previous ? previous.lines.length - lines.length : 0;
+
+  for (let i = prefix; i < lines.length; i++) {
+    const old = i + shift;
+    if (previous && i >= lines.length - suffix && previous.startStates[old] === startStates[i]) {
+      tokens.push(...previous.tokens.slice(old));
+      startStates.push(...previous.startStates.slice(old + 1));
+      break;
+    }
+    const result = tokenize(lines[i], startStates[i]);
+    tokens.push(result.tokens);
+    startStates.push(result.state);
+  }
+
+  return { language, lines, startStates, tokens };
+};
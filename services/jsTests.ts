@@ -0,0 +1,316 @@
+// Runs JS/TS test files in a Web Worker with a small describe/it API, in the spirit of Mocha.
+// Like the Node REPL worker it has no network; contract deployments and calls are forwarded
+// to the test chain on the main thread as requests the runner answers.
+
+import type { Abi, AbiFunction } from 'viem';
+import type { WorkerScope } from './nodeRepl';
+
+export interface JsTestRef {
+  suite: string;
+  name: string;
+}
+
+export interface TxOptions {
+  from?: string;
+  value?: bigint | number | string;
+}
+
+export interface JsTestHost {
+  accounts: () => Promise<string[]>;
+  deploy: (params: { name: string; args: unknown[]; options: TxOptions }) => Promise<DeployedTestContract>;
+  call: (params: { address: string; name: string; args: unknown[]; options: TxOptions }) => Promise<unknown>;
+  // Bracket each test, so the chain can be snapshotted before it and rolled back after.
+  start: (test: JsTestRef) => Promise<void>;
+  end: (test: JsTestRef & { error?: string }) => Promise<void>;
+  log: (text: string, error: boolean) => void;
+}
+
+export interface DeployedTestContract {
+  address: string;
+  abi: Abi;
+}
+
+// What the worker sends with each sandbox request, and what the answer resolves to there.
+interface RpcParams {
+  accounts: undefined;
+  deploy: Parameters<JsTestHost['deploy']>[0];
+  call: Parameters<JsTestHost['call']>[0];
+  start: JsTestRef;
+  end: Parameters<JsTestHost['end']>[0];
+}
+
+interface RpcResults {
+  accounts: string[];
+  deploy: DeployedTestContract;
+  call: unknown;
+  start: void;
+  end: void;
+}
+
+type RpcMethod = keyof RpcParams;
+
+type RpcRequest = { [M in RpcMethod]: { type: 'rpc'; id: number; method: M; params: RpcParams[M] } }[RpcMethod];
+
+type WorkerMessage =
+  | RpcRequest
+  | { type: 'log'; text: string; error: boolean }
+  | { type: 'collected'; tests: JsTestRef[] }
+  | { type: 'done'; error?: string };
+
+export type JsTestRequest = { mode: 'collect' } | { mode: 'run'; only: JsTestRef[] };
+
+// Sent to the worker: the file to run, then the answers to its sandbox requests.
+type RunnerMessage =
+  | { type: 'run'; code: string; request: JsTestRequest }
+  | { type: 'rpc-result'; id: number; value?: unknown; error?: string };
+
+interface Assert {
+  (condition: unknown, message?: string): void;
+  ok: (condition: unknown, message?: string) => void;
+  equal: (actual: unknown, expected: unknown, message?: string) => void;
+  notEqual: (actual: unknown, expected: unknown, message?: string) => void;
+  deepEqual: (actual: unknown, expected: unknown, message?: string) => void;
+  rejects: (target: Promise<unknown> | (() => Promise<unknown>), match?: string | RegExp, message?: string) => Promise<void>;
+}
+
+// A deployed contract as tests see it: one async method per ABI function name.
+interface ContractProxy {
+  address: string;
+  abi: Abi;
+  [name: string]: unknown;
+}
+
+// Runs inside the worker; it is serialised with toString(), so it must not reference anything outside itself.
+const workerMain = () => {
+  const scope = self as unknown as WorkerScope;
+  ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'indexedDB', 'caches'].forEach(name => {
+    try {
+      delete scope[name];
+    } catch {}
+    scope[name] = undefined;
+  });
+  const TEST_TIMEOUT_MS = 10_000;
+
+  let nextId = 0;
+  const pending = new Map<number, { resolve: (v: unknown) => void; reject: (e: Error) => void }>();
+  const rpc = <M extends RpcMethod>(method: M, params: RpcParams[M]) => new Promise<RpcResults[M]>((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve: resolve as (v: unknown) => void, reject });
+    scope.postMessage({ type: 'rpc', id, method, params });
+  });
+
+  const show = (value: unknown): string => {
+    if (typeof value === 'bigint') return `${value}n`;
+    if (typeof value === 'string') return JSON.stringify(value);
+    try {
+      return JSON.stringify(value, (_, v) => typeof v === 'bigint' ? `${v}n` : v) ?? String(value);
+    } catch {
+      return String(value);
+    }
+  };
+  const emit = (error: boolean) => (...args: unknown[]) =>
+    scope.postMessage({ type: 'log', text: args.map(a => typeof a === 'string' ? a : show(a)).join(' '), error });
+  scope.console = { log: emit(false), info: emit(false), debug: emit(false), warn: emit(true), error: emit(true) };
+
+  type Fn = () => unknown;
+  interface Suite { name: string; parent: Suite | null; tests: { name: string; fn: Fn }[]; suites: Suite[]; before: Fn[]; beforeEach: Fn[]; afterEach: Fn[]; after: Fn[] }
+  const newSuite = (name: string, parent: Suite | null): Suite => ({ name, parent, tests: [], suites: [], before: [], beforeEach: [], afterEach: [], after: [] });
+  const root = newSuite('', null);
+  let current = root;
+
+  const describe = (name: string, fn: Fn) => {
+    const suite = newSuite(name, current);
+    current.suites.push(suite);
+    const parent = current;
+    current = suite;
+    try {
+      fn();
+    } finally {
+      current = parent;
+    }
+  };
+  const it = (name: string, fn: Fn) => { current.tests.push({ name, fn }); };
+  const hook = (kind: 'before' | 'beforeEach' | 'afterEach' | 'after') => (fn: Fn) => { current[kind].push(fn); };
+
+  const suitePath = (suite: Suite): string => suite.parent ? [suitePath(suite.parent), suite.name].filter(Boolean).join(' › ') : '';
+  const ancestry = (suite: Suite): Suite[] => suite.parent ? [...ancestry(suite.parent), suite] : [suite];
+
+  const fail = (message: string) => { throw new Error(message); };
+  const ok = (condition: unknown, message?: string) => { if (!condition) fail(message || 'Assertion failed'); };
+  const assert: Assert = Object.assign(ok, {
+    ok,
+    equal: (actual: unknown, expected: unknown, message?: string) => { if (actual !== expected) fail(message || `Expected ${show(expected)}, got ${show(actual)}`); },
+    notEqual: (actual: unknown, expected: unknown, message?: string) => { if (actual === expected) fail(message || `Expected a value other than ${show(expected)}`); },
+    deepEqual: (actual: unknown, expected: unknown, message?: string) => { if (show(actual) !== show(expected)) fail(message || `Expected ${show(expected)}, got ${show(actual)}`); },
+    // Passes when the promise (or function) rejects, optionally with a message matching `match`.
+    rejects: async (target: Promise<unknown> | (() => Promise<unknown>), match?: string | RegExp, message?: string) => {
+      try {
+        await (typeof target === 'function' ? target() : target);
+      } catch (err) {
+        const text = err instanceof Error ? err.message : String(err);
+        if (match && !(typeof match === 'string' ? text.includes(match) : match.test(text))) fail(`Expected a rejection matching ${match}, got "${text}"`);
+        return;
+      }
+      fail(message || 'Expected a rejection, but it resolved');
+    }
+  });
+  // Ordering works across numbers and bigints alike, which is what balances and counters come as.
+  const expect = (actual: unknown) => ({
+    toBe: (expected: unknown) => assert.equal(actual, expected),
+    toEqual: (expected: unknown) => assert.deepEqual(actual, expected),
+    toBeTruthy: () => assert(actual, `Expected ${show(actual)} to be truthy`),
+    toBeFalsy: () => assert(!actual, `Expected ${show(actual)} to be falsy`),
+    toBeGreaterThan: (n: number | bigint) => assert((actual as number | bigint) > n, `Expected ${show(actual)} to be greater than ${show(n)}`),
+    toBeLessThan: (n: number | bigint) => assert((actual as number | bigint) < n, `Expected ${show(actual)} to be less than ${show(n)}`),
+    rejects: { toThrow: (match?: string | RegExp) => assert.rejects(actual as Promise<unknown>, match) }
+  });
+
+  // A trailing plain object beyond the function's parameters is taken as { from, value }.
+  const splitOptions = (args: unknown[], arity: number) => {
+    const last = args[args.length - 1];
+    return args.length > arity && last && typeof last === 'object' && !Array.isArray(last)
+      ? { args: args.slice(0, -1), options: last }
+      : { args, options: {} };
+  };
+  const contract = ({ address, abi }: DeployedTestContract) => {
+    const fns = abi.filter((item): item is AbiFunction => item.type === 'function');
+    const proxy: ContractProxy = { address, abi };
+    new Set(fns.map(f => f.name)).forEach(name => {
+      const arity = Math.max(...fns.filter(f => f.name === name).map(f => f.inputs.length));
+      proxy[name] = (...raw: unknown[]) => rpc('call', { address, name, ...splitOptions(raw, arity) });
+    });
+    return proxy;
+  };
+  const sandbox = {
+    accounts: () => rpc('accounts', undefined),
+    deploy: async (name: string, args: unknown[] = [], options: TxOptions = {}) => contract(await rpc('deploy', { name, args, options }))
+  };
+
+  const withTimeout = (value: unknown) => Promise.race([
+    Promise.resolve(value),
+    new Promise((_, reject) => setTimeout(() => reject(new Error(`Timed out after ${TEST_TIMEOUT_MS} ms`)), TEST_TIMEOUT_MS))
+  ]);
+  const message = (err: unknown) => err instanceof Error ? err.message : String(err);
+
+  const collect = (suite: Suite): { suite: string; name: string }[] => [
+    ...suite.tests.map(t => ({ suite: suitePath(suite), name: t.name })),
+    ...suite.suites.flatMap(collect)
+  ];
+
+  const runSuite = async (suite: Suite, selected: Set<string>): Promise<void> => {
+    const path = suitePath(suite);
+    const tests = suite.tests.filter(t => selected.has(`${path}\n${t.name}`));
+    if (!tests.length && !collect(suite).some(t => selected.has(`${t.suite}\n${t.name}`))) return;
+    let setupError: string | undefined;
+    for (const fn of suite.before) {
+      try {
+        await withTimeout(fn());
+      } catch (err) {
+        setupError = `before() hook failed: ${message(err)}`;
+        break;
+      }
+    }
+    const chain = ancestry(suite);
+    for (const test of tests) {
+      await rpc('start', { suite: path, name: test.name });
+      let error = setupError;
+      if (!error) {
+        try {
+          for (const s of chain) for (const fn of s.beforeEach) await withTimeout(fn());
+          await withTimeout(test.fn());
+          for (const s of [...chain].reverse()) for (const fn of s.afterEach) await withTimeout(fn());
+        } catch (err) {
+          error = message(err);
+        }
+      }
+      await rpc('end', { suite: path, name: test.name, error });
+    }
+    for (const child of suite.suites) await runSuite(child, selected);
+    for (const fn of suite.after) await Promise.resolve(fn()).catch(() => {});
+  };
+
+  scope.onmessage = async (e: MessageEvent<RunnerMessage>) => {
+    const msg = e.data;
+    if (msg.type === 'rpc-result') {
+      const waiter = pending.get(msg.id);
+      pending.delete(msg.id);
+      if (msg.error !== undefined) waiter?.reject(new Error(msg.error));
+      else waiter?.resolve(msg.value);
+      return;
+    }
+    try {
+      const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor;
+      await new AsyncFunction('describe', 'it', 'test', 'before', 'beforeEach', 'afterEach', 'after', 'assert', 'expect', 'sandbox', msg.code)(
+        describe, it, it, hook('before'), hook('beforeEach'), hook('afterEach'), hook('after'), assert, expect, sandbox
+      );
+      if (msg.request.mode === 'collect') {
+        scope.postMessage({ type: 'collected', tests: collect(root) });
+      } else {
+        await runSuite(root, new Set(msg.request.only.map(t => `${t.suite}\n${t.name}`)));
+      }
+      scope.postMessage({ type: 'done' });
+    } catch (err) {
+      scope.postMessage({ type: 'done', error: err instanceof Error ? `${err.name}: ${err.message}` : String(err) });
+    }
+  };
+};
+
+// Sucrase is only loaded when a .ts test file is run. Types are stripped, not checked.
+const toJavaScript = async (path: string, code: string) => {
+  if (!path.endsWith('.ts')) return code;
+  const { transform } = await import('sucrase');
+  return transform(code, { transforms: ['typescript'], filePath: path }).code;
+};
+
+// Collecting only runs the file's top level (describe bodies register tests); running also
+// executes the tests listed in `only`.
+export const runJsTestFile = async (path: string, source: string, request: JsTestRequest, host: Partial<JsTestHost>, signal?: AbortSignal) => {
+  const code = await toJavaScript(path, source);
+  return new Promise<JsTestRef[]>((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([`(${workerMain.toString()})()`], { type: 'text/javascript' }));
+    const worker = new Worker(url);
+    URL.revokeObjectURL(url);
+    let collected: JsTestRef[] = [];
+
+    const finish = (error?: Error) => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+      error ? reject(error) : resolve(collected);
+    };
+    const onAbort = () => finish(new Error('Test run aborted'));
+    if (signal?.aborted) return onAbort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const send = (message: RunnerMessage) => worker.postMessage(message);
+    // Each request goes to the matching host method; ones the host leaves out reject in the test.
+    const answer = (msg: RpcRequest): Promise<unknown> | undefined => {
+      switch (msg.method) {
+        case 'accounts': return host.accounts?.();
+        case 'deploy': return host.deploy?.(msg.params);
+        case 'call': return host.call?.(msg.params);
+        case 'start': return host.start?.(msg.params);
+        case 'end': return host.end?.(msg.params);
+      }
+    };
+
+    worker.onerror = e => finish(new Error(e.message || 'Test worker crashed'));
+    worker.onmessage = (e: MessageEvent<WorkerMessage>) => {
+      const msg = e.data;
+      switch (msg.type) {
+        case 'log': host.log?.(msg.text, msg.error); break;
+        case 'collected': collected = msg.tests; break;
+        case 'done': finish(msg.error ? new Error(msg.error) : undefined); break;
+        case 'rpc': {
+          Promise.resolve()
+            .then(() => answer(msg) ?? Promise.reject(new Error(`sandbox.${msg.method} is not available here`)))
+            .then(
+              value => send({ type: 'rpc-result', id: msg.id, value }),
+              err => send({ type: 'rpc-result', id: msg.id, error: err instanceof Error ? err.message : String(err) })
+            );
+          break;
+        }
+      }
+    };
+    send({ type: 'run', code, request });
+  });
+};
@@ -0,0 +1,98 @@
+// A small Markdown subset for chat replies: fenced code, headings, lists, quotes, rules and
+// paragraphs, with inline code, bold, italic and links. Parsing tolerates a reply that is still
+// streaming in, so an unterminated fence is simply a code block that runs to the end.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'bold'; text: string }
+  | { type: 'italic'; text: string }
+  | { type: 'link'; text: string; href: string };
+
+export type MarkdownBlock =
+  // `file` comes from a `path=...` in the fence info string and marks a proposed file edit.
+  | { type: 'code'; language: string; code: string; complete: boolean; file?: string }
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'quote'; text: string }
+  | { type: 'rule' }
+  | { type: 'paragraph'; text: string };
+
+const FENCE = /^\s*(```|~~~)\s*([\w+#.-]*)(.*)$/;
+const FENCE_PATH = /(?:^|\s)path=("[^"]+"|\S+)/;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+
+const startsBlock = (line: string) =>
+  FENCE.test(line) || HEADING.test(line) || BULLET.test(line) || NUMBERED.test(line) || QUOTE.test(line) || RULE.test(line);
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const lines = source.split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    const fence = line.match(FENCE);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) body.push(lines[i++]);
+      const file = fence[3].match(FENCE_PATH)?.[1].replace(/^"|"$/g, '');
+      blocks.push({ type: 'code', language: fence[2].toLowerCase(), code: body.join('\n'), complete: i < lines.length, ...(file ? { file } : {}) });
+      i++;
+      continue;
+    }
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2].replace(/\s+#+\s*$/, '') });
+      i++;
+      continue;
+    }
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+    const itemPattern = BULLET.test(line) ? BULLET : NUMBERED.test(line) ? NUMBERED : null;
+    if (itemPattern) {
+      const items: string[] = [];
+      while (i < lines.length && itemPattern.test(lines[i])) items.push(lines[i++].match(itemPattern)![1]);
+      blocks.push({ type: 'list', ordered: itemPattern === NUMBERED, items });
+      continue;
+    }
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) quoted.push(lines[i++].match(QUOTE)![1]);
+      blocks.push({ type: 'quote', text: quoted.join(' ') });
+      continue;
+    }
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])) paragraph.push(lines[i++].trim());
+    blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+  }
+  return blocks;
+};
+
+const INLINE = /`([^`]+)`|\*\*([^*]+)\*\*|__([^_]+)__|\*([^*\s][^*]*)\*|_([^_\s][^_]*)_|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const parts: MarkdownInline[] = [];
+  let last = 0;
+  for (const m of text.matchAll(INLINE)) {
+    if (m.index! > last) parts.push({ type: 'text', text: text.slice(last, m.index) });
+    if (m[1] !== undefined) parts.push({ type: 'code', text: m[1] });
+    else if (m[2] !== undefined || m[3] !== undefined) parts.push({ type: 'bold', text: m[2] ?? m[3] });
+    else if (m[4] !== undefined || m[5] !== undefined) parts.push({ type: 'italic', text: m[4] ?? m[5] });
+    else parts.push({ type: 'link', text: m[6], href: m[7] });
+    last = m.index! + m[0].length;
+  }
+  if (last < text.length) parts.push({ type: 'text', text: text.slice(last) });
+  return parts;
+};
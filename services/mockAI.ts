@@ -0,0 +1,52 @@
+import { AISettings, CodeAnalysisIssue } from '../types';
+import { AIProvider } from './aiProvider';
+
+const MOCK_TOKEN_DELAY_MS = 15;
+
+// Line-level patterns the mock reports, so analysis output is stable for a given input.
+// Patterns with a `fix` also produce a proposed edit that rewrites the matching lines.
+const PATTERNS: { test: RegExp, severity: CodeAnalysisIssue['severity'], message: string, fix?: (line: string) => string }[] = [
+  { test: /\btx\.origin\b/, severity: 'High', message: 'tx.origin used for authorization; use msg.sender instead.', fix: line => line.replace(/\btx\.origin\b/g, 'msg.sender') },
+  { test: /\bselfdestruct\s*\(/, severity: 'High', message: 'selfdestruct is deprecated and can remove the contract unexpectedly.' },
+  { test: /\.call\s*[{(]/, severity: 'Medium', message: 'Low-level call; check the return value and guard against reentrancy.' },
+  { test: /\bdelegatecall\s*\(/, severity: 'High', message: 'delegatecall executes foreign code in this contract\'s storage context.' },
+  { test: /\bblock\.timestamp\b/, severity: 'Low', message: 'block.timestamp can be influenced slightly by validators.' },
+  { test: /pragma solidity\s*\^/, severity: 'Low', message: 'Floating pragma; pin the compiler version for deployments.', fix: line => line.replace(/\^\s*/, '') }
+];
+
+// A deterministic, offline provider: no network, no randomness, so tests and demos are
+// reproducible. Model and temperature settings are ignored.
+export const createMockProvider = (_settings: AISettings): AIProvider => ({
+  analyzeCode: async (code, language, path) => {
+    const lines = code.split('\n');
+    const issues = lines.flatMap((text, i) => PATTERNS
+      .filter(p => p.test.test(text))
+      .map(p => ({ severity: p.severity, message: p.message, line: i + 1 })));
+    const fixed = lines.map(text => PATTERNS.reduce((line, p) => p.fix && p.test.test(line) ? p.fix(line) : line, text)).join('\n');
+    return {
+      summary: `Mock analysis of ${lines.length} line(s) of ${language}: ${issues.length ? `${issues.length} pattern(s) matched` : 'no known risky patterns'}.`,
+      issues,
+      optimization: 'Mock provider: configure a real model in AI settings for optimization advice.',
+      edits: fixed === code ? [] : [{ path, content: fixed }]
+    };
+  },
+
+  chat: async (turns, context, { onToken, signal } = {}) => {
+    const question = turns[turns.length - 1]?.text.trim() || '';
+    const lines = context ? context.split('\n') : [];
+    const reply = [
+      `[mock] You asked: "${question}".`,
+      `This is turn ${turns.filter(t => t.role === 'user').length} of the conversation.`,
+      lines.length ? `The active file has ${lines.length} line(s), starting with:\n\n\`\`\`\n${lines.slice(0, 3).join('\n')}\n\`\`\`` : 'No file context.'
+    ].join(' ');
+    // Streams word by word so the UI's streaming path is exercised too.
+    let text = '';
+    for (const token of reply.match(/\S+\s*/g) || []) {
+      if (signal?.aborted) break;
+      await new Promise(r => setTimeout(r, MOCK_TOKEN_DELAY_MS));
+      text += token;
+      onToken?.(token);
+    }
+    return text;
+  }
+});
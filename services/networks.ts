@@ -0,0 +1,202 @@
+import {
+  BaseError, Chain, createPublicClient, createWalletClient, custom, decodeEventLog, decodeFunctionResult, defineChain,
+  EIP1193Provider, encodeDeployData, encodeFunctionData, http, RawContractError
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { AccountSource, CompiledContract, DecodedEvent, Hex, InteractionResult, NetworkAccount, NetworkConfig, NetworkContract } from '../types';
+import { AbiFunction, decodeRevert } from './abi';
+import { testAccountKeys } from './evmSandbox';
+import { createId } from './fileTree';
+
+// anvil and hardhat both listen here and fund the test mnemonic's accounts.
+export const LOCAL_NETWORK: NetworkConfig = { id: 'local', name: 'Local node', rpcUrl: 'http://127.0.0.1:8545', chainId: 31337 };
+export const DEFAULT_NETWORKS = [LOCAL_NETWORK];
+// Chains where the public test keys are expected; anywhere else they are a mistake.
+const LOCAL_CHAIN_IDS = [31337, 1337];
+
+export const isLocalChain = (chainId: number) => LOCAL_CHAIN_IDS.includes(chainId);
+
+export const testKeyWarning = (chainId: number) =>
+  `Chain ${chainId} is not a local node, and the local test keys are public. Anyone can take funds sent to these accounts.`;
+
+// The chain `source` would sign for when that means public test keys on a real network; null when it is fine.
+export const testKeyRisk = async (network: NetworkConfig, source: AccountSource) => {
+  if (source !== 'local') return null;
+  const { chainId } = await probeNetwork(network);
+  return isLocalChain(chainId) ? null : chainId;
+};
+
+const injectedProvider = () => (window as { ethereum?: EIP1193Provider }).ethereum;
+
+export const hasInjectedWallet = () => !!injectedProvider();
+
+const publicClient = (network: NetworkConfig) => createPublicClient({ transport: http(network.rpcUrl) });
+
+const chainFor = (network: NetworkConfig, chainId: number): Chain => defineChain({
+  id: chainId,
+  name: network.name,
+  nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+  rpcUrls: { default: { http: [network.rpcUrl] } },
+  blockExplorers: network.explorerUrl ? { default: { name: 'Explorer', url: network.explorerUrl } } : undefined
+});
+
+export const validateNetwork = (name: string, rpcUrl: string, chainId: string) => {
+  if (!name.trim()) return 'Name is required';
+  try {
+    if (!/^https?:$/.test(new URL(rpcUrl).protocol)) return 'RPC URL must start with http:// or https://';
+  } catch {
+    return 'RPC URL is not a valid URL';
+  }
+  if (chainId.trim() && !/^\d+$/.test(chainId.trim())) return 'Chain ID must be a number';
+  return null;
+};
+
+export interface NetworkStatus {
+  chainId: number;
+  blockNumber: bigint;
+}
+
+export const probeNetwork = async (network: NetworkConfig): Promise<NetworkStatus> => {
+  const client = publicClient(network);
+  const [chainId, blockNumber] = await Promise.all([client.getChainId(), client.getBlockNumber()]);
+  if (network.chainId !== undefined && chainId !== network.chainId) {
+    throw new Error(`${network.name} reports chain ${chainId}, but it is configured for chain ${network.chainId}`);
+  }
+  return { chainId, blockNumber };
+};
+
+const injectedAccounts = async () => {
+  const provider = injectedProvider();
+  if (!provider) throw new Error('No browser wallet found. Install one that injects window.ethereum, or use the local test keys.');
+  return createWalletClient({ transport: custom(provider) }).requestAddresses();
+};
+
+export const listAccounts = async (network: NetworkConfig, source: AccountSource): Promise<NetworkAccount[]> => {
+  const addresses = source === 'local' ? testAccountKeys().map(k => k.address) : await injectedAccounts();
+  const client = publicClient(network);
+  return Promise.all(addresses.map(async address => ({ address, balance: await client.getBalance({ address }) })));
+};
+
+// Everything the confirmation dialog shows, computed against the live network.
+export interface DeploymentPlan {
+  network: NetworkConfig;
+  chainId: number;
+  source: AccountSource;
+  from: Hex;
+  contract: CompiledContract;
+  args: unknown[];
+  value: bigint;
+  gas: bigint;
+  gasPrice: bigint;
+}
+
+export const planDeployment = async (
+  network: NetworkConfig, source: AccountSource, from: Hex, contract: CompiledContract, args: unknown[], value = 0n
+): Promise<DeploymentPlan> => {
+  const data = encodeDeployData({ abi: contract.abi, bytecode: contract.bytecode as Hex, args });
+  const { chainId } = await probeNetwork(network);
+  const client = publicClient(network);
+  const [gas, gasPrice] = await Promise.all([client.estimateGas({ account: from, data, value }), client.getGasPrice()]);
+  return { network, chainId, source, from, contract, args, value, gas, gasPrice };
+};
+
+// Local keys sign in the page; an injected wallet signs (and asks its user) itself, after
+// being switched to the target chain if it is elsewhere.
+const walletFor = async (network: NetworkConfig, chain: Chain, source: AccountSource, from: Hex) => {
+  if (source === 'local') {
+    const key = testAccountKeys().find(k => k.address.toLowerCase() === from.toLowerCase());
+    if (!key) throw new Error(`${from} is not one of the local test accounts`);
+    return createWalletClient({ account: privateKeyToAccount(key.privateKey), chain, transport: http(network.rpcUrl) });
+  }
+  const provider = injectedProvider();
+  if (!provider) throw new Error('The browser wallet is no longer available');
+  const wallet = createWalletClient({ account: from, chain, transport: custom(provider) });
+  if ((await wallet.getChainId()) !== chain.id) await wallet.switchChain({ id: chain.id });
+  return wallet;
+};
+
+export const sendDeployment = async (plan: DeploymentPlan) => {
+  const chain = chainFor(plan.network, plan.chainId);
+  const wallet = await walletFor(plan.network, chain, plan.source, plan.from);
+  const hash = await wallet.deployContract({ abi: plan.contract.abi, bytecode: plan.contract.bytecode as Hex, args: plan.args, value: plan.value, gas: plan.gas, chain });
+  const receipt = await publicClient(plan.network).waitForTransactionReceipt({ hash });
+  if (receipt.status !== 'success' || !receipt.contractAddress) throw new Error(`Deployment transaction ${hash} reverted`);
+  return { hash, address: receipt.contractAddress as Hex, gasUsed: receipt.gasUsed };
+};
+
+// The account commands sign with when none is given: the first test key, or the wallet's selected account.
+export const defaultSender = async (source: AccountSource): Promise<Hex> =>
+  source === 'local' ? testAccountKeys()[0].address : (await injectedAccounts())[0];
+
+// Revert data returned by a failed eth_call or gas estimate is decoded against the contract's
+// ABI; anything else (an unreachable node, a rejected signature) is reported as viem words it.
+const describeFailure = (abi: any[], err: unknown) => {
+  if (!(err instanceof BaseError)) return err instanceof Error ? err.message : String(err);
+  const raw = err.walk(e => e instanceof RawContractError) as RawContractError | null;
+  const data = typeof raw?.data === 'object' ? raw.data.data : raw?.data;
+  return data ? decodeRevert(abi, data) : err.shortMessage;
+};
+
+const decodeReceiptLogs = (logs: { address: Hex; topics: Hex[]; data: Hex }[], contract: NetworkContract): DecodedEvent[] =>
+  logs.map(log => {
+    const emitter = log.address.toLowerCase() as Hex;
+    try {
+      const { eventName, args } = decodeEventLog({
+        abi: emitter === contract.address.toLowerCase() ? contract.abi : [],
+        topics: log.topics as [Hex, ...Hex[]],
+        data: log.data
+      }) as { eventName?: string; args?: unknown };
+      return { name: eventName || 'anonymous', address: emitter, args: (args ?? {}) as DecodedEvent['args'] };
+    } catch {
+      return { name: 'UnknownEvent', address: emitter, args: { topics: log.topics, data: log.data } };
+    }
+  });
+
+// An eth_call against the latest block; nothing is signed, so `from` only matters to contracts that read msg.sender.
+export const callFunction = async (
+  network: NetworkConfig, contract: NetworkContract, fn: AbiFunction, args: unknown[], from?: Hex
+): Promise<InteractionResult> => {
+  const base = { id: createId('call'), kind: 'call' as const, contractName: contract.name, functionName: fn.name, from, to: contract.address, events: [], timestamp: Date.now() };
+  try {
+    const data = encodeFunctionData({ abi: [fn], functionName: fn.name, args });
+    const { data: returned = '0x' } = await publicClient(network).call({ account: from, to: contract.address, data });
+    const returnValue = fn.outputs.length ? decodeFunctionResult({ abi: [fn], functionName: fn.name, data: returned }) : undefined;
+    return { ...base, success: true, returnValue };
+  } catch (err) {
+    return { ...base, success: false, error: describeFailure(contract.abi, err) };
+  }
+};
+
+// Signs and sends a transaction, then waits for its receipt and decodes the contract's events.
+// A receipt carries no revert reason, so only failures caught while estimating gas have one.
+// Local test keys only sign for another chain when the caller passes `allowTestKey`.
+export const sendFunction = async (
+  network: NetworkConfig, source: AccountSource, from: Hex, contract: NetworkContract, fn: AbiFunction, args: unknown[], value = 0n,
+  { allowTestKey = false }: { allowTestKey?: boolean } = {}
+): Promise<InteractionResult> => {
+  const base = { id: createId('tx'), kind: 'transaction' as const, contractName: contract.name, functionName: fn.name, from, to: contract.address, timestamp: Date.now() };
+  try {
+    const { chainId } = await probeNetwork(network);
+    if (source === 'local' && !isLocalChain(chainId) && !allowTestKey) {
+      throw new Error(`${testKeyWarning(chainId)} Not sent: signing there with a test key has to be confirmed.`);
+    }
+    const chain = chainFor(network, chainId);
+    const wallet = await walletFor(network, chain, source, from);
+    const hash = await wallet.writeContract({ address: contract.address, abi: [fn], functionName: fn.name, args, value, account: wallet.account, chain });
+    const receipt = await publicClient(network).waitForTransactionReceipt({ hash });
+    const success = receipt.status === 'success';
+    return {
+      ...base,
+      success,
+      transactionHash: hash,
+      gasUsed: receipt.gasUsed,
+      events: success ? decodeReceiptLogs(receipt.logs, contract) : [],
+      error: success ? undefined : `Transaction ${hash} reverted`
+    };
+  } catch (err) {
+    return { ...base, success: false, events: [], error: describeFailure(contract.abi, err) };
+  }
+};
+
+export const explorerLink = (network: NetworkConfig, kind: 'address' | 'tx', value: string) =>
+  network.explorerUrl ? `${network.explorerUrl.replace(/\/+$/, '')}/${kind}/${value}` : undefined;
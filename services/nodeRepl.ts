@@ -0,0 +1,175 @@
+// A JavaScript REPL backed by a dedicated Web Worker per terminal. The worker has no DOM and
+// its network APIs are removed, so evaluated code can only compute and print. Top-level
+// `let`/`const` bindings persist between inputs, as in Node's REPL.
+
+export type ReplMessage =
+  | { id: number; type: 'log'; text: string; error?: boolean }
+  | { id: number; type: 'result'; text: string }
+  | { id: number; type: 'error'; text: string };
+
+// The worker's global scope as its entry points use it: messages out, messages in, and
+// globals to remove or replace. The DOM typings have no worker scope.
+export type WorkerScope = {
+  postMessage: (message: unknown) => void;
+  onmessage: ((e: MessageEvent) => void) | null;
+  [name: string]: unknown;
+};
+
+export interface ReplOutput {
+  print: (line: string) => void;
+  printError: (line: string) => void;
+}
+
+// Runs inside the worker; it is serialised with toString(), so it must not reference anything outside itself.
+const workerMain = () => {
+  const scope = self as unknown as WorkerScope;
+  ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'indexedDB', 'caches'].forEach(name => {
+    try {
+      delete scope[name];
+    } catch {}
+    scope[name] = undefined;
+  });
+
+  const inspect = (value: unknown, depth = 0, seen = new Set<unknown>()): string => {
+    if (typeof value === 'string') return depth ? `'${value.replace(/'/g, "\\'")}'` : `'${value}'`;
+    if (typeof value === 'bigint') return `${value}n`;
+    if (typeof value === 'symbol') return value.toString();
+    if (typeof value === 'function') return value.toString().startsWith('class') ? `[class ${value.name || '(anonymous)'}]` : `[Function: ${value.name || '(anonymous)'}]`;
+    if (value === null || typeof value !== 'object') return String(value);
+    if (seen.has(value)) return '[Circular *1]';
+    if (value instanceof Error) return value.stack || `${value.name}: ${value.message}`;
+    if (value instanceof Date) return value.toISOString();
+    if (value instanceof RegExp) return value.toString();
+    if (value instanceof Promise) return 'Promise { <pending> }';
+    if (depth > 2) return Array.isArray(value) ? '[Array]' : '[Object]';
+    seen.add(value);
+    const inner = (v: unknown) => inspect(v, depth + 1, seen);
+    let body: string[];
+    let open = '{';
+    let close = '}';
+    let prefix = '';
+    if (Array.isArray(value)) {
+      body = value.map(inner);
+      open = '[';
+      close = ']';
+    } else if (value instanceof Map) {
+      prefix = `Map(${value.size}) `;
+      body = [...value].map(([k, v]) => `${inner(k)} => ${inner(v)}`);
+    } else if (value instanceof Set) {
+      prefix = `Set(${value.size}) `;
+      body = [...value].map(inner);
+    } else {
+      const name = value.constructor && value.constructor !== Object ? `${value.constructor.name} ` : '';
+      prefix = name;
+      body = Object.entries(value).map(([k, v]) => `${/^[A-Za-z_$][\w$]*$/.test(k) ? k : `'${k}'`}: ${inner(v)}`);
+    }
+    seen.delete(value);
+    if (!body.length) return `${prefix}${open}${close}`;
+    return `${prefix}${open} ${body.join(', ')} ${close}`;
+  };
+
+  const format = (args: unknown[]) => args.map(a => typeof a === 'string' ? a : inspect(a)).join(' ');
+
+  let current = 0;
+  const emit = (error: boolean) => (...args: unknown[]) => {
+    scope.postMessage({ id: current, type: 'log', text: format(args), error });
+  };
+  scope.console = { log: emit(false), info: emit(false), debug: emit(false), warn: emit(true), error: emit(true) };
+
+  // Indirect eval runs in the global scope; rewriting top-level let/const to var keeps the
+  // bindings around for the next input.
+  const globalEval = eval;
+  const attempt = (...sources: string[]) => {
+    for (const source of sources) {
+      try {
+        return globalEval(source);
+      } catch (err) {
+        if (!(err instanceof SyntaxError) || source === sources[sources.length - 1]) throw err;
+      }
+    }
+  };
+  const evaluate = async (code: string) => {
+    if (!/\bawait\b/.test(code)) return attempt(code.replace(/(^|;)(\s*)(?:let|const)\s/g, '$1$2var '));
+    // Top-level await needs an async wrapper: declarations become sloppy-mode global
+    // assignments so they outlive it, and the last statement is returned as the result.
+    const body = code.replace(/(^|;)\s*(?:let|const|var)\s+([A-Za-z_$][\w$]*)\s*=/g, '$1 $2 =');
+    const statements = body.split(';');
+    const last = statements.pop()!.trim();
+    return await attempt(
+      `(async () => (${body}))()`,
+      `(async () => { ${statements.join(';')}; return (${last || 'undefined'}) })()`,
+      `(async () => { ${body} })()`
+    );
+  };
+
+  scope.onmessage = async (e: MessageEvent<{ id: number; code: string }>) => {
+    current = e.data.id;
+    try {
+      const value = await evaluate(e.data.code);
+      scope.postMessage({ id: current, type: 'result', text: inspect(value) });
+    } catch (err) {
+      const text = err instanceof Error ? `Uncaught ${err.name}: ${err.message}` : `Uncaught ${inspect(err)}`;
+      scope.postMessage({ id: current, type: 'error', text });
+    }
+  };
+};
+
+export const REPL_HELP = [
+  '.clear    Reset the REPL context',
+  '.help     Print this help message',
+  '',
+  'Press Ctrl+C to abort the current expression (the context is reset).'
+];
+
+export const createRepl = () => {
+  let worker: Worker | null = null;
+  let nextId = 1;
+
+  const start = () => {
+    const url = URL.createObjectURL(new Blob([`(${workerMain.toString()})()`], { type: 'text/javascript' }));
+    worker = new Worker(url);
+    URL.revokeObjectURL(url);
+    return worker;
+  };
+
+  const reset = () => {
+    worker?.terminate();
+    worker = null;
+  };
+
+  // Resolves with true when the input evaluated without throwing. Aborting terminates the worker,
+  // which is the only way to stop a runaway loop; the next input starts a fresh context.
+  const evaluate = (code: string, out: ReplOutput, signal?: AbortSignal) => new Promise<boolean>(resolve => {
+    const w = worker || start();
+    const id = nextId++;
+    const finish = (ok: boolean) => {
+      w.removeEventListener('message', onMessage);
+      signal?.removeEventListener('abort', onAbort);
+      resolve(ok);
+    };
+    const onMessage = (e: MessageEvent<ReplMessage>) => {
+      const msg = e.data;
+      if (msg.id !== id) return;
+      if (msg.type === 'log') (msg.error ? out.printError : out.print)(msg.text);
+      else if (msg.type === 'result') {
+        if (msg.text !== 'undefined') out.print(msg.text);
+        finish(true);
+      } else {
+        out.printError(msg.text);
+        finish(false);
+      }
+    };
+    const onAbort = () => {
+      reset();
+      finish(false);
+    };
+    if (signal?.aborted) return onAbort();
+    w.addEventListener('message', onMessage);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    w.postMessage({ id, code });
+  });
+
+  return { evaluate, reset };
+};
+
+export type Repl = ReturnType<typeof createRepl>;
@@ -0,0 +1,63 @@
+import { AISettings } from '../types';
+import { AIProvider, ANALYSIS_FORMAT, analysisPrompt, parseAnalysis, SYSTEM_INSTRUCTION, systemPrompt } from './aiProvider';
+
+type Message = { role: 'system' | 'user' | 'assistant', content: string };
+
+// Talks to any server implementing the OpenAI chat completions API: OpenAI itself, or a local
+// model server such as Ollama, LM Studio or llama.cpp.
+export const createOpenAIProvider = (settings: AISettings): AIProvider => {
+  const request = async (messages: Message[], extra: Record<string, unknown>, signal?: AbortSignal) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) headers.Authorization = `Bearer ${settings.apiKey}`;
+    const response = await fetch(`${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({ model: settings.model, temperature: settings.temperature, messages, ...extra })
+    });
+    if (!response.ok) {
+      throw new Error(`AI request failed: ${response.status} ${(await response.text()).slice(0, 200) || response.statusText}`);
+    }
+    return response;
+  };
+
+  return {
+    analyzeCode: async (code, language, path) => {
+      const response = await request([
+        { role: 'system', content: `${SYSTEM_INSTRUCTION} ${ANALYSIS_FORMAT}` },
+        { role: 'user', content: analysisPrompt(code, language, path) }
+      ], { response_format: { type: 'json_object' } });
+      const data = await response.json();
+      return parseAnalysis(String(data?.choices?.[0]?.message?.content ?? ''));
+    },
+
+    // Replies stream as server-sent events, one `data: {json}` line per delta.
+    chat: async (turns, context, { onToken, signal } = {}) => {
+      let text = '';
+      try {
+        const response = await request([
+          { role: 'system', content: systemPrompt(context) },
+          ...turns.map(turn => ({ role: turn.role, content: turn.text }))
+        ], { stream: true }, signal);
+        const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+        let pending = '';
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          const lines = (pending + value).split('\n');
+          pending = lines.pop()!;
+          for (const line of lines) {
+            const data = line.replace(/^data:\s*/, '').trim();
+            if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+            const token = JSON.parse(data)?.choices?.[0]?.delta?.content || '';
+            text += token;
+            if (token) onToken?.(token);
+          }
+        }
+      } catch (err) {
+        if (!signal?.aborted) throw err;
+      }
+      return text;
+    }
+  };
+};
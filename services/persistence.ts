@@ -0,0 +1,155 @@
+import { AISettings, ProjectState, WorkflowRunRecord, WorkspaceRecord, WorkspaceSummary } from '../types';
+import { createLogEntry, DEFAULT_SCROLLBACK } from './terminalLog';
+import { DEFAULT_NETWORKS, LOCAL_NETWORK } from './networks';
+import { DEFAULT_TERMINAL_HEIGHT } from './terminalProfiles';
+
+const DB_NAME = 'soluf-th-hub';
+const DB_VERSION = 1;
+const WORKSPACES = 'workspaces';
+const META = 'meta';
+const ACTIVE_WORKSPACE_KEY = 'activeWorkspaceId';
+const AI_SETTINGS_KEY = 'aiSettings';
+
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+// Bump whenever the persisted ProjectState shape changes, and register a migration
+// that upgrades records saved under the previous version.
+export const SCHEMA_VERSION = 11;
+
+const MIGRATIONS: Record<number, (state: any) => any> = {
+  // v2: workflows keep a run history instead of a single flat log.
+  2: state => ({
+    ...state,
+    workflows: (state.workflows || []).map(({ logs, ...workflow }: any) => ({ ...workflow, history: [] }))
+  }),
+  // v3: each terminal has its own working directory.
+  3: state => ({
+    ...state,
+    terminals: (state.terminals || []).map((terminal: any) => ({ ...terminal, cwd: '' }))
+  }),
+  // v4: terminals remember the commands typed into them.
+  4: state => ({
+    ...state,
+    terminals: (state.terminals || []).map((terminal: any) => ({ ...terminal, history: [] }))
+  }),
+  // v5: terminal logs are structured entries; echoed commands keep their prompt separately.
+  5: state => ({
+    ...state,
+    terminals: (state.terminals || []).map((terminal: any) => ({
+      ...terminal,
+      logs: (terminal.logs || []).map((line: string) => {
+        const command = line.match(/^(soluf-th@dev:~[^$]*\$) ?(.*)$/);
+        return command
+          ? createLogEntry(command[2], { source: 'command', prompt: command[1] })
+          : createLogEntry(line);
+      })
+    }))
+  }),
+  // v6: each terminal has its own scrollback limit.
+  6: state => ({
+    ...state,
+    terminals: (state.terminals || []).map((terminal: any) => ({ ...terminal, scrollback: DEFAULT_SCROLLBACK }))
+  }),
+  // v7: terminals have a profile, and the panel remembers its split and height.
+  7: state => ({
+    ...state,
+    terminals: (state.terminals || []).map((terminal: any) => ({ ...terminal, profile: terminal.name === 'node' ? 'node' : 'shell' })),
+    terminalPanes: [state.activeTerminalId],
+    terminalHeight: DEFAULT_TERMINAL_HEIGHT
+  }),
+  // v8: AI chat threads are saved with the workspace.
+  8: state => ({ ...state, chatThreads: [], activeChatThreadId: null }),
+  // v9: AI audit reports are kept per file instead of only the last one in memory.
+  9: state => ({ ...state, auditReports: [] }),
+  // v10: gas reports from test runs are kept so the next run can be compared against them.
+  10: state => ({ ...state, gasReports: [] }),
+  // v11: JSON-RPC networks for deployments, starting with a local node signed for by its test keys.
+  11: state => ({ ...state, networks: DEFAULT_NETWORKS, activeNetworkId: LOCAL_NETWORK.id, accountSource: 'local' })
+};
+
+const interruptRun = (run: WorkflowRunRecord): WorkflowRunRecord => {
+  if (run.status !== 'running') return run;
+  const stop = <T extends { status: string; finishedAt?: number }>(item: T): T =>
+    item.status === 'running' || item.status === 'pending' ? { ...item, status: 'cancelled', finishedAt: item.finishedAt ?? Date.now() } : item;
+  return { ...stop(run), jobs: run.jobs.map(job => ({ ...stop(job), steps: job.steps.map(stop) })) };
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(WORKSPACES)) db.createObjectStore(WORKSPACES, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(META)) db.createObjectStore(META);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(store: string, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = fn(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const migrateState = (schemaVersion: number, state: any, defaults: ProjectState): ProjectState => {
+  let migrated = state;
+  for (let v = schemaVersion + 1; v <= SCHEMA_VERSION; v++) {
+    if (MIGRATIONS[v]) migrated = MIGRATIONS[v](migrated);
+  }
+  // Fields added since the record was written fall back to defaults; anything
+  // that was mid-flight when the page unloaded is reset.
+  const merged: ProjectState = { ...defaults, ...migrated };
+  return {
+    ...merged,
+    workflows: merged.workflows.map(w => w.status === 'running' ? { ...w, status: 'cancelled', history: w.history.map(interruptRun) } : w)
+  };
+};
+
+export const listWorkspaces = async (): Promise<WorkspaceSummary[]> => {
+  const records = await run<WorkspaceRecord[]>(WORKSPACES, 'readonly', s => s.getAll());
+  return records
+    .map(({ id, name, updatedAt }) => ({ id, name, updatedAt }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const loadWorkspace = async (id: string, defaults: ProjectState): Promise<ProjectState | null> => {
+  const record = await run<WorkspaceRecord | undefined>(WORKSPACES, 'readonly', s => s.get(id));
+  return record ? migrateState(record.schemaVersion || 0, record.state, defaults) : null;
+};
+
+export const saveWorkspace = async (id: string, name: string, state: ProjectState) => {
+  const record: WorkspaceRecord = { id, name, updatedAt: Date.now(), schemaVersion: SCHEMA_VERSION, state };
+  await run(WORKSPACES, 'readwrite', s => s.put(record));
+};
+
+export const deleteWorkspace = async (id: string) => {
+  await run(WORKSPACES, 'readwrite', s => s.delete(id));
+};
+
+export const getActiveWorkspaceId = async () =>
+  (await run<string | undefined>(META, 'readonly', s => s.get(ACTIVE_WORKSPACE_KEY))) || DEFAULT_WORKSPACE_ID;
+
+export const setActiveWorkspaceId = async (id: string) => {
+  await run(META, 'readwrite', s => s.put(id, ACTIVE_WORKSPACE_KEY));
+};
+
+// AI settings belong to the browser rather than a workspace, so API keys never end up in an export.
+export const loadAISettings = async (defaults: AISettings): Promise<AISettings> =>
+  ({ ...defaults, ...(await run<Partial<AISettings> | undefined>(META, 'readonly', s => s.get(AI_SETTINGS_KEY))) });
+
+export const saveAISettings = async (settings: AISettings) => {
+  await run(META, 'readwrite', s => s.put(settings, AI_SETTINGS_KEY));
+};
@@ -0,0 +1,720 @@
+import { decodeAbiParameters, Hex, isAddress, isHex, parseUnits, toFunctionSelector } from 'viem';
+import { FileEntry, NetworkContract, TerminalTheme } from '../types';
+import { AbiFunction, formatValue, parseArgs, parseSignature } from './abi';
+import { Command, CommandContext, getCommand, listCommands, parseCommandLine, PipelineStage, ShellHost, ShellSession } from './commands';
+import { childrenOf, collectIds, createId, ensureFolderPath, findByPath, inferLanguage, insertEntry, isDescendantOf, moveEntry, removeEntry, renameEntry, upsertFile, validateName } from './fileTree';
+import { callFunction, defaultSender, sendFunction, testKeyRisk, testKeyWarning } from './networks';
+
+export const displayPath = (cwd: string) => cwd ? `~/${cwd}` : '~';
+
+export const promptFor = (cwd: string) => `soluf-th@dev:${displayPath(cwd)}$`;
+
+// Resolves `input` against the working directory; `~` and `/` both mean the workspace root.
+export const resolvePath = (cwd: string, input: string): string[] => {
+  const absolute = input === '~' || input.startsWith('~/') || input.startsWith('/');
+  const segments = absolute ? [] : cwd.split('/').filter(Boolean);
+  for (const part of input.replace(/^~\/?|^\//, '').split('/')) {
+    if (!part || part === '.') continue;
+    if (part === '..') segments.pop();
+    else segments.push(part);
+  }
+  return segments;
+};
+
+// `entry` is null for the workspace root and undefined when nothing exists at the path.
+const locate = (files: FileEntry[], cwd: string, input: string) => {
+  const segments = resolvePath(cwd, input);
+  return { segments, entry: segments.length ? findByPath(files, segments) : null };
+};
+
+const isFolder = (entry: FileEntry | null | undefined) => entry === null || entry?.type === 'folder';
+
+const folderId = (entry: FileEntry | null) => entry ? entry.id : null;
+
+const splitFlags = (args: string[]) => ({
+  flags: args.filter(a => /^-\w+$/.test(a)).join('').replace(/-/g, ''),
+  operands: args.filter(a => !/^-\w+$/.test(a))
+});
+
+// Path candidates for the partial argument, relative to the working directory.
+const completePath = (foldersOnly = false): Command['complete'] => (args, { session, host }) => {
+  const partial = args[args.length - 1] || '';
+  const slash = partial.lastIndexOf('/');
+  const dir = slash === -1 ? '' : partial.slice(0, slash + 1);
+  const base = partial.slice(slash + 1);
+  const { entry } = locate(host.getFiles(), session.cwd, dir || '.');
+  if (!isFolder(entry)) return [];
+  return childrenOf(host.getFiles(), folderId(entry ?? null))
+    .filter(f => !foldersOnly || f.type === 'folder')
+    .filter(f => !f.name.startsWith('.') || base.startsWith('.'))
+    .map(f => `${dir}${f.name}${f.type === 'folder' ? '/' : ''}`);
+};
+
+// Lines to filter: piped-in output when there is any, otherwise the named files.
+const readInput = (name: string, { args, stdin, session, host, printError }: CommandContext): string[] | null => {
+  if (!args.length) {
+    if (stdin) return stdin;
+    printError(`${name}: missing file operand`);
+    return null;
+  }
+  const lines: string[] = [];
+  for (const target of args) {
+    const { entry } = locate(host.getFiles(), session.cwd, target);
+    if (entry === undefined || isFolder(entry)) {
+      printError(`${name}: ${target}: ${entry === undefined ? 'No such file or directory' : 'Is a directory'}`);
+      return null;
+    }
+    lines.push(...(entry!.content || '').replace(/\n$/, '').split('\n'));
+  }
+  return lines;
+};
+
+// Pulls `-n N` (or `-N`) out of head/tail arguments.
+const lineCount = (args: string[]) => {
+  const rest = [...args];
+  let count = 10;
+  const i = rest.findIndex(a => a === '-n' || /^-\d+$/.test(a));
+  if (i !== -1) {
+    count = Number(rest[i] === '-n' ? rest[i + 1] : rest[i].slice(1));
+    rest.splice(i, rest[i] === '-n' ? 2 : 1);
+  }
+  return { count, rest };
+};
+
+const THEMES: TerminalTheme[] = ['github-dark', 'cyberpunk', 'monokai'];
+
+const AMOUNT_UNITS: Record<string, number> = { wei: 0, gwei: 9, ether: 18 };
+
+// Amounts as cast takes them: wei by default, or suffixed, e.g. `1ether`, `2.5gwei`.
+const parseAmount = (text: string) => {
+  const match = /^(\d+(?:\.\d+)?)(wei|gwei|ether)?$/i.exec(text);
+  if (!match) throw new Error(`invalid amount '${text}' (e.g. 1000, 2.5gwei, 1ether)`);
+  return parseUnits(match[1], AMOUNT_UNITS[(match[2] || 'wei').toLowerCase()]);
+};
+
+// Splits `--name value` options (only those in `names`) from the positional arguments.
+const takeOptions = (args: string[], names: string[]) => {
+  const options: Record<string, string> = {};
+  const operands: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith('--')) operands.push(args[i]);
+    else if (!names.includes(args[i])) throw new Error(`unknown option '${args[i]}'`);
+    else if (i + 1 >= args.length) throw new Error(`option '${args[i]}' needs a value`);
+    else options[args[i]] = args[++i];
+  }
+  return { options, operands };
+};
+
+// `<address> <signature> [args...]` plus options, shared by call and send.
+const readInvocation = (args: string[], options: string[]) => {
+  const { options: values, operands: [address, signature, ...raw] } = takeOptions(args, options);
+  if (!address || !signature) throw new Error('missing address or function signature');
+  if (!isAddress(address)) throw new Error(`'${address}' is not an address`);
+  const fn = parseSignature(signature);
+  if (raw.length !== fn.inputs.length) throw new Error(`${fn.name} takes ${fn.inputs.length} argument(s), got ${raw.length}`);
+  const from = values['--from'];
+  if (from !== undefined && !isAddress(from)) throw new Error(`'${from}' is not an address`);
+  return { fn, args: parseArgs(fn.inputs, raw), from: from as Hex | undefined, value: values['--value'], address: address as Hex };
+};
+
+const target = (networkId: string, address: Hex, fn: AbiFunction): NetworkContract => ({ networkId, address, name: address, abi: [fn] });
+
+export const BUILTIN_COMMANDS: Command[] = [
+  {
+    name: 'help',
+    args: '[command]',
+    description: 'List commands, or show usage for one',
+    complete: () => listCommands().map(c => c.name),
+    run: ({ args, print, printError }) => {
+      if (args[0]) {
+        const command = getCommand(args[0]);
+        if (!command) {
+          printError(`help: no help topics match '${args[0]}'`);
+          return 1;
+        }
+        print(`${command.name}${command.args ? ` ${command.args}` : ''}`);
+        print(`    ${command.description}`);
+        return 0;
+      }
+      const commands = listCommands();
+      const width = Math.max(...commands.map(c => `${c.name} ${c.args || ''}`.length));
+      commands.forEach(c => print(`${`${c.name} ${c.args || ''}`.padEnd(width)}  ${c.description}`));
+      return 0;
+    }
+  },
+  {
+    name: 'clear',
+    description: 'Clear the terminal',
+    run: ({ host }) => {
+      host.clear();
+      return 0;
+    }
+  },
+  {
+    name: 'pwd',
+    description: 'Print the working directory',
+    run: ({ session, print }) => {
+      print(displayPath(session.cwd));
+      return 0;
+    }
+  },
+  {
+    name: 'cd',
+    args: '[dir]',
+    description: 'Change the working directory (defaults to the workspace root)',
+    complete: completePath(true),
+    run: ({ args, session, host, printError }) => {
+      const { segments, entry } = locate(host.getFiles(), session.cwd, args[0] || '~');
+      if (entry === undefined) {
+        printError(`cd: ${args[0]}: No such file or directory`);
+        return 1;
+      }
+      if (!isFolder(entry)) {
+        printError(`cd: ${args[0]}: Not a directory`);
+        return 1;
+      }
+      session.cwd = segments.join('/');
+      return 0;
+    }
+  },
+  {
+    name: 'ls',
+    args: '[-a] [path]...',
+    description: 'List folder contents; -a includes dotfiles',
+    complete: completePath(),
+    run: ({ args, session, host, print, printError }) => {
+      const { flags, operands } = splitFlags(args);
+      const targets = operands.length ? operands : ['.'];
+      let code = 0;
+      targets.forEach((target, i) => {
+        const { entry } = locate(host.getFiles(), session.cwd, target);
+        if (entry === undefined) {
+          printError(`ls: cannot access '${target}': No such file or directory`);
+          code = 1;
+          return;
+        }
+        if (entry && entry.type === 'file') {
+          print(entry.name);
+          return;
+        }
+        if (targets.length > 1) print(`${i ? '\n' : ''}${target}:`);
+        const names = childrenOf(host.getFiles(), folderId(entry))
+          .filter(f => flags.includes('a') || !f.name.startsWith('.'))
+          .map(f => f.type === 'folder' ? `${f.name}/` : f.name);
+        if (names.length) print(names.join('  '));
+      });
+      return code;
+    }
+  },
+  {
+    name: 'cat',
+    args: '[file]...',
+    description: 'Print file contents, or piped input when no file is given',
+    complete: completePath(),
+    run: ({ args, stdin, session, host, print, printError }) => {
+      if (!args.length) {
+        if (stdin) {
+          stdin.forEach(print);
+          return 0;
+        }
+        printError('cat: missing file operand');
+        return 1;
+      }
+      let code = 0;
+      args.forEach(target => {
+        const { entry } = locate(host.getFiles(), session.cwd, target);
+        if (entry === undefined) {
+          printError(`cat: ${target}: No such file or directory`);
+          code = 1;
+        } else if (isFolder(entry)) {
+          printError(`cat: ${target}: Is a directory`);
+          code = 1;
+        } else {
+          (entry!.content || '').replace(/\n$/, '').split('\n').forEach(print);
+        }
+      });
+      return code;
+    }
+  },
+  {
+    name: 'grep',
+    args: '[-iv] <pattern> [file]...',
+    description: 'Print lines matching a regular expression; -i ignores case, -v inverts the match',
+    complete: completePath(),
+    run: (ctx) => {
+      const { flags, operands } = splitFlags(ctx.args);
+      const [pattern, ...files] = operands;
+      if (pattern === undefined) {
+        ctx.printError('grep: missing pattern');
+        return 2;
+      }
+      let regex: RegExp;
+      try {
+        regex = new RegExp(pattern, flags.includes('i') ? 'i' : '');
+      } catch {
+        ctx.printError(`grep: invalid pattern '${pattern}'`);
+        return 2;
+      }
+      const lines = readInput('grep', { ...ctx, args: files });
+      if (!lines) return 2;
+      const matches = lines.filter(line => regex.test(line) !== flags.includes('v'));
+      matches.forEach(ctx.print);
+      return matches.length ? 0 : 1;
+    }
+  },
+  {
+    name: 'head',
+    args: '[-n N] [file]...',
+    description: 'Print the first N lines (10 by default)',
+    complete: completePath(),
+    run: (ctx) => {
+      const { count, rest } = lineCount(ctx.args);
+      const lines = readInput('head', { ...ctx, args: rest });
+      if (!lines) return 1;
+      lines.slice(0, Math.max(count, 0)).forEach(ctx.print);
+      return 0;
+    }
+  },
+  {
+    name: 'tail',
+    args: '[-n N] [file]...',
+    description: 'Print the last N lines (10 by default)',
+    complete: completePath(),
+    run: (ctx) => {
+      const { count, rest } = lineCount(ctx.args);
+      const lines = readInput('tail', { ...ctx, args: rest });
+      if (!lines) return 1;
+      if (count > 0) lines.slice(-count).forEach(ctx.print);
+      return 0;
+    }
+  },
+  {
+    name: 'wc',
+    args: '[-l] [file]...',
+    description: 'Count lines, words and characters; -l prints only the line count',
+    complete: completePath(),
+    run: (ctx) => {
+      const { flags, operands } = splitFlags(ctx.args);
+      const lines = readInput('wc', { ...ctx, args: operands });
+      if (!lines) return 1;
+      const words = lines.reduce((sum, line) => sum + line.split(/\s+/).filter(Boolean).length, 0);
+      const chars = lines.reduce((sum, line) => sum + line.length + 1, 0);
+      ctx.print(flags.includes('l') ? String(lines.length) : `${lines.length} ${words} ${chars}`);
+      return 0;
+    }
+  },
+  {
+    name: 'touch',
+    args: '<file>...',
+    description: 'Create empty files that do not exist yet',
+    complete: completePath(),
+    run: ({ args, session, host, printError }) => {
+      if (!args.length) {
+        printError('touch: missing file operand');
+        return 1;
+      }
+      let code = 0;
+      args.forEach(target => {
+        const files = host.getFiles();
+        const { segments, entry } = locate(files, session.cwd, target);
+        if (entry !== undefined) return;
+        const parent = findByPath(files, segments.slice(0, -1));
+        const name = segments[segments.length - 1];
+        if (segments.length > 1 && !isFolder(parent)) {
+          printError(`touch: cannot touch '${target}': No such file or directory`);
+          code = 1;
+          return;
+        }
+        const error = validateName(files, parent?.id || null, name);
+        if (error) {
+          printError(`touch: cannot touch '${target}': ${error}`);
+          code = 1;
+          return;
+        }
+        host.setFiles(insertEntry(files, parent?.id || null, { id: createId('file'), name, type: 'file', language: inferLanguage(name), content: '' }));
+      });
+      return code;
+    }
+  },
+  {
+    name: 'mkdir',
+    args: '[-p] <dir>...',
+    description: 'Create folders; -p creates missing parents and ignores existing ones',
+    complete: completePath(true),
+    run: ({ args, session, host, printError }) => {
+      const { flags, operands } = splitFlags(args);
+      if (!operands.length) {
+        printError('mkdir: missing operand');
+        return 1;
+      }
+      let code = 0;
+      operands.forEach(target => {
+        const files = host.getFiles();
+        const { segments, entry } = locate(files, session.cwd, target);
+        if (entry !== undefined) {
+          if (!flags.includes('p') || !isFolder(entry)) {
+            printError(`mkdir: cannot create directory '${target}': File exists`);
+            code = 1;
+          }
+          return;
+        }
+        const parent = findByPath(files, segments.slice(0, -1));
+        if (!flags.includes('p') && segments.length > 1 && !isFolder(parent)) {
+          printError(`mkdir: cannot create directory '${target}': No such file or directory`);
+          code = 1;
+          return;
+        }
+        const invalid = segments.map(name => validateName([], null, name)).find(Boolean);
+        if (invalid) {
+          printError(`mkdir: cannot create directory '${target}': ${invalid}`);
+          code = 1;
+          return;
+        }
+        host.setFiles(ensureFolderPath(files, segments).files);
+      });
+      return code;
+    }
+  },
+  {
+    name: 'rm',
+    args: '[-rf] <path>...',
+    description: 'Delete files; -r deletes folders, -f ignores missing paths',
+    complete: completePath(),
+    run: ({ args, session, host, printError }) => {
+      const { flags, operands } = splitFlags(args);
+      if (!operands.length) {
+        printError('rm: missing operand');
+        return 1;
+      }
+      let code = 0;
+      operands.forEach(target => {
+        const files = host.getFiles();
+        const { entry } = locate(files, session.cwd, target);
+        if (entry === undefined) {
+          if (!flags.includes('f')) {
+            printError(`rm: cannot remove '${target}': No such file or directory`);
+            code = 1;
+          }
+          return;
+        }
+        if (entry === null) {
+          printError(`rm: refusing to remove the workspace root`);
+          code = 1;
+          return;
+        }
+        if (entry.type === 'folder' && !/[rR]/.test(flags)) {
+          printError(`rm: cannot remove '${target}': Is a directory`);
+          code = 1;
+          return;
+        }
+        host.setFiles(removeEntry(files, entry.id));
+        host.closeFiles(collectIds(entry));
+      });
+      return code;
+    }
+  },
+  {
+    name: 'mv',
+    args: '<source> <dest>',
+    description: 'Move or rename a file or folder',
+    complete: completePath(),
+    run: ({ args, session, host, printError }) => {
+      if (args.length !== 2) {
+        printError('mv: expected a source and a destination');
+        return 1;
+      }
+      const [source, dest] = args;
+      const files = host.getFiles();
+      const from = locate(files, session.cwd, source).entry;
+      if (!from) {
+        printError(`mv: cannot move '${source}': ${from === null ? 'Cannot move the workspace root' : 'No such file or directory'}`);
+        return 1;
+      }
+      const to = locate(files, session.cwd, dest);
+      if (to.entry && to.entry.type === 'file') {
+        printError(`mv: cannot move '${source}': '${dest}' already exists`);
+        return 1;
+      }
+      // Moving into an existing folder keeps the name; otherwise the last segment is the new name.
+      let targetFolder: FileEntry | null;
+      let name = from.name;
+      if (isFolder(to.entry)) {
+        targetFolder = to.entry ?? null;
+      } else {
+        const parent = to.segments.length > 1 ? findByPath(files, to.segments.slice(0, -1)) : null;
+        if (!isFolder(parent)) {
+          printError(`mv: cannot move '${source}' to '${dest}': No such file or directory`);
+          return 1;
+        }
+        targetFolder = parent ?? null;
+        name = to.segments[to.segments.length - 1];
+      }
+      if (targetFolder && (targetFolder.id === from.id || isDescendantOf(files, targetFolder.id, from.id))) {
+        printError(`mv: cannot move '${source}' into itself`);
+        return 1;
+      }
+      const error = validateName(files, folderId(targetFolder), name, from.id);
+      if (error) {
+        printError(`mv: cannot move '${source}': ${error}`);
+        return 1;
+      }
+      const moved = moveEntry(files, from.id, folderId(targetFolder));
+      host.setFiles(name === from.name ? moved : renameEntry(moved, from.id, name));
+      return 0;
+    }
+  },
+  {
+    name: 'echo',
+    args: '[text]...',
+    description: 'Print text; combine with > or >> to write a file',
+    run: ({ args, print }) => {
+      print(args.join(' '));
+      return 0;
+    }
+  },
+  {
+    name: 'whoami',
+    description: 'Print the current user',
+    run: ({ print }) => {
+      print('soluf-th-developer-agent-01');
+      return 0;
+    }
+  },
+  {
+    name: 'theme',
+    args: `<${THEMES.join('|')}>`,
+    description: 'Switch the terminal colour theme',
+    complete: () => THEMES,
+    run: ({ args, host, print, printError }) => {
+      const theme = args[0] as TerminalTheme;
+      if (!THEMES.includes(theme)) {
+        printError(`Unknown theme: ${args[0] || ''}`);
+        return 1;
+      }
+      host.setTheme(theme);
+      print(`Terminal theme switched to ${theme}`);
+      return 0;
+    }
+  },
+  {
+    name: 'compile',
+    description: 'Compile the Solidity sources in the workspace',
+    run: async ({ host }) => (await host.compile()) ? 0 : 1
+  },
+  {
+    name: 'npm',
+    args: '<test|deploy>',
+    description: 'Run the test suite, or compile and deploy to the local sandbox',
+    complete: args => args.length === 1 ? ['test', 'deploy'] : [],
+    run: async ({ args, host, printError, signal }) => {
+      if (args[0] === 'test') return (await host.test(signal)) ? 0 : 1;
+      if (args[0] === 'deploy') return (await host.deploy()) ? 0 : 1;
+      printError(`npm: unknown script '${args[0] || ''}' (available: test, deploy)`);
+      return 1;
+    }
+  },
+  {
+    name: 'audit',
+    description: 'Review the active file: static Solidity rules, then the AI (--static skips the AI)',
+    run: async ({ args, host, printError }) => {
+      const unknown = args.filter(a => a !== '--static');
+      if (unknown.length) {
+        printError(`audit: unknown option '${unknown[0]}' (usage: audit [--static])`);
+        return 1;
+      }
+      return (await host.audit({ staticOnly: args.includes('--static') })) ? 0 : 1;
+    }
+  },
+  {
+    name: 'call',
+    args: '<address> <signature> [args...] [--from <address>]',
+    description: 'Call a function on the active network without sending a transaction, e.g. call 0x… "balanceOf(address)(uint256)" 0x…',
+    run: async ({ args, host, print, printError }) => {
+      let invocation;
+      try {
+        invocation = readInvocation(args, ['--from']);
+      } catch (err) {
+        printError(`call: ${err instanceof Error ? err.message : String(err)}`);
+        return 1;
+      }
+      const { network } = host.getNetwork();
+      const { fn, address, from } = invocation;
+      const result = await callFunction(network, target(network.id, address, fn), fn, invocation.args, from);
+      if (!result.success) {
+        printError(`call: ${result.error}`);
+        return 1;
+      }
+      const values = fn.outputs.length === 1 ? [result.returnValue] : (result.returnValue as unknown[] | undefined) || [];
+      values.forEach(value => print(formatValue(value)));
+      return 0;
+    }
+  },
+  {
+    name: 'send',
+    args: '<address> <signature> [args...] [--value <amount>] [--from <address>] [--unsafe-test-key]',
+    description: 'Sign and send a transaction on the active network with the selected account source, then print its receipt',
+    run: async ({ args, host, print, printError }) => {
+      let invocation;
+      let value = 0n;
+      const unsafe = args.includes('--unsafe-test-key');
+      try {
+        invocation = readInvocation(args.filter(a => a !== '--unsafe-test-key'), ['--from', '--value']);
+        if (invocation.value !== undefined) value = parseAmount(invocation.value);
+      } catch (err) {
+        printError(`send: ${err instanceof Error ? err.message : String(err)}`);
+        return 1;
+      }
+      const { network, source } = host.getNetwork();
+      const { fn, address } = invocation;
+      let from = invocation.from;
+      try {
+        from = from || await defaultSender(source);
+        // The test keys are public, so signing with them anywhere but a local node needs asking for.
+        const riskyChain = await testKeyRisk(network, source);
+        if (riskyChain !== null) {
+          printError(`send: ${testKeyWarning(riskyChain)}`);
+          if (!unsafe) {
+            printError('send: refusing to sign with a local test key; pass --unsafe-test-key to send anyway');
+            return 1;
+          }
+        }
+      } catch (err) {
+        printError(`send: ${err instanceof Error ? err.message : String(err)}`);
+        return 1;
+      }
+      const result = await sendFunction(network, source, from, target(network.id, address, fn), fn, invocation.args, value, { allowTestKey: unsafe });
+      if (result.transactionHash) print(`transactionHash  ${result.transactionHash}`);
+      if (result.gasUsed !== undefined) print(`gasUsed          ${result.gasUsed}`);
+      if (!result.success) {
+        printError(`send: ${result.error}`);
+        return 1;
+      }
+      print('status           1 (success)');
+      result.events.forEach(event => print(`log              ${event.address} ${formatValue(event.args)}`));
+      return 0;
+    }
+  },
+  {
+    name: 'abi-decode',
+    args: '<signature> <data> [--input]',
+    description: 'Decode return data against the signature\'s output types, or calldata against its inputs with --input',
+    run: ({ args, print, printError }) => {
+      const input = args.includes('--input');
+      const [signature, data, ...extra] = args.filter(a => a !== '--input');
+      try {
+        if (!signature || !data || extra.length) throw new Error('usage: abi-decode <signature> <data> [--input]');
+        if (!isHex(data)) throw new Error(`'${data}' is not 0x-prefixed hex`);
+        const fn = parseSignature(signature);
+        // Calldata may be pasted with its selector; cast's --input takes it either way.
+        const selector = toFunctionSelector(fn);
+        const body = input && data.toLowerCase().startsWith(selector) ? `0x${data.slice(10)}` as Hex : data;
+        decodeAbiParameters(input ? fn.inputs : fn.outputs, body).forEach(value => print(formatValue(value)));
+        return 0;
+      } catch (err) {
+        printError(`abi-decode: ${err instanceof Error ? err.message.split('\n')[0] : String(err)}`);
+        return 1;
+      }
+    }
+  },
+  {
+    name: 'sig',
+    args: '<signature>',
+    description: 'Print the 4-byte selector of a function signature, e.g. sig "transfer(address,uint256)"',
+    run: ({ args, print, printError }) => {
+      try {
+        if (!args.length) throw new Error('missing function signature');
+        print(toFunctionSelector(parseSignature(args.join(' '))));
+        return 0;
+      } catch (err) {
+        printError(`sig: ${err instanceof Error ? err.message : String(err)}`);
+        return 1;
+      }
+    }
+  }
+];
+
+// Writes captured output to `target` the way `>` (or `>>` when appending) would.
+const redirect = (host: ShellHost, session: ShellSession, target: string, output: string[], append: boolean) => {
+  const files = host.getFiles();
+  const { segments, entry } = locate(files, session.cwd, target);
+  if (isFolder(entry)) return `${target}: Is a directory`;
+  const parent = segments.length > 1 ? findByPath(files, segments.slice(0, -1)) : null;
+  if (parent === undefined || !isFolder(parent)) return `${target}: No such file or directory`;
+  const name = segments[segments.length - 1];
+  if (!entry) {
+    const error = validateName(files, folderId(parent), name);
+    if (error) return `${target}: ${error}`;
+  }
+  const text = output.map(line => `${line}\n`).join('');
+  host.setFiles(upsertFile(files, folderId(parent), name, append && entry ? `${entry.content || ''}${text}` : text));
+  return null;
+};
+
+// Exit code of a command stopped by Ctrl+C, as in bash (128 + SIGINT).
+export const INTERRUPTED = 130;
+
+// Resolves once `signal` aborts; never resolves otherwise.
+const whenAborted = (signal?: AbortSignal) => new Promise<number>(resolve => {
+  if (!signal) return;
+  if (signal.aborted) resolve(INTERRUPTED);
+  else signal.addEventListener('abort', () => resolve(INTERRUPTED), { once: true });
+});
+
+// Runs the stages of one pipeline, feeding each stage's output to the next, and resolves with the last exit code.
+const runPipeline = async (stages: PipelineStage[], { session, host, print, printError, signal }: Omit<CommandContext, 'args'>): Promise<number> => {
+  let stdin: string[] | undefined;
+  let code = 0;
+  for (let i = 0; i < stages.length; i++) {
+    const { words: [name, ...args], redirect: target } = stages[i];
+    const last = i === stages.length - 1;
+    const command = getCommand(name);
+    if (!command) {
+      printError(`${name}: command not found`);
+      code = 127;
+      stdin = [];
+      continue;
+    }
+    const output: string[] = [];
+    // Commands that ignore the signal are abandoned rather than awaited when it fires; one that
+    // throws (or rejects) fails with status 1 instead of taking the rest of the line down with it.
+    const run = Promise.resolve()
+      .then(() => command.run({ args, stdin, session, host, signal, printError, print: last && !target ? print : line => output.push(line) }))
+      .catch(err => {
+        printError(`${name}: ${err instanceof Error ? err.message : String(err)}`);
+        return 1;
+      });
+    code = await Promise.race([run, whenAborted(signal)]);
+    if (code === INTERRUPTED) return code;
+    if (target) {
+      const error = redirect(host, session, target.target, output, target.append);
+      if (error) {
+        printError(error);
+        code = 1;
+      }
+      stdin = [];
+    } else {
+      stdin = output;
+    }
+  }
+  return code;
+};
+
+// Runs one command line — pipelines joined by `;`, `&&` and `||`, with `>`/`>>` redirection — and resolves with its exit code.
+export const runCommandLine = async (line: string, ctx: Omit<CommandContext, 'args'>): Promise<number> => {
+  let links;
+  try {
+    links = parseCommandLine(line);
+  } catch (err) {
+    ctx.printError(`${err instanceof Error ? err.message : String(err)}`.replace(/^(?!syntax error)/, 'syntax error: '));
+    return 2;
+  }
+
+  let code = 0;
+  for (const link of links) {
+    if (ctx.signal?.aborted) return INTERRUPTED;
+    if ((link.connector === '&&' && code !== 0) || (link.connector === '||' && code === 0)) continue;
+    code = await runPipeline(link.stages, ctx);
+    if (code === INTERRUPTED) return code;
+  }
+  return code;
+};
@@ -0,0 +1,223 @@
+import { parse, visit } from '@solidity-parser/parser';
+import type {
+  ASTNode, BaseASTNode, ContractDefinition, Expression, FunctionCall, FunctionDefinition, MemberAccess,
+  StateVariableDeclaration, VariableDeclaration
+} from '@solidity-parser/parser/dist/src/ast-types';
+import { CodeAnalysisIssue } from '../types';
+
+// Offline rule engine for Solidity. Rules are syntactic: without type information they
+// can miss cases or flag safe code, so findings are worded as things to check.
+
+const LOW_LEVEL_CALLS = ['call', 'delegatecall', 'staticcall'];
+const ASSIGNMENT_OPERATORS = ['=', '+=', '-=', '*=', '/=', '%=', '|=', '&=', '^=', '<<=', '>>='];
+const REENTRANCY_GUARD = /nonreentrant|noreentrancy|lock/i;
+const PINNED_PRAGMA = /^=?\s*\d+\.\d+\.\d+$/;
+
+export interface StaticAnalysis {
+  issues: CodeAnalysisIssue[];
+  // Syntax errors the parser recovered from; rules only see the part it could read.
+  parseErrors: number;
+}
+
+const lineOf = (node: BaseASTNode) => node.loc?.start.line ?? 1;
+const startOf = (node: BaseASTNode) => node.range?.[0] ?? 0;
+
+const isMember = (node: BaseASTNode | null | undefined, object: string, member: string) => {
+  if (node?.type !== 'MemberAccess') return false;
+  const { memberName, expression } = node as MemberAccess;
+  return memberName === member && expression.type === 'Identifier' && expression.name === object;
+};
+
+// The member a call goes through, looking past `{value: ...}` options: `to.call{value: v}("")` is `call`.
+const calleeMember = (call: FunctionCall) => {
+  const callee = call.expression.type === 'NameValueExpression' ? call.expression.expression : call.expression;
+  return callee.type === 'MemberAccess' ? callee.memberName : null;
+};
+
+const isLowLevelCall = (call: FunctionCall) => {
+  const member = calleeMember(call);
+  return !!member && (LOW_LEVEL_CALLS.includes(member) || (member === 'send' && call.arguments.length === 1));
+};
+
+// Calls that hand control to another contract. `transfer` with one argument is the
+// address form; with more it is most likely a token call, which is external too.
+const isExternalCall = (call: FunctionCall) => {
+  const member = calleeMember(call);
+  return !!member && (isLowLevelCall(call) || member === 'transfer');
+};
+
+// The variable an assignment target ultimately names: `balances[a].amount` writes `balances`.
+const rootName = (expr: Expression | null): string | null => {
+  if (!expr) return null;
+  switch (expr.type) {
+    case 'Identifier': return expr.name;
+    case 'IndexAccess': return rootName(expr.base);
+    case 'MemberAccess': return rootName(expr.expression);
+    default: return null;
+  }
+};
+
+const unwrap = (expr: Expression | null): Expression | null =>
+  expr?.type === 'TupleExpression' && expr.components.length === 1 ? unwrap(expr.components[0] as Expression) : expr;
+
+interface StateWrite {
+  name: string;
+  node: BaseASTNode;
+}
+
+interface FunctionFacts {
+  calls: FunctionCall[];
+  writes: StateWrite[];
+  usesSender: boolean;
+}
+
+const functionFacts = (fn: FunctionDefinition, stateVars: Map<string, VariableDeclaration>): FunctionFacts => {
+  const locals = new Set(fn.parameters.map(p => p.name).concat((fn.returnParameters || []).map(p => p.name)));
+  const facts: FunctionFacts = { calls: [], writes: [], usesSender: false };
+  const write = (target: Expression | null, node: BaseASTNode) => {
+    const name = rootName(target);
+    if (name && stateVars.has(name) && !locals.has(name)) facts.writes.push({ name, node });
+  };
+  visit(fn.body, {
+    VariableDeclaration: node => { if (node.name) locals.add(node.name); },
+    FunctionCall: node => { if (isExternalCall(node)) facts.calls.push(node); },
+    MemberAccess: node => { if (isMember(node, 'msg', 'sender') || isMember(node, 'tx', 'origin')) facts.usesSender = true; },
+    BinaryOperation: node => { if (ASSIGNMENT_OPERATORS.includes(node.operator)) write(node.left, node); },
+    UnaryOperation: node => { if (['++', '--', 'delete'].includes(node.operator)) write(node.subExpression, node); }
+  });
+  return facts;
+};
+
+const pragmaRules = (ast: ASTNode, source: string): CodeAnalysisIssue[] => {
+  const issues: CodeAnalysisIssue[] = [];
+  if (!/SPDX-License-Identifier:/.test(source)) {
+    issues.push({ severity: 'Low', line: 1, detector: 'missing-spdx', message: 'Missing SPDX license identifier; add a "// SPDX-License-Identifier: <license>" comment.' });
+  }
+  const pragmas: { value: string; line: number }[] = [];
+  visit(ast, { PragmaDirective: node => { if (node.name === 'solidity') pragmas.push({ value: node.value, line: lineOf(node) }); } });
+  if (!pragmas.length) {
+    issues.push({ severity: 'Medium', line: 1, detector: 'missing-pragma', message: 'Missing "pragma solidity"; the file compiles with whatever compiler happens to be used.' });
+  }
+  pragmas.filter(p => !PINNED_PRAGMA.test(p.value)).forEach(p => issues.push({
+    severity: 'Low', line: p.line, detector: 'floating-pragma',
+    message: `Floating pragma "${p.value}"; pin the compiler version for deployments.`
+  }));
+  return issues;
+};
+
+const txOriginRule = (ast: ASTNode): CodeAnalysisIssue[] => {
+  const issues: CodeAnalysisIssue[] = [];
+  visit(ast, {
+    MemberAccess: (node, parent) => {
+      if (!isMember(node, 'tx', 'origin')) return;
+      const compared = parent?.type === 'BinaryOperation' && ['==', '!='].includes(parent.operator);
+      issues.push(compared
+        ? { severity: 'High', line: lineOf(node), detector: 'tx-origin', message: 'tx.origin used for authorization; a contract the owner calls can act as them. Use msg.sender.' }
+        : { severity: 'Low', line: lineOf(node), detector: 'tx-origin', message: 'tx.origin used; prefer msg.sender unless the original sender is really meant.' });
+    }
+  });
+  return issues;
+};
+
+const uncheckedCallRule = (ast: ASTNode): CodeAnalysisIssue[] => {
+  const issues: CodeAnalysisIssue[] = [];
+  const report = (call: FunctionCall) => issues.push({
+    severity: 'Medium', line: lineOf(call), detector: 'unchecked-call',
+    message: `Return value of low-level ${calleeMember(call)} is not checked; a failed call will be ignored silently.`
+  });
+  visit(ast, {
+    ExpressionStatement: node => {
+      const expr = unwrap(node.expression);
+      if (expr?.type === 'FunctionCall' && isLowLevelCall(expr)) report(expr);
+    },
+    // `(bool ok, ) = to.call(...)` with `ok` never read afterwards.
+    FunctionDefinition: fn => {
+      if (!fn.body) return;
+      const reads = new Map<string, number>();
+      const declared: { name: string; call: FunctionCall }[] = [];
+      visit(fn.body, {
+        Identifier: (node, parent) => { if (parent?.type !== 'VariableDeclaration') reads.set(node.name, (reads.get(node.name) || 0) + 1); },
+        VariableDeclarationStatement: node => {
+          const init = unwrap(node.initialValue);
+          const first = node.variables[0] as VariableDeclaration | null;
+          if (init?.type === 'FunctionCall' && isLowLevelCall(init) && first?.name) declared.push({ name: first.name, call: init });
+        }
+      });
+      declared.filter(d => !reads.get(d.name)).forEach(d => report(d.call));
+    }
+  });
+  return issues;
+};
+
+const uninitializedStorageRule = (ast: ASTNode): CodeAnalysisIssue[] => {
+  const issues: CodeAnalysisIssue[] = [];
+  visit(ast, {
+    VariableDeclarationStatement: node => {
+      if (node.initialValue) return;
+      (node.variables as (VariableDeclaration | null)[])
+        .filter(v => v?.storageLocation === 'storage')
+        .forEach(v => issues.push({
+          severity: 'High', line: lineOf(v!), detector: 'uninitialized-storage',
+          message: `Storage pointer "${v!.name}" is not initialized; it aliases slot 0 and writes through it overwrite state.`
+        }));
+    }
+  });
+  return issues;
+};
+
+const contractRules = (contract: ContractDefinition): CodeAnalysisIssue[] => {
+  const stateVars = new Map<string, VariableDeclaration>();
+  contract.subNodes
+    .filter((n): n is StateVariableDeclaration => n.type === 'StateVariableDeclaration')
+    .forEach(decl => decl.variables.forEach(v => {
+      if (v.name && !v.isDeclaredConst && !v.isImmutable) stateVars.set(v.name, v);
+    }));
+
+  const issues: CodeAnalysisIssue[] = [];
+  contract.subNodes
+    .filter((n): n is FunctionDefinition => n.type === 'FunctionDefinition')
+    .forEach(fn => {
+      if (!fn.body || fn.stateMutability === 'view' || fn.stateMutability === 'pure') return;
+      const facts = functionFacts(fn, stateVars);
+      const name = fn.name || (fn.isReceiveEther ? 'receive' : 'fallback');
+
+      // Checks-effects-interactions: state written after control was handed to another contract.
+      if (!fn.modifiers.some(m => REENTRANCY_GUARD.test(m.name))) {
+        const firstCall = facts.calls.reduce<FunctionCall | null>((first, c) => !first || startOf(c) < startOf(first) ? c : first, null);
+        const lateWrite = firstCall && facts.writes.find(w => startOf(w.node) > (firstCall.range?.[1] ?? 0));
+        if (firstCall && lateWrite) {
+          issues.push({
+            severity: 'High', line: lineOf(lateWrite.node), detector: 'reentrancy',
+            message: `"${lateWrite.name}" is written after the external call on line ${lineOf(firstCall)} in ${name}(); a reentrant call sees stale state. Update state before calling out, or add a reentrancy guard.`
+          });
+        }
+      }
+
+      const exposed = ['public', 'external', 'default'].includes(fn.visibility) && !fn.isConstructor;
+      if (exposed && !fn.modifiers.length && !facts.usesSender && facts.writes.length) {
+        const written = [...new Set(facts.writes.map(w => w.name))];
+        const privileged = written.filter(v => {
+          const type = stateVars.get(v)?.typeName;
+          return type?.type === 'ElementaryTypeName' && type.name.startsWith('address');
+        });
+        issues.push({
+          severity: privileged.length ? 'High' : 'Low', line: lineOf(fn), detector: 'unprotected-state-write',
+          message: `${name}() can be called by anyone and writes ${(privileged.length ? privileged : written).map(v => `"${v}"`).join(', ')} without an access check.`
+        });
+      }
+    });
+  return issues;
+};
+
+export const analyzeSolidity = (source: string): StaticAnalysis => {
+  const ast = parse(source, { loc: true, range: true, tolerant: true });
+  const contracts = ast.children.filter((n): n is ContractDefinition => n.type === 'ContractDefinition');
+  const issues = [
+    ...pragmaRules(ast, source),
+    ...txOriginRule(ast),
+    ...uncheckedCallRule(ast),
+    ...uninitializedStorageRule(ast),
+    ...contracts.flatMap(contractRules)
+  ].sort((a, b) => a.line - b.line);
+  return { issues, parseErrors: ast.errors?.length || 0 };
+};
@@ -0,0 +1,62 @@
+import { StorageLayout, StorageType } from '../types';
+
+const SLOT_BYTES = 32;
+
+export interface SlotVariable {
+  label: string;
+  type: string;
+  // Bytes from the low-order end of the slot, as solc reports it.
+  offset: number;
+  size: number;
+  encoding: StorageType['encoding'];
+}
+
+export interface SlotRow {
+  slot: bigint;
+  // Number of consecutive slots the row covers: more than one for structs and fixed-size arrays.
+  span: bigint;
+  variables: SlotVariable[];
+  freeBytes: number;
+}
+
+// Only value types smaller than a slot share one; structs and fixed-size arrays always
+// start a new slot, and so does whatever follows them.
+const isPackable = (v: SlotVariable) =>
+  v.encoding === 'inplace' && v.size < SLOT_BYTES && !v.type.startsWith('struct ') && !v.type.endsWith(']');
+
+export const storageRows = (layout: StorageLayout): SlotRow[] => {
+  const rows = new Map<bigint, SlotRow>();
+  layout.storage.forEach(entry => {
+    const type = layout.types?.[entry.type];
+    const size = Number(type?.numberOfBytes ?? SLOT_BYTES);
+    const slot = BigInt(entry.slot);
+    const row = rows.get(slot) || { slot, span: 1n, variables: [], freeBytes: SLOT_BYTES };
+    row.variables.push({
+      label: entry.label,
+      type: type?.label || entry.type,
+      offset: entry.offset,
+      size,
+      encoding: type?.encoding || 'inplace'
+    });
+    row.span = BigInt(Math.max(1, Math.ceil(size / SLOT_BYTES)));
+    row.freeBytes = Math.max(0, SLOT_BYTES - row.variables.reduce((sum, v) => sum + Math.min(v.size, SLOT_BYTES), 0));
+    rows.set(slot, row);
+  });
+  return [...rows.values()].sort((a, b) => (a.slot < b.slot ? -1 : a.slot > b.slot ? 1 : 0));
+};
+
+// Slots the layout uses now, and the fewest it could use if the packable variables were
+// declared in the best order (first-fit decreasing). Inheritance order can make the
+// minimum unreachable, so it is a hint rather than a target.
+export const packingSummary = (rows: SlotRow[]) => {
+  const used = rows.reduce((sum, row) => sum + row.span, 0n);
+  const variables = rows.flatMap(row => row.variables);
+  const fixed = rows.filter(row => !row.variables.some(isPackable)).reduce((sum, row) => sum + row.span, 0n);
+  const bins: number[] = [];
+  variables.filter(isPackable).map(v => v.size).sort((a, b) => b - a).forEach(size => {
+    const bin = bins.findIndex(free => free >= size);
+    if (bin === -1) bins.push(SLOT_BYTES - size);
+    else bins[bin] -= size;
+  });
+  return { used, minimum: fixed + BigInt(bins.length) };
+};
@@ -0,0 +1,58 @@
+import { FileEntry, LogEntry, LogLevel, LogSource } from '../types';
+import { stripAnsi } from './ansi';
+import { ensureFolderPath, upsertFile } from './fileTree';
+
+export const LOGS_DIR = 'logs';
+
+export const LOG_LEVELS: LogLevel[] = ['info', 'success', 'warning', 'error'];
+
+export const LOG_SOURCES: LogSource[] = ['command', 'shell', 'workflow', 'compiler', 'sandbox', 'network', 'ai', 'system'];
+
+export interface LogOptions {
+  level?: LogLevel;
+  source?: LogSource;
+  prompt?: string;
+}
+
+// Lines kept per terminal unless the user picks another limit.
+export const DEFAULT_SCROLLBACK = 5000;
+
+export const SCROLLBACK_OPTIONS = [1000, DEFAULT_SCROLLBACK, 20000, 100000];
+
+// Appends `entry`, dropping the oldest lines beyond the terminal's scrollback limit.
+export const appendLog = (logs: LogEntry[], entry: LogEntry, scrollback: number) =>
+  logs.length >= scrollback ? [...logs.slice(logs.length - scrollback + 1), entry] : [...logs, entry];
+
+export const createLogEntry = (text: string, { level = 'info', source = 'system', prompt }: LogOptions = {}): LogEntry =>
+  ({ text, level, source, timestamp: Date.now(), ...(prompt !== undefined ? { prompt } : {}) });
+
+// What is hidden rather than what is shown, so sources added later are visible by default.
+export interface LogFilter {
+  hiddenLevels: LogLevel[];
+  hiddenSources: LogSource[];
+}
+
+export const EMPTY_LOG_FILTER: LogFilter = { hiddenLevels: [], hiddenSources: [] };
+
+export const isFiltering = (filter: LogFilter) => filter.hiddenLevels.length > 0 || filter.hiddenSources.length > 0;
+
+export const filterLogs = (logs: LogEntry[], filter: LogFilter) => isFiltering(filter)
+  ? logs.filter(entry => !filter.hiddenLevels.includes(entry.level) && !filter.hiddenSources.includes(entry.source))
+  : logs;
+
+// The line as it reads on screen, without styling.
+export const plainText = (entry: LogEntry) => stripAnsi(entry.prompt !== undefined ? `${entry.prompt} ${entry.text}` : entry.text);
+
+export const formatTime = (timestamp: number) => new Date(timestamp).toTimeString().slice(0, 8);
+
+// One line per entry with its timestamp, level and source, for saving to a file.
+export const serializeLogs = (logs: LogEntry[]) =>
+  logs.map(entry => `${new Date(entry.timestamp).toISOString()} ${entry.level.toUpperCase().padEnd(7)} [${entry.source}] ${plainText(entry)}\n`).join('');
+
+// Saves `logs` as logs/<terminal>-<yyyymmdd-hhmmss>.log and returns the new tree with the file's path.
+export const writeLogFile = (files: FileEntry[], terminalName: string, logs: LogEntry[]) => {
+  const stamp = new Date().toISOString().replace(/\..*$/, '').replace(/-|:/g, '').replace('T', '-');
+  const name = `${terminalName.replace(/[^\w.-]+/g, '_')}-${stamp}.log`;
+  const { files: next, folderId } = ensureFolderPath(files, [LOGS_DIR]);
+  return { files: upsertFile(next, folderId, name, serializeLogs(logs)), path: [LOGS_DIR, name] };
+};
@@ -0,0 +1,47 @@
+import { TerminalInstance, TerminalProfile } from '../types';
+import { createLogEntry, DEFAULT_SCROLLBACK } from './terminalLog';
+import { promptFor } from './shell';
+
+export const DEFAULT_TERMINAL_HEIGHT = 288;
+export const MIN_TERMINAL_HEIGHT = 120;
+
+export const TERMINAL_PROFILES: Record<TerminalProfile, { label: string; icon: string; defaultName: string; banner: string[] }> = {
+  shell: {
+    label: 'Shell',
+    icon: '$',
+    defaultName: 'bash',
+    banner: ['Welcome to Soluf-th Bash v5.1', 'Type "help" for available commands.']
+  },
+  node: {
+    label: 'Node.js REPL',
+    icon: 'JS',
+    defaultName: 'node',
+    banner: ['JavaScript REPL running in a sandboxed worker.', 'Type ".help" for more information.']
+  },
+  ai: {
+    label: 'AI Assistant',
+    icon: '✦',
+    defaultName: 'ai',
+    banner: ['Ask Soluf-th AI anything; the active file is sent as context.', 'Type "/clear" to clear the conversation view.']
+  }
+};
+
+export const terminalPrompt = (terminal: TerminalInstance) =>
+  terminal.profile === 'node' ? '>' : terminal.profile === 'ai' ? 'ai>' : promptFor(terminal.cwd);
+
+// A fresh terminal; repeated profiles are numbered ("node", "node 2", ...).
+export const createTerminal = (profile: TerminalProfile, existing: TerminalInstance[], id = `term-${Date.now()}`): TerminalInstance => {
+  const base = TERMINAL_PROFILES[profile].defaultName;
+  const taken = new Set(existing.map(t => t.name));
+  let name = base;
+  for (let n = 2; taken.has(name); n++) name = `${base} ${n}`;
+  return {
+    id,
+    name,
+    profile,
+    cwd: '',
+    history: [],
+    scrollback: DEFAULT_SCROLLBACK,
+    logs: TERMINAL_PROFILES[profile].banner.map(line => createLogEntry(line))
+  };
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest';
+import { FileEntry, TestCase } from '../types';
+import { discoverJsTests, discoverSolidityTests, formatTestResult, isRunnable, JS_TEST_FILE, mergeDiscovered } from './testRunner';
+import { runJsTestFile } from './jsTests';
+
+// The runner executes test files in a Worker; here it only has to report what a file declares.
+vi.mock('./jsTests', () => ({ runJsTestFile: vi.fn() }));
+
+const file = (name: string, content = ''): FileEntry => ({ id: name, name, type: 'file', content });
+const folder = (name: string, children: FileEntry[]): FileEntry => ({ id: name, name, type: 'folder', children });
+
+const test = (patch: Partial<TestCase>): TestCase => ({
+  id: 'id', kind: 'solidity', path: 'test/Counter.t.sol', suite: 'CounterTest', name: 'testIncrement', status: 'pending', ...patch
+});
+
+describe('discoverSolidityTests', () => {
+  it('lists public test functions without parameters in *.t.sol contracts', () => {
+    const source = [
+      'contract CounterTest {',
+      '  function setUp() public {}',
+      '  function testIncrement() public {}',
+      '  function testFailUnderflow() external {}',
+      '  function testWithArg(uint x) public {}',
+      '  function testHidden() internal {}',
+      '}'
+    ].join('\n');
+    const tests = discoverSolidityTests([folder('test', [file('Counter.t.sol', source)])]);
+    expect(tests.map(t => t.name)).toEqual(['testIncrement', 'testFailUnderflow']);
+    expect(tests[0]).toMatchObject({ kind: 'solidity', path: 'test/Counter.t.sol', suite: 'CounterTest', line: 3, status: 'pending' });
+  });
+
+  it('also finds contracts named *Test outside test files, but not libraries or other contracts', () => {
+    const source = [
+      'contract TokenTest { function testTransfer() public {} }',
+      'contract Token { function testMode() public {} }',
+      'library HelperTest { function testLib() public {} }'
+    ].join('\n');
+    expect(discoverSolidityTests([file('Token.sol', source)]).map(t => `${t.suite}.${t.name}`)).toEqual(['TokenTest.testTransfer']);
+  });
+
+  it('skips files that do not parse', () => {
+    expect(discoverSolidityTests([file('Broken.t.sol', 'contract BrokenTest { function testX( }')])).toEqual([]);
+  });
+});
+
+describe('discoverJsTests', () => {
+  it('matches *.test and *.spec files in JS or TS', () => {
+    expect(['a.test.js', 'a.test.ts', 'a.spec.js', 'a.spec.ts'].every(path => JS_TEST_FILE.test(path))).toBe(true);
+    expect(['a.js', 'a.test.tsx', 'test.js', 'a.test.sol'].some(path => JS_TEST_FILE.test(path))).toBe(false);
+  });
+
+  it('collects the tests each matching file declares', async () => {
+    vi.mocked(runJsTestFile).mockResolvedValueOnce([{ suite: 'Counter', name: 'increments' }, { suite: '', name: 'top level' }]);
+    const tests = await discoverJsTests([folder('test', [file('counter.test.js', 'it()'), file('helpers.js', '')])]);
+    expect(runJsTestFile).toHaveBeenCalledWith('test/counter.test.js', 'it()', { mode: 'collect' }, {});
+    expect(tests.map(t => [t.kind, t.path, t.suite, t.name])).toEqual([
+      ['js', 'test/counter.test.js', 'Counter', 'increments'],
+      ['js', 'test/counter.test.js', '', 'top level']
+    ]);
+  });
+
+  it('reports a file that fails to load as one failed entry that cannot be run', async () => {
+    vi.mocked(runJsTestFile).mockRejectedValueOnce(new Error('SyntaxError: Unexpected token'));
+    const [entry, ...rest] = await discoverJsTests([file('broken.spec.ts', '{')]);
+    expect(rest).toEqual([]);
+    expect(entry).toMatchObject({ path: 'broken.spec.ts', status: 'failed', error: 'SyntaxError: Unexpected token' });
+    expect(isRunnable(entry)).toBe(false);
+  });
+});
+
+describe('formatTestResult', () => {
+  it('marks passing Solidity tests with their gas', () => {
+    expect(formatTestResult(test({ status: 'passed', gasUsed: 21000n })))
+      .toBe('\x1b[32m[PASS]\x1b[0m test/Counter.t.sol:CounterTest testIncrement() (gas: 21000)');
+  });
+
+  it('puts the failure reason in the tag', () => {
+    expect(formatTestResult(test({ kind: 'js', path: 'a.test.js', suite: '', name: 'adds', status: 'failed', error: 'expected 2' })))
+      .toBe('\x1b[31m[FAIL: expected 2]\x1b[0m a.test.js:adds');
+  });
+
+  it('shows anything unfinished as skipped', () => {
+    expect(formatTestResult(test({ status: 'pending' }))).toBe('\x1b[33m[SKIP]\x1b[0m test/Counter.t.sol:CounterTest testIncrement()');
+  });
+});
+
+describe('mergeDiscovered', () => {
+  it('keeps earlier results for tests that still exist and drops the rest', () => {
+    const previous = [test({ id: 'a', status: 'passed', line: 3 }), test({ id: 'gone', status: 'failed' })];
+    const merged = mergeDiscovered(previous, [test({ id: 'a', line: 5 }), test({ id: 'b' })]);
+    expect(merged.map(t => [t.id, t.status, t.line])).toEqual([['a', 'passed', 5], ['b', 'pending', undefined]]);
+  });
+});
@@ -0,0 +1,251 @@
+import { parse, visit } from '@solidity-parser/parser';
+import type { FunctionDefinition } from '@solidity-parser/parser/dist/src/ast-types';
+import { CompiledContract, DeployedContract, FileEntry, Hex, TestCase } from '../types';
+import { abiConstructor, abiFunctions } from './abi';
+import { solidityFiles } from './compiler';
+import { callContract, createSandbox, deployContract, Sandbox, watchCallFrames, withSnapshot } from './evmSandbox';
+import { flattenFiles } from './fileTree';
+import { GasSample, gasSampler } from './gasReport';
+import { JsTestRef, runJsTestFile } from './jsTests';
+
+export const JS_TEST_FILE = /\.(test|spec)\.[jt]s$/;
+// Foundry conventions: test contracts live in *.t.sol files (or are named *Test), and every
+// public function starting with "test" is a test. testFail* tests pass only if they revert.
+const SOLIDITY_TEST_FILE = /\.t\.sol$/;
+const TEST_FUNCTION = /^test/;
+const EXPECT_REVERT = /^testFail/;
+// Stands in for the tests of a JS file that failed to load.
+const LOAD_ERROR_TEST = '(load)';
+
+export type TestReporter = (test: TestCase) => void;
+
+export const testId = (test: Pick<TestCase, 'kind' | 'path' | 'suite' | 'name'>) => `${test.kind}:${test.path}:${test.suite}:${test.name}`;
+
+const newTest = (kind: TestCase['kind'], path: string, suite: string, name: string, line?: number): TestCase => ({
+  id: testId({ kind, path, suite, name }), kind, path, suite, name, line, status: 'pending'
+});
+
+// Solidity tests are found by parsing, so they are listed before anything is compiled.
+// Files that do not parse simply contribute no tests; the compiler reports why.
+export const discoverSolidityTests = (files: FileEntry[]): TestCase[] =>
+  solidityFiles(files).flatMap(({ path, file }) => {
+    const tests: TestCase[] = [];
+    try {
+      visit(parse(file.content || '', { loc: true }), {
+        ContractDefinition: contract => {
+          if (contract.kind !== 'contract' || !(SOLIDITY_TEST_FILE.test(path) || contract.name.endsWith('Test'))) return false;
+          contract.subNodes.forEach(node => {
+            if (node.type !== 'FunctionDefinition') return;
+            const fn = node as FunctionDefinition;
+            if (fn.name && TEST_FUNCTION.test(fn.name) && ['public', 'external'].includes(fn.visibility) && !fn.parameters.length) {
+              tests.push(newTest('solidity', path, contract.name, fn.name, fn.loc?.start.line));
+            }
+          });
+          return false;
+        }
+      });
+    } catch {
+      return [];
+    }
+    return tests;
+  });
+
+// JS tests are only known once the file's describe/it calls have run, so each file is loaded
+// once in collect mode. A file that fails to load shows up as a single failing entry.
+export const discoverJsTests = async (files: FileEntry[]): Promise<TestCase[]> => {
+  const testFiles = flattenFiles(files).filter(({ path }) => JS_TEST_FILE.test(path));
+  const found = await Promise.all(testFiles.map(async ({ path, file }) => {
+    try {
+      const refs = await runJsTestFile(path, file.content || '', { mode: 'collect' }, {});
+      return refs.map(ref => newTest('js', path, ref.suite, ref.name));
+    } catch (err) {
+      return [{ ...newTest('js', path, '', LOAD_ERROR_TEST), status: 'failed' as const, error: err instanceof Error ? err.message : String(err) }];
+    }
+  }));
+  return found.flat();
+};
+
+export const isRunnable = (test: TestCase) => test.name !== LOAD_ERROR_TEST;
+
+// One terminal line per finished test, in the spirit of `forge test`.
+export const formatTestResult = (test: TestCase) => {
+  const label = `${test.path}:${test.suite ? `${test.suite} ` : ''}${test.name}${test.kind === 'solidity' ? '()' : ''}`;
+  const gas = test.gasUsed !== undefined ? ` (gas: ${test.gasUsed})` : '';
+  switch (test.status) {
+    case 'passed': return `\x1b[32m[PASS]\x1b[0m ${label}${gas}`;
+    case 'failed': return `\x1b[31m[FAIL${test.error ? `: ${test.error}` : ''}]\x1b[0m ${label}${gas}`;
+    default: return `\x1b[33m[SKIP]\x1b[0m ${label}`;
+  }
+};
+
+export const discoverTests = async (files: FileEntry[]) => [...discoverSolidityTests(files), ...await discoverJsTests(files)];
+
+// Tests that still exist keep their last result, so refreshing does not blank the explorer.
+export const mergeDiscovered = (previous: TestCase[], discovered: TestCase[]) =>
+  discovered.map(test => {
+    const old = previous.find(p => p.id === test.id);
+    return old && test.status !== 'failed' ? { ...old, line: test.line } : test;
+  });
+
+const groupBy = <T>(items: T[], key: (item: T) => string) => {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => groups.set(key(item), [...(groups.get(key(item)) || []), item]));
+  return [...groups.values()];
+};
+
+// Each test contract is deployed once and set up; every test then runs on a snapshot of
+// that state, so tests cannot see each other's changes. Gas is sampled for the contracts
+// the tests exercise, not for the test contracts themselves.
+export const runSolidityTests = async (
+  tests: TestCase[],
+  contracts: CompiledContract[],
+  report: TestReporter,
+  signal?: AbortSignal,
+  onGas?: (sample: GasSample) => void
+) => {
+  const chain = createSandbox();
+  const from = (await chain).keys[0].address;
+  const suites = new Set(tests.map(t => `${t.path}:${t.suite}`));
+  const stopGas = onGas && await watchCallFrames(chain, gasSampler(contracts.filter(c => !suites.has(`${c.sourcePath}:${c.name}`)), onGas));
+  try {
+    await runSuites(tests, contracts, chain, from, report, signal);
+  } finally {
+    stopGas?.();
+  }
+};
+
+const runSuites = async (tests: TestCase[], contracts: CompiledContract[], chain: Promise<Sandbox>, from: Hex, report: TestReporter, signal?: AbortSignal) => {
+  for (const group of groupBy(tests, t => `${t.path}:${t.suite}`)) {
+    const { path, suite } = group[0];
+    const failAll = (error: string) => group.forEach(t => report({ ...t, status: 'failed', error }));
+    if (signal?.aborted) {
+      group.forEach(t => report({ ...t, status: 'skipped' }));
+      continue;
+    }
+    const contract = contracts.find(c => c.sourcePath === path && c.name === suite);
+    if (!contract) {
+      failAll(`${suite} was not found in the compiler output`);
+      continue;
+    }
+    if (abiConstructor(contract.abi).inputs.length) {
+      failAll(`${suite} needs constructor arguments; test contracts are deployed without any`);
+      continue;
+    }
+    const { result, deployed } = await deployContract(contract, [], from, 0n, chain);
+    if (!deployed) {
+      failAll(`Deployment failed: ${result.error}`);
+      continue;
+    }
+    const fn = (name: string) => abiFunctions(contract.abi).find(f => f.name === name && !f.inputs.length);
+    const setUp = fn('setUp');
+    if (setUp) {
+      const setUpResult = await callContract(deployed, setUp, [], from, 0n, chain);
+      if (!setUpResult.success) {
+        failAll(`setUp() failed: ${setUpResult.error}`);
+        continue;
+      }
+    }
+    // DSTest-style assertions record failures in failed() instead of reverting.
+    const failedFlag = fn('failed');
+
+    for (const test of group) {
+      if (signal?.aborted) {
+        report({ ...test, status: 'skipped' });
+        continue;
+      }
+      const target = fn(test.name);
+      if (!target) {
+        report({ ...test, status: 'failed', error: `${test.name}() is not in the compiled ABI` });
+        continue;
+      }
+      report({ ...test, status: 'running', error: undefined });
+      const started = performance.now();
+      const { run, flagged } = await withSnapshot(chain, async () => {
+        const run = await callContract(deployed, target, [], from, 0n, chain);
+        const flagged = run.success && !!failedFlag && (await callContract(deployed, failedFlag, [], from, 0n, chain)).returnValue === true;
+        return { run, flagged };
+      });
+      const expectRevert = EXPECT_REVERT.test(test.name);
+      const passed = expectRevert ? !run.success : run.success && !flagged;
+      report({
+        ...test,
+        status: passed ? 'passed' : 'failed',
+        gasUsed: run.gasUsed,
+        durationMs: performance.now() - started,
+        error: passed ? undefined : expectRevert ? 'Expected a revert, but the call succeeded' : run.error || 'Assertion failed'
+      });
+    }
+  }
+};
+
+const sameTest = (test: TestCase, ref: JsTestRef) => test.suite === ref.suite && test.name === ref.name;
+
+// JS tests share one chain per file: what `before` hooks deploy persists, while everything
+// a test (and its beforeEach hooks) does is rolled back when it ends.
+export const runJsTests = async (
+  tests: TestCase[],
+  files: FileEntry[],
+  contracts: CompiledContract[],
+  report: TestReporter,
+  log: (text: string, error: boolean) => void,
+  signal?: AbortSignal,
+  onGas?: (sample: GasSample) => void
+) => {
+  for (const group of groupBy(tests, t => t.path)) {
+    const path = group[0].path;
+    const file = flattenFiles(files).find(f => f.path === path)?.file;
+    const chain = createSandbox();
+    const { vm, keys } = await chain;
+    const deployed = new Map<string, DeployedContract>();
+    const sender = (from?: string) => (from || keys[0].address) as Hex;
+    let gasUsed = 0n;
+    let started = 0;
+    const finished = new Set<string>();
+    const stopGas = onGas && await watchCallFrames(chain, gasSampler(contracts, onGas));
+
+    try {
+      await runJsTestFile(path, file?.content || '', { mode: 'run', only: group.map(({ suite, name }) => ({ suite, name })) }, {
+        log,
+        accounts: async () => keys.map(k => k.address),
+        deploy: async ({ name, args, options }) => {
+          const contract = contracts.find(c => c.name === name);
+          if (!contract) throw new Error(`No compiled contract named ${name}`);
+          const { result, deployed: instance } = await deployContract(contract, args, sender(options.from), BigInt(options.value ?? 0), chain);
+          gasUsed += result.gasUsed;
+          if (!instance) throw new Error(result.error || 'Deployment failed');
+          deployed.set(instance.address.toLowerCase(), instance);
+          return { address: instance.address, abi: instance.abi };
+        },
+        call: async ({ address, name, args, options }) => {
+          const instance = deployed.get(address.toLowerCase());
+          const fn = instance && abiFunctions(instance.abi).find(f => f.name === name && f.inputs.length === args.length);
+          if (!instance || !fn) throw new Error(`${name}(${args.length} argument(s)) not found on ${address}`);
+          const result = await callContract(instance, fn, args, sender(options.from), BigInt(options.value ?? 0), chain);
+          gasUsed += result.gasUsed;
+          if (!result.success) throw new Error(result.error || 'Call failed');
+          return result.returnValue;
+        },
+        start: async ref => {
+          const test = group.find(t => sameTest(t, ref));
+          if (test) report({ ...test, status: 'running', error: undefined });
+          gasUsed = 0n;
+          started = performance.now();
+          await vm.stateManager.checkpoint();
+        },
+        end: async ({ error, ...ref }) => {
+          await vm.stateManager.revert();
+          const test = group.find(t => sameTest(t, ref));
+          if (!test) return;
+          finished.add(test.id);
+          report({ ...test, status: error ? 'failed' : 'passed', error, gasUsed, durationMs: performance.now() - started });
+        }
+      }, signal);
+      group.filter(t => !finished.has(t.id)).forEach(t => report({ ...t, status: 'failed', error: 'Test no longer exists in the file' }));
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      group.filter(t => !finished.has(t.id)).forEach(t => report({ ...t, status: signal?.aborted ? 'skipped' : 'failed', error: signal?.aborted ? undefined : error }));
+    } finally {
+      stopGas?.();
+    }
+  }
+};
@@ -0,0 +1,221 @@
+// A small interpreter for the GitHub Actions `${{ }}` expression language: literals,
+// context lookups (github.ref, needs.build.result, ...), the comparison and logical
+// operators, the status functions and the common string helpers.
+
+export type JobStatus = 'success' | 'failure' | 'cancelled';
+
+export interface ExpressionContext {
+  contexts: Record<string, unknown>;
+  // Drives success()/failure(): whether anything earlier in the job (or a needed job) failed.
+  status: JobStatus;
+}
+
+type Expr =
+  | { kind: 'literal'; value: unknown }
+  | { kind: 'context'; name: string }
+  | { kind: 'member'; object: Expr; property: Expr }
+  | { kind: 'call'; name: string; args: Expr[] }
+  | { kind: 'not'; operand: Expr }
+  | { kind: 'binary'; op: string; left: Expr; right: Expr };
+
+interface ExprToken {
+  kind: 'number' | 'string' | 'ident' | 'op';
+  value: string;
+}
+
+const TOKEN = /\s*(?:(0x[\da-f]+|-?\d+(?:\.\d+)?(?:e[+-]?\d+)?)|'((?:[^']|'')*)'|([A-Za-z_][\w-]*)|(==|!=|<=|>=|&&|\|\||[!<>().,[\]*]))/iy;
+
+const tokenize = (source: string): ExprToken[] => {
+  const tokens: ExprToken[] = [];
+  TOKEN.lastIndex = 0;
+  while (source.slice(TOKEN.lastIndex).trim()) {
+    const start = TOKEN.lastIndex;
+    const m = TOKEN.exec(source);
+    if (!m) throw new Error(`Unexpected '${source.slice(start).trim()[0]}' in expression "${source.trim()}"`);
+    if (m[1] !== undefined) tokens.push({ kind: 'number', value: m[1] });
+    else if (m[2] !== undefined) tokens.push({ kind: 'string', value: m[2].replace(/''/g, "'") });
+    else if (m[3] !== undefined) tokens.push({ kind: 'ident', value: m[3] });
+    else tokens.push({ kind: 'op', value: m[4] });
+  }
+  return tokens;
+};
+
+const PRECEDENCE: Record<string, number> = { '||': 1, '&&': 2, '==': 3, '!=': 3, '<': 4, '<=': 4, '>': 4, '>=': 4 };
+
+export const parseExpression = (source: string): Expr => {
+  const tokens = tokenize(source);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const expect = (value: string) => {
+    const token = tokens[pos++];
+    if (!token || token.value !== value) throw new Error(`Expected '${value}' in expression "${source}"`);
+  };
+
+  const primary = (): Expr => {
+    const token = tokens[pos++];
+    if (!token) throw new Error(`Unexpected end of expression "${source}"`);
+    if (token.kind === 'number') return { kind: 'literal', value: Number(token.value) };
+    if (token.kind === 'string') return { kind: 'literal', value: token.value };
+    if (token.kind === 'op' && token.value === '!') return { kind: 'not', operand: primary() };
+    if (token.kind === 'op' && token.value === '(') {
+      const inner = binary(0);
+      expect(')');
+      return postfix(inner);
+    }
+    if (token.kind === 'ident') {
+      if (token.value === 'true' || token.value === 'false') return { kind: 'literal', value: token.value === 'true' };
+      if (token.value === 'null') return { kind: 'literal', value: null };
+      if (peek()?.value === '(') {
+        pos++;
+        const args: Expr[] = [];
+        while (peek() && peek().value !== ')') {
+          args.push(binary(0));
+          if (peek()?.value === ',') pos++;
+        }
+        expect(')');
+        const name = token.value.toLowerCase();
+        if (!FUNCTIONS[name]) throw new Error(`Unknown function ${token.value}() in expression "${source}"`);
+        return { kind: 'call', name, args };
+      }
+      return postfix({ kind: 'context', name: token.value });
+    }
+    throw new Error(`Unexpected '${token.value}' in expression "${source}"`);
+  };
+
+  const postfix = (object: Expr): Expr => {
+    for (;;) {
+      if (peek()?.value === '.') {
+        pos++;
+        const name = tokens[pos++];
+        if (!name || (name.kind !== 'ident' && name.value !== '*')) throw new Error(`Expected a property name in expression "${source}"`);
+        object = { kind: 'member', object, property: { kind: 'literal', value: name.value } };
+      } else if (peek()?.value === '[') {
+        pos++;
+        const property = binary(0);
+        expect(']');
+        object = { kind: 'member', object, property };
+      } else {
+        return object;
+      }
+    }
+  };
+
+  const binary = (minPrecedence: number): Expr => {
+    let left = primary();
+    for (;;) {
+      const op = peek();
+      const precedence = op?.kind === 'op' ? PRECEDENCE[op.value] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) return left;
+      pos++;
+      left = { kind: 'binary', op: op.value, left, right: binary(precedence + 1) };
+    }
+  };
+
+  const expr = binary(0);
+  if (pos < tokens.length) throw new Error(`Unexpected '${tokens[pos].value}' in expression "${source}"`);
+  return expr;
+};
+
+export const isTruthy = (value: unknown) =>
+  value !== false && value !== 0 && value !== '' && value !== null && value !== undefined && !Number.isNaN(value);
+
+const toNumber = (value: unknown) => {
+  if (value === null || value === undefined) return 0;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return value.trim() === '' ? 0 : Number(value);
+  return NaN;
+};
+
+// Strings compare case-insensitively and mismatched types are coerced to numbers, as on GitHub.
+const compare = (a: unknown, b: unknown) => {
+  if (typeof a === 'string' && typeof b === 'string') {
+    const x = a.toLowerCase();
+    const y = b.toLowerCase();
+    return x === y ? 0 : x < y ? -1 : 1;
+  }
+  if (typeof a === typeof b && typeof a === 'object') return a === b ? 0 : NaN;
+  const x = toNumber(a);
+  const y = toNumber(b);
+  return x === y ? 0 : x < y ? -1 : x > y ? 1 : NaN;
+};
+
+export const stringify = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const FUNCTIONS: Record<string, (args: unknown[], ctx: ExpressionContext) => unknown> = {
+  success: (_, ctx) => ctx.status === 'success',
+  failure: (_, ctx) => ctx.status === 'failure',
+  cancelled: (_, ctx) => ctx.status === 'cancelled',
+  always: () => true,
+  contains: ([haystack, needle]) => Array.isArray(haystack)
+    ? haystack.some(item => compare(item, needle) === 0)
+    : stringify(haystack).toLowerCase().includes(stringify(needle).toLowerCase()),
+  startswith: ([text, prefix]) => stringify(text).toLowerCase().startsWith(stringify(prefix).toLowerCase()),
+  endswith: ([text, suffix]) => stringify(text).toLowerCase().endsWith(stringify(suffix).toLowerCase()),
+  format: ([template, ...values]) => stringify(template).replace(/\{(\d+)\}/g, (_, i) => stringify(values[Number(i)])),
+  join: ([items, separator = ',']) => Array.isArray(items) ? items.map(stringify).join(stringify(separator)) : stringify(items),
+  tojson: ([value]) => JSON.stringify(value ?? null, null, 2),
+  fromjson: ([value]) => JSON.parse(stringify(value))
+};
+
+const evaluate = (expr: Expr, ctx: ExpressionContext): unknown => {
+  switch (expr.kind) {
+    case 'literal':
+      return expr.value;
+    case 'context':
+      return ctx.contexts[expr.name];
+    case 'member': {
+      const object = evaluate(expr.object, ctx);
+      const property = evaluate(expr.property, ctx);
+      if (property === '*') return Array.isArray(object) ? object : object && typeof object === 'object' ? Object.values(object) : [];
+      if (object === null || typeof object !== 'object') return null;
+      return (object as Record<string, unknown>)[stringify(property)] ?? null;
+    }
+    case 'call': {
+      return FUNCTIONS[expr.name](expr.args.map(a => evaluate(a, ctx)), ctx);
+    }
+    case 'not':
+      return !isTruthy(evaluate(expr.operand, ctx));
+    case 'binary': {
+      const left = evaluate(expr.left, ctx);
+      if (expr.op === '&&') return isTruthy(left) ? evaluate(expr.right, ctx) : left;
+      if (expr.op === '||') return isTruthy(left) ? left : evaluate(expr.right, ctx);
+      const order = compare(left, evaluate(expr.right, ctx));
+      if (expr.op === '==') return order === 0;
+      if (expr.op === '!=') return order !== 0;
+      if (expr.op === '<') return order < 0;
+      if (expr.op === '<=') return order <= 0;
+      if (expr.op === '>') return order > 0;
+      return order >= 0;
+    }
+  }
+};
+
+export const evaluateExpression = (source: string, ctx: ExpressionContext) => evaluate(parseExpression(source), ctx);
+
+const unwrap = (condition: string) => {
+  const m = condition.trim().match(/^\$\{\{([\s\S]*)\}\}$/);
+  return m ? m[1] : condition;
+};
+
+const STATUS_CHECK = /\b(success|failure|always|cancelled)\s*\(/i;
+
+// `if:` conditions may omit the ${{ }} wrapper, and without an explicit status
+// function they only run while everything before them has succeeded.
+export const normalizeCondition = (condition: string | undefined) => {
+  if (!condition || !condition.trim()) return 'success()';
+  const expr = unwrap(condition);
+  return STATUS_CHECK.test(expr) ? expr : `success() && (${expr})`;
+};
+
+export const evaluateCondition = (condition: string | undefined, ctx: ExpressionContext) =>
+  isTruthy(evaluateExpression(normalizeCondition(condition), ctx));
+
+// Replaces every ${{ expr }} in `text` with its value.
+export const interpolate = (text: string, ctx: ExpressionContext) =>
+  text.replace(/\$\{\{([\s\S]*?)\}\}/g, (_, expr) => stringify(evaluateExpression(expr, ctx)));
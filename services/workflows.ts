@@ -0,0 +1,347 @@
+import { LineCounter, parseDocument } from 'yaml';
+import { Diagnostic, FileEntry, JobRun, StepRun, StepStatus, WorkflowDefinition, WorkflowJob, WorkflowRun, WorkflowStatus, WorkflowStep, WorkflowTrigger } from '../types';
+import { ShellSession } from './commands';
+import { caretPosition } from './editorBuffer';
+import { flattenFiles } from './fileTree';
+import { evaluateCondition, ExpressionContext, interpolate, JobStatus, normalizeCondition, parseExpression } from './workflowExpressions';
+
+export const WORKFLOWS_DIR = '.github/workflows';
+
+export const isWorkflowPath = (path: string) =>
+  path.startsWith(`${WORKFLOWS_DIR}/`) && /\.ya?ml$/i.test(path) && !path.slice(WORKFLOWS_DIR.length + 1).includes('/');
+
+type Range = [number, number];
+
+class WorkflowSyntaxError extends Error {
+  constructor(message: string, public range?: Range) {
+    super(message);
+  }
+}
+
+const asRecord = (value: unknown, what: string, range?: Range): Record<string, unknown> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw new WorkflowSyntaxError(`${what} must be a mapping`, range);
+  return value as Record<string, unknown>;
+};
+
+const asEnv = (value: unknown, what: string, range?: Range): Record<string, string> =>
+  value === undefined ? {} : Object.fromEntries(Object.entries(asRecord(value, what, range)).map(([k, v]) => [k, String(v ?? '')]));
+
+const asCondition = (value: unknown, what: string, range?: Range) => {
+  if (value === undefined) return undefined;
+  const condition = String(value);
+  try {
+    parseExpression(normalizeCondition(condition));
+  } catch (err) {
+    throw new WorkflowSyntaxError(`${what}: ${err instanceof Error ? err.message : String(err)}`, range);
+  }
+  return condition;
+};
+
+const triggersOf = (on: unknown): string[] => {
+  if (typeof on === 'string') return [on];
+  if (Array.isArray(on)) return on.map(String);
+  if (on && typeof on === 'object') return Object.keys(on);
+  return [];
+};
+
+// Orders jobs so each runs after everything in its `needs`, keeping file order otherwise.
+const sortJobs = (jobs: WorkflowJob[], rangeOf: (jobId: string) => Range | undefined) => {
+  const sorted: WorkflowJob[] = [];
+  const done = new Set<string>();
+  while (sorted.length < jobs.length) {
+    const next = jobs.find(j => !done.has(j.id) && j.needs.every(n => done.has(n)));
+    if (!next) {
+      const stuck = jobs.filter(j => !done.has(j.id));
+      throw new WorkflowSyntaxError(`Jobs ${stuck.map(j => `'${j.id}'`).join(', ')} depend on each other in a cycle`, rangeOf(stuck[0].id));
+    }
+    sorted.push(next);
+    done.add(next.id);
+  }
+  return sorted;
+};
+
+export const parseWorkflow = (file: FileEntry, path: string): { workflow?: WorkflowDefinition; diagnostics: Diagnostic[] } => {
+  const content = file.content || '';
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter, uniqueKeys: true });
+
+  const diagnostic = (message: string, range: Range = [0, 0]): Diagnostic => {
+    const start = caretPosition(content, range[0]);
+    const end = caretPosition(content, Math.max(range[1], range[0]));
+    return {
+      fileId: file.id,
+      path,
+      line: start.line,
+      column: start.col,
+      endLine: end.line,
+      endColumn: end.col,
+      severity: 'error',
+      message,
+      source: 'workflow'
+    };
+  };
+
+  if (doc.errors.length) {
+    return { diagnostics: doc.errors.map(err => diagnostic(err.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, ''), err.pos)) };
+  }
+
+  const rangeAt = (keys: (string | number)[]): Range | undefined => {
+    const node = doc.getIn(keys, true) as { range?: [number, number, number] } | undefined;
+    return node?.range ? [node.range[0], node.range[1]] : undefined;
+  };
+
+  try {
+    const root = asRecord(doc.toJS(), 'A workflow file');
+    if (root.on === undefined) throw new WorkflowSyntaxError("Workflow is missing the required 'on' trigger");
+    if (root.jobs === undefined) throw new WorkflowSyntaxError("Workflow is missing the required 'jobs' section");
+    const jobsNode = asRecord(root.jobs, "'jobs'", rangeAt(['jobs']));
+    if (!Object.keys(jobsNode).length) throw new WorkflowSyntaxError('Workflow defines no jobs', rangeAt(['jobs']));
+
+    const jobs: WorkflowJob[] = Object.entries(jobsNode).map(([id, raw]) => {
+      const at = (...keys: (string | number)[]) => rangeAt(['jobs', id, ...keys]);
+      const job = asRecord(raw, `Job '${id}'`, at());
+      if (job['runs-on'] === undefined) throw new WorkflowSyntaxError(`Job '${id}' is missing 'runs-on'`, at());
+      if (!Array.isArray(job.steps) || !job.steps.length) throw new WorkflowSyntaxError(`Job '${id}' must define a non-empty 'steps' list`, at('steps') || at());
+
+      const needs = job.needs === undefined ? [] : Array.isArray(job.needs) ? job.needs.map(String) : [String(job.needs)];
+      needs.forEach(n => {
+        if (!(n in jobsNode)) throw new WorkflowSyntaxError(`Job '${id}' needs unknown job '${n}'`, at('needs'));
+      });
+
+      const steps: WorkflowStep[] = job.steps.map((rawStep: unknown, i: number) => {
+        const step = asRecord(rawStep, `Step ${i + 1} of job '${id}'`, at('steps', i));
+        const run = step.run === undefined ? undefined : String(step.run);
+        const uses = step.uses === undefined ? undefined : String(step.uses);
+        if (!run === !uses) throw new WorkflowSyntaxError(`Step ${i + 1} of job '${id}' must have exactly one of 'run' or 'uses'`, at('steps', i));
+        return {
+          id: step.id === undefined ? undefined : String(step.id),
+          name: step.name !== undefined ? String(step.name) : run ? `Run ${run.split('\n')[0]}` : `Run ${uses}`,
+          run,
+          uses,
+          if: asCondition(step.if, `Step ${i + 1} of job '${id}'`, at('steps', i, 'if')),
+          env: asEnv(step.env, `'env' of step ${i + 1} in job '${id}'`, at('steps', i, 'env')),
+          continueOnError: step['continue-on-error'] === true
+        };
+      });
+
+      return {
+        id,
+        name: job.name !== undefined ? String(job.name) : id,
+        runsOn: Array.isArray(job['runs-on']) ? job['runs-on'].join(', ') : String(job['runs-on']),
+        needs,
+        if: asCondition(job.if, `Job '${id}'`, at('if')),
+        env: asEnv(job.env, `'env' of job '${id}'`, at('env')),
+        steps
+      };
+    });
+
+    return {
+      workflow: {
+        fileId: file.id,
+        path,
+        name: root.name !== undefined ? String(root.name) : path.split('/').pop()!,
+        triggers: triggersOf(root.on),
+        env: asEnv(root.env, "'env'", rangeAt(['env'])),
+        jobs: sortJobs(jobs, id => rangeAt(['jobs', id]))
+      },
+      diagnostics: []
+    };
+  } catch (err) {
+    if (err instanceof WorkflowSyntaxError) return { diagnostics: [diagnostic(err.message, err.range)] };
+    throw err;
+  }
+};
+
+type WorkflowEntry = Omit<WorkflowRun, 'status' | 'history'>;
+
+export const loadWorkflows = (files: FileEntry[]) => {
+  const workflows: WorkflowDefinition[] = [];
+  const diagnostics: Diagnostic[] = [];
+  const runs: WorkflowEntry[] = [];
+  flattenFiles(files).filter(({ path }) => isWorkflowPath(path)).forEach(({ path, file }) => {
+    const result = parseWorkflow(file, path);
+    diagnostics.push(...result.diagnostics);
+    if (result.workflow) workflows.push(result.workflow);
+    runs.push({
+      id: `wf-${file.id}`,
+      workflowName: result.workflow?.name || file.name,
+      fileId: file.id,
+      path,
+      triggers: result.workflow?.triggers || [],
+      error: result.diagnostics[0] ? `Ln ${result.diagnostics[0].line}: ${result.diagnostics[0].message}` : undefined
+    });
+  });
+  return { workflows, diagnostics, runs };
+};
+
+// Rebuilds the workflow list from the files, carrying over the run history of workflows that still exist.
+export const syncWorkflowRuns = (existing: WorkflowRun[], runs: WorkflowEntry[]): WorkflowRun[] =>
+  runs.map(run => {
+    const previous = existing.find(w => w.id === run.id);
+    return { status: 'idle', history: [], ...previous, ...run };
+  });
+
+// The triggers a workflow can be started with from the hub; manual runs are always allowed.
+export const availableTriggers = (workflow: WorkflowRun): WorkflowTrigger[] => [
+  'manual',
+  ...(['push', 'schedule'] as const).filter(t => workflow.triggers?.includes(t))
+];
+
+const EVENT_NAMES: Record<WorkflowTrigger, string> = {
+  manual: 'workflow_dispatch',
+  push: 'push',
+  schedule: 'schedule'
+};
+
+export interface WorkflowExecution {
+  trigger: WorkflowTrigger;
+  // Runs one command in the hub shell, sending its output to `log`, and resolves with its exit code.
+  // Each step gets its own session, starting at the workspace root.
+  shell: (command: string, log: (line: string) => void, session: ShellSession) => Promise<number>;
+  // Called with a fresh copy of the job tree whenever a job or step changes.
+  onUpdate: (jobs: JobRun[]) => void;
+  signal?: AbortSignal;
+  // Jobs of the attempt being re-run; those that succeeded are kept instead of running again.
+  previous?: JobRun[];
+}
+
+const SIMULATED_ACTIONS: Record<string, string> = {
+  'actions/checkout': 'Workspace checked out',
+  'actions/setup-node': 'Node.js is available in the hub',
+  'actions/cache': 'Nothing to restore from cache'
+};
+
+const runAction = (uses: string, log: (line: string) => void) => {
+  const action = uses.split('@')[0];
+  log(SIMULATED_ACTIONS[action] || `${uses} is not available in the hub; treating it as a no-op`);
+  return 0;
+};
+
+// Script lines to hand to the shell one at a time; blank lines and comments are dropped.
+// A backslash at the end of a line continues the command on the next one, as in bash.
+const scriptLines = (script: string) =>
+  script.replace(/\\\r?\n/g, '').split('\n').map(l => l.trim()).filter(l => l && !l.startsWith('#'));
+
+const NEEDS_RESULTS: Partial<Record<StepStatus, string>> = {
+  success: 'success',
+  failed: 'failure',
+  skipped: 'skipped',
+  cancelled: 'cancelled'
+};
+
+export const executeWorkflow = async (
+  workflow: WorkflowDefinition, { trigger, shell, onUpdate, signal, previous }: WorkflowExecution
+): Promise<WorkflowStatus> => {
+  const github = { event_name: EVENT_NAMES[trigger], ref: 'refs/heads/main', ref_name: 'main', workflow: workflow.name, repository: 'soluf-th/workspace', actor: 'soluf-th-developer-agent-01' };
+  const runner = { os: 'Linux', arch: 'X64', name: 'soluf-th-hub' };
+
+  const jobs: JobRun[] = workflow.jobs.map(job => {
+    const earlier = previous?.find(j => j.id === job.id);
+    return earlier?.status === 'success'
+      ? { ...earlier, reused: true }
+      : { id: job.id, name: job.name, status: 'pending', steps: job.steps.map(step => ({ name: step.name, status: 'pending', logs: [] })) };
+  });
+  const emit = () => onUpdate(jobs.map(j => ({ ...j, steps: j.steps.map(s => ({ ...s, logs: [...s.logs] })) })));
+  const finish = (target: JobRun | StepRun, status: StepStatus) => {
+    target.status = status;
+    target.finishedAt = Date.now();
+  };
+  const cancelRest = () => jobs.forEach(job => {
+    job.steps.forEach(step => {
+      if (step.status === 'pending' || step.status === 'running') finish(step, 'cancelled');
+    });
+    if (job.status === 'pending' || job.status === 'running') finish(job, 'cancelled');
+  });
+
+  for (const [index, job] of workflow.jobs.entries()) {
+    const jobRun = jobs[index];
+    if (jobRun.reused) continue;
+    if (signal?.aborted) break;
+
+    const needs = Object.fromEntries(job.needs.map(n => [n, { result: NEEDS_RESULTS[jobs.find(j => j.id === n)!.status] }]));
+    const env = { ...workflow.env, ...job.env };
+    const ctx = (status: JobStatus, steps: Record<string, unknown>, stepEnv = {}): ExpressionContext =>
+      ({ status, contexts: { github, runner, needs, steps, env: { ...env, ...stepEnv } } });
+    const needsSucceeded = job.needs.every(n => jobs.find(j => j.id === n)!.status === 'success');
+
+    jobRun.startedAt = Date.now();
+    jobRun.finishedAt = undefined;
+    let runJob = false;
+    try {
+      runJob = evaluateCondition(job.if, ctx(needsSucceeded ? 'success' : 'failure', {}));
+    } catch (err) {
+      jobRun.steps[0].logs.push(`Invalid 'if': ${err instanceof Error ? err.message : String(err)}`);
+      finish(jobRun, 'failed');
+      jobRun.steps.forEach(step => finish(step, 'skipped'));
+      emit();
+      continue;
+    }
+    if (!runJob) {
+      finish(jobRun, 'skipped');
+      jobRun.steps.forEach(step => finish(step, 'skipped'));
+      emit();
+      continue;
+    }
+
+    jobRun.status = 'running';
+    emit();
+    const steps: Record<string, { outcome: string; conclusion: string }> = {};
+    let failed = false;
+
+    for (const [stepIndex, step] of job.steps.entries()) {
+      if (signal?.aborted) break;
+      const stepRun = jobRun.steps[stepIndex];
+      const log = (line: string) => {
+        stepRun.logs.push(line);
+        emit();
+      };
+      const stepCtx = ctx(failed ? 'failure' : 'success', steps, step.env);
+      stepRun.startedAt = Date.now();
+      let code = 0;
+      try {
+        if (!evaluateCondition(step.if, stepCtx)) {
+          finish(stepRun, 'skipped');
+          if (step.id) steps[step.id] = { outcome: 'skipped', conclusion: 'skipped' };
+          emit();
+          continue;
+        }
+        stepRun.status = 'running';
+        emit();
+        if (step.uses) {
+          code = runAction(step.uses, log);
+        } else {
+          const session: ShellSession = { cwd: '' };
+          for (const line of scriptLines(interpolate(step.run || '', stepCtx))) {
+            if (signal?.aborted) break;
+            code = await shell(line, log, session);
+            if (code !== 0) break;
+          }
+        }
+      } catch (err) {
+        log(err instanceof Error ? err.message : String(err));
+        code = 1;
+      }
+      if (signal?.aborted) break;
+
+      const outcome = code === 0 ? 'success' : 'failure';
+      if (step.id) steps[step.id] = { outcome, conclusion: step.continueOnError ? 'success' : outcome };
+      if (code !== 0) {
+        log(`Process completed with exit code ${code}${step.continueOnError ? ' (continue-on-error)' : ''}.`);
+        if (!step.continueOnError) failed = true;
+      }
+      finish(stepRun, code === 0 ? 'success' : 'failed');
+      emit();
+    }
+
+    if (signal?.aborted) break;
+    finish(jobRun, failed ? 'failed' : 'success');
+    emit();
+  }
+
+  if (signal?.aborted) {
+    cancelRest();
+    emit();
+    return 'cancelled';
+  }
+  return jobs.some(j => j.status === 'failed') ? 'failed' : 'success';
+};
@@ -7,21 +7,113 @@ export enum IDEType {
   SOLIDITY_IDE = 'Solidity-IDE'
 }
 
-export type WorkflowStatus = 'idle' | 'running' | 'success' | 'failed';
+export type WorkflowStatus = 'idle' | 'running' | 'success' | 'failed' | 'cancelled';
+export type WorkflowTrigger = 'manual' | 'push' | 'schedule';
+export type StepStatus = 'pending' | 'running' | 'success' | 'failed' | 'skipped' | 'cancelled';
 export type TerminalTheme = 'github-dark' | 'cyberpunk' | 'monokai';
 
+export interface StepRun {
+  name: string;
+  status: StepStatus;
+  startedAt?: number;
+  finishedAt?: number;
+  logs: string[];
+}
+
+export interface JobRun {
+  id: string;
+  name: string;
+  status: StepStatus;
+  startedAt?: number;
+  finishedAt?: number;
+  steps: StepRun[];
+  // Carried over unchanged from the attempt that was re-run.
+  reused?: boolean;
+}
+
+export interface WorkflowRunRecord {
+  id: string;
+  runNumber: number;
+  attempt: number;
+  trigger: WorkflowTrigger;
+  status: WorkflowStatus;
+  startedAt: number;
+  finishedAt?: number;
+  jobs: JobRun[];
+}
+
+// One workflow file; `status` and `startTime` mirror its latest run.
 export interface WorkflowRun {
   id: string;
   workflowName: string;
   status: WorkflowStatus;
   startTime?: number;
-  logs: string[];
+  fileId?: string;
+  path?: string;
+  triggers?: string[];
+  error?: string;
+  history: WorkflowRunRecord[];
 }
 
+export interface WorkflowStep {
+  id?: string;
+  name: string;
+  run?: string;
+  uses?: string;
+  if?: string;
+  env: Record<string, string>;
+  continueOnError: boolean;
+}
+
+export interface WorkflowJob {
+  id: string;
+  name: string;
+  runsOn: string;
+  needs: string[];
+  if?: string;
+  env: Record<string, string>;
+  steps: WorkflowStep[];
+}
+
+export interface WorkflowDefinition {
+  fileId: string;
+  path: string;
+  name: string;
+  triggers: string[];
+  env: Record<string, string>;
+  // Topologically sorted so every job comes after the jobs it needs.
+  jobs: WorkflowJob[];
+}
+
+export type LogLevel = 'info' | 'success' | 'warning' | 'error';
+// Where a line came from: a command the user typed ('command') and its output ('shell'),
+// or one of the IDE subsystems that report into the terminal.
+export type LogSource = 'command' | 'shell' | 'workflow' | 'compiler' | 'sandbox' | 'network' | 'ai' | 'system';
+
+export interface LogEntry {
+  // May contain ANSI escape sequences.
+  text: string;
+  level: LogLevel;
+  source: LogSource;
+  timestamp: number;
+  // Set on echoed command lines: the prompt they were typed at.
+  prompt?: string;
+}
+
+// What a terminal's input is sent to: the virtual shell, a JavaScript REPL or the AI assistant.
+export type TerminalProfile = 'shell' | 'node' | 'ai';
+
 export interface TerminalInstance {
   id: string;
   name: string;
-  logs: string[];
+  profile: TerminalProfile;
+  logs: LogEntry[];
+  // Working directory relative to the workspace root; '' is the root itself.
+  cwd: string;
+  // Submitted command lines, oldest first.
+  history: string[];
+  // Maximum number of log entries kept; older ones are dropped first.
+  scrollback: number;
 }
 
 export interface Task {
@@ -45,12 +137,368 @@ export interface ProjectState {
   activeIDE: IDEType;
   files: FileEntry[];
   currentFileId: string | null;
+  openFileIds: string[];
+  splitFileId: string | null;
+  expandedFolderIds: string[];
   isTerminalOpen: boolean;
+  activePanelTab: 'terminal' | 'problems' | 'gas' | 'storage';
   isAISidebarOpen: boolean;
-  activeSidebarTab: 'explorer' | 'actions' | 'tasks';
+  activeSidebarTab: 'explorer' | 'actions' | 'deploy' | 'networks' | 'tests' | 'tasks';
   workflows: WorkflowRun[];
   terminals: TerminalInstance[];
   activeTerminalId: string;
+  // Terminals shown side by side in the panel (one or two); the active one is always among them.
+  terminalPanes: string[];
+  // Panel height in pixels.
+  terminalHeight: number;
   terminalTheme: TerminalTheme;
   tasks: Task[];
+  chatThreads: ChatThread[];
+  activeChatThreadId: string | null;
+  auditReports: AuditReport[];
+  gasReports: GasReport[];
+  networks: NetworkConfig[];
+  activeNetworkId: string;
+  accountSource: AccountSource;
+}
+
+export interface EditorSelection {
+  start: number;
+  end: number;
+}
+
+export interface EditorSnapshot {
+  content: string;
+  selection: EditorSelection;
+}
+
+export interface EditorBuffer {
+  fileId: string;
+  content: string;
+  savedContent: string;
+  selection: EditorSelection;
+  undoStack: EditorSnapshot[];
+  redoStack: EditorSnapshot[];
+  lastEditAt: number;
+  scrollTop: number;
+}
+
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+}
+
+export interface WorkspaceRecord extends WorkspaceSummary {
+  schemaVersion: number;
+  state: ProjectState;
+}
+
+export interface ImportSummary {
+  source: string;
+  importedFiles: number;
+  importedFolders: number;
+  skipped: { path: string; reason: string }[];
+}
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export interface Diagnostic {
+  fileId: string;
+  path: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  severity: DiagnosticSeverity;
+  message: string;
+  source: 'solc' | 'workflow' | 'audit';
+  code?: string;
+  // Set for audit findings, so the editor and Problems panel can change their status.
+  auditIssueId?: string;
+}
+
+export interface CompiledContract {
+  name: string;
+  sourcePath: string;
+  abi: any[];
+  bytecode: string;
+  deployedBytecode: string;
+  storageLayout?: StorageLayout;
+}
+
+// solc's storageLayout output. Offsets are bytes from the right (low-order) end of the slot.
+export interface StorageVariable {
+  label: string;
+  // The contract whose layout this is, as "<source path>:<name>".
+  contract: string;
+  slot: string;
+  offset: number;
+  type: string;
+}
+
+export interface StorageType {
+  label: string;
+  encoding: 'inplace' | 'mapping' | 'dynamic_array' | 'bytes';
+  numberOfBytes: string;
+  members?: StorageVariable[];
+}
+
+export interface StorageLayout {
+  storage: StorageVariable[];
+  types: Record<string, StorageType> | null;
+}
+
+export interface NetworkConfig {
+  id: string;
+  name: string;
+  rpcUrl: string;
+  // When set, deployments are refused if the endpoint reports a different chain.
+  chainId?: number;
+  // Base URL of a block explorer, e.g. "https://sepolia.etherscan.io".
+  explorerUrl?: string;
+}
+
+// Local test keys are the well-known mnemonic accounts a local node funds; an injected
+// wallet is whatever EIP-1193 provider the browser exposes as window.ethereum.
+export type AccountSource = 'local' | 'injected';
+
+export interface NetworkAccount {
+  address: Hex;
+  balance: bigint;
+}
+
+export interface DeploymentRecord {
+  contractName: string;
+  sourcePath: string;
+  address: Hex;
+  transactionHash: Hex;
+  deployer: Hex;
+  chainId: number;
+  // Constructor arguments as shown to the user when confirming.
+  args: string[];
+  gasUsed: string;
+  deployedAt: number;
+}
+
+// A contract on a JSON-RPC network loaded into the interaction panel by address and ABI.
+export interface NetworkContract {
+  networkId: string;
+  address: Hex;
+  name: string;
+  abi: any[];
+}
+
+export interface InteractionResult {
+  id: string;
+  kind: 'call' | 'transaction';
+  contractName: string;
+  functionName: string;
+  from?: Hex;
+  to: Hex;
+  success: boolean;
+  transactionHash?: Hex;
+  gasUsed?: bigint;
+  returnValue?: unknown;
+  events: DecodedEvent[];
+  error?: string;
+  timestamp: number;
+}
+
+export interface GasStats {
+  calls: number;
+  min: number;
+  avg: number;
+  median: number;
+  max: number;
+}
+
+export interface GasReportContract {
+  name: string;
+  sourcePath: string;
+  deployment?: { gas: number; size: number };
+  // Keyed by function signature, e.g. "transfer(address,uint256)".
+  functions: Record<string, GasStats>;
+}
+
+export interface GasReport {
+  id: string;
+  createdAt: number;
+  contracts: GasReportContract[];
+}
+
+export interface CompilationResult {
+  success: boolean;
+  compilerVersion: string;
+  contracts: CompiledContract[];
+  diagnostics: Diagnostic[];
+  compiledAt: number;
+}
+
+export type Hex = `0x${string}`;
+
+export interface SandboxAccount {
+  address: Hex;
+  privateKey: Hex;
+  balance: bigint;
+}
+
+export interface DeployedContract {
+  address: Hex;
+  name: string;
+  abi: any[];
+  deployedAt: number;
+}
+
+export interface DecodedEvent {
+  name: string;
+  address: Hex;
+  args: Record<string, unknown> | unknown[];
+}
+
+export interface StorageChange {
+  address: Hex;
+  slot: Hex;
+  // Undefined when the slot's earlier value could not be read.
+  before?: Hex;
+  after: Hex;
+}
+
+export interface SandboxTxResult {
+  id: string;
+  kind: 'deploy' | 'call' | 'transaction';
+  contractName: string;
+  functionName?: string;
+  from: Hex;
+  to?: Hex;
+  success: boolean;
+  gasUsed: bigint;
+  returnValue?: unknown;
+  events: DecodedEvent[];
+  stateChanges: StorageChange[];
+  error?: string;
+  timestamp: number;
+}
+
+export type TestStatus = 'pending' | 'running' | 'passed' | 'failed' | 'skipped';
+
+// One test: a Foundry-style `test*` function of a Solidity test contract, or an `it`/`test`
+// case in a JS/TS test file. `suite` is the contract name, or the describe() path.
+export interface TestCase {
+  id: string;
+  kind: 'solidity' | 'js';
+  path: string;
+  suite: string;
+  name: string;
+  line?: number;
+  status: TestStatus;
+  gasUsed?: bigint;
+  durationMs?: number;
+  error?: string;
+}
+
+export type AIProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface AISettings {
+  provider: AIProviderId;
+  model: string;
+  temperature: number;
+  // Empty falls back to the key the app was built with (Gemini only).
+  apiKey: string;
+  // Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1 for a local server.
+  baseUrl: string;
+  // The model's context window; attached context is truncated to fit it.
+  contextTokens: number;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  timestamp: number;
+  // Replies that were stopped or failed stay visible but are not sent back to the model.
+  status?: 'stopped' | 'failed';
+  // Labels of the context attached to a question.
+  context?: string[];
+}
+
+// Something attached to a chat question with an @-mention.
+export type ChatContextItem =
+  | { kind: 'file'; id: string; path: string }
+  | { kind: 'folder'; id: string; path: string }
+  | { kind: 'selection' }
+  | { kind: 'terminal'; lines: number }
+  | { kind: 'workflow'; workflowId: string; runId: string; name: string };
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface CodeAnalysisIssue {
+  severity: 'Low' | 'Medium' | 'High';
+  message: string;
+  line: number;
+  // The static analysis rule that raised the issue; unset for AI findings.
+  detector?: string;
+}
+
+export interface CodeAnalysis {
+  summary: string;
+  issues: CodeAnalysisIssue[];
+  optimization: string;
+  // Concrete changes implementing the optimization, if the model proposed any.
+  edits?: ProposedEdit[];
+}
+
+export type AuditIssueStatus = 'open' | 'dismissed' | 'wontfix';
+
+export interface AuditIssue extends CodeAnalysisIssue {
+  id: string;
+  status: AuditIssueStatus;
+  // The trimmed text of the flagged line when audited; re-anchors the issue after edits above it.
+  snippet: string;
+}
+
+// One analysis of one version of a file. A file keeps its most recent few reports.
+export interface AuditReport {
+  id: string;
+  fileId: string;
+  // Hash of the audited content.
+  version: string;
+  model: string;
+  summary: string;
+  optimization: string;
+  issues: AuditIssue[];
+  edits?: ProposedEdit[];
+  createdAt: number;
+}
+
+// A change the AI proposes: the complete new content of a workspace file.
+export interface ProposedEdit {
+  path: string;
+  content: string;
+}
+
+// A run of changed lines; starts are 0-based line numbers in the old and new text.
+export interface DiffHunk {
+  id: string;
+  oldStart: number;
+  newStart: number;
+  oldLines: string[];
+  newLines: string[];
+}
+
+// A proposed edit being reviewed hunk by hunk before it touches the file.
+export interface EditReview {
+  path: string;
+  // Absent when the edit creates a new file.
+  fileId?: string;
+  original: string;
+  proposed: string;
+  hunks: DiffHunk[];
+  rejectedHunkIds: string[];
 }